@@ -0,0 +1,9 @@
+import { Module } from "@nestjs/common";
+import { PdfModule } from "../pdf";
+import { AdminController } from "./controllers/admin.controller";
+
+@Module({
+  imports: [PdfModule],
+  controllers: [AdminController],
+})
+export class AdminModule {}
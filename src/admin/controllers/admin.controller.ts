@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Post,
+} from "@nestjs/common";
+import {
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { API_KEY_SECURITY_NAME, AdminOnly } from "../../auth";
+import {
+  BrowserInstanceStats,
+  BrowserPoolService,
+  BrowserPoolStatus,
+} from "../../pdf";
+
+@ApiTags("admin")
+@ApiSecurity(API_KEY_SECURITY_NAME)
+@ApiResponse({ status: 401, description: "Missing or invalid API key" })
+@ApiResponse({
+  status: 403,
+  description: "API key lacks the admin scope, or no API keys are configured",
+})
+@AdminOnly()
+@Controller("admin")
+export class AdminController {
+  constructor(private readonly browserPoolService: BrowserPoolService) {}
+
+  @Get("pool")
+  @ApiOperation({
+    summary: "Get the browser pool state",
+    description:
+      "Returns the configured pool limits together with the current number of browsers, open and pooled pages, and the page request queue.",
+  })
+  @ApiResponse({ status: 200, description: "Browser pool state" })
+  getPool(): BrowserPoolStatus {
+    return this.browserPoolService.getBrowserStatus();
+  }
+
+  @Post("pool/drain")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Drain the browser pool",
+    description:
+      "Stops handing out pages to new conversions, which fail with 503 and a Retry-After header. Running and queued conversions still finish.",
+  })
+  @ApiResponse({ status: 200, description: "Browser pool state" })
+  drainPool(): BrowserPoolStatus {
+    this.browserPoolService.drain();
+    return this.browserPoolService.getBrowserStatus();
+  }
+
+  @Post("pool/resume")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Resume a drained browser pool",
+    description: "Starts accepting new conversions again.",
+  })
+  @ApiResponse({ status: 200, description: "Browser pool state" })
+  resumePool(): BrowserPoolStatus {
+    this.browserPoolService.resume();
+    return this.browserPoolService.getBrowserStatus();
+  }
+
+  @Get("browsers")
+  @ApiOperation({
+    summary: "List the pooled browsers",
+    description:
+      "Returns age, open and pooled pages, last use and health of every browser in the pool.",
+  })
+  @ApiResponse({ status: 200, description: "Per-browser statistics" })
+  getBrowsers(): BrowserInstanceStats[] {
+    return this.browserPoolService.getBrowserStats();
+  }
+
+  @Post("browsers/restart")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Restart all browsers",
+    description:
+      "Drains the pool, then closes every browser and launches a fresh set. New conversions get a 503 meanwhile, running and queued ones finish first.",
+  })
+  @ApiResponse({ status: 200, description: "The restarted browsers" })
+  @ApiResponse({
+    status: 409,
+    description: "Conversions were still running after the grace period",
+  })
+  async restartBrowsers(): Promise<BrowserInstanceStats[]> {
+    await this.browserPoolService.restartBrowsers();
+    return this.browserPoolService.getBrowserStats();
+  }
+
+  @Post("browsers/:id/recycle")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Recycle one browser",
+    description:
+      "Drains the pool, then closes the browser and launches a replacement. New conversions get a 503 meanwhile, running and queued ones finish first.",
+  })
+  @ApiParam({ name: "id", description: "Browser id from GET /admin/browsers" })
+  @ApiResponse({ status: 200, description: "The browsers after recycling" })
+  @ApiResponse({ status: 404, description: "No browser with this id" })
+  @ApiResponse({
+    status: 409,
+    description: "Conversions were still running after the grace period",
+  })
+  async recycleBrowser(
+    @Param("id") id: string
+  ): Promise<BrowserInstanceStats[]> {
+    if (!(await this.browserPoolService.recycleBrowser(id))) {
+      throw new NotFoundException(`Browser ${id} not found`);
+    }
+    return this.browserPoolService.getBrowserStats();
+  }
+}
@@ -1,12 +1,20 @@
-import { Module } from "@nestjs/common";
+import { MiddlewareConsumer, Module, NestModule } from "@nestjs/common";
 import { ThrottlerModule } from "@nestjs/throttler";
+import { AdminModule } from "./admin";
+import { AuthModule } from "./auth";
+import { RequestContextMiddleware } from "./common";
 import { ConfigModule } from "./config";
+import { FontsModule } from "./fonts";
 import { HealthModule } from "./health";
+import { JobsModule } from "./jobs";
+import { MarkdownModule } from "./markdown";
 import { PdfModule } from "./pdf";
+import { TemplatesModule } from "./templates";
 
 @Module({
   imports: [
     ConfigModule,
+    AuthModule,
     HealthModule,
     ThrottlerModule.forRoot([
       {
@@ -26,6 +34,15 @@ import { PdfModule } from "./pdf";
       },
     ]),
     PdfModule,
+    JobsModule,
+    TemplatesModule,
+    MarkdownModule,
+    FontsModule,
+    AdminModule,
   ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestContextMiddleware).forRoutes("*");
+  }
+}
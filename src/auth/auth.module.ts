@@ -0,0 +1,22 @@
+import { Module } from "@nestjs/common";
+import { APP_GUARD } from "@nestjs/core";
+import { ConfigModule } from "../config";
+import { AccountController } from "./controllers/account.controller";
+import { ApiKeyGuard } from "./guards/api-key.guard";
+import { ApiKeyService } from "./services/api-key.service";
+import { UsageService } from "./services/usage.service";
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [AccountController],
+  providers: [
+    ApiKeyService,
+    UsageService,
+    {
+      provide: APP_GUARD,
+      useClass: ApiKeyGuard,
+    },
+  ],
+  exports: [ApiKeyService, UsageService],
+})
+export class AuthModule {}
@@ -0,0 +1,29 @@
+export const API_KEY_SCOPES = [
+  "html",
+  "url",
+  "file",
+  "image",
+  "admin",
+] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Keys without explicit scopes may convert anything but not administer
+export const DEFAULT_API_KEY_SCOPES: ApiKeyScope[] = [
+  "html",
+  "url",
+  "file",
+  "image",
+];
+
+export const API_KEY_HEADER = "X-API-Key";
+export const API_KEY_SECURITY_NAME = "api-key";
+
+// Reflector metadata keys
+export const PUBLIC_ROUTE_KEY = "auth:public";
+export const REQUIRED_SCOPES_KEY = "auth:scopes";
+export const ADMIN_ROUTE_KEY = "auth:admin";
+
+// Stored key hashes are hex SHA-256 digests, optionally prefixed "sha256:"
+export const API_KEY_HASH_PATTERN = /^(?:sha256:)?([0-9a-f]{64})$/i;
+
+export const USAGE_SAVE_DELAY = 1000; // 1 second
@@ -0,0 +1,38 @@
+import { Controller, Get, NotFoundException } from "@nestjs/common";
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { API_KEY_SECURITY_NAME } from "../constants/auth.constants";
+import { CurrentApiKey } from "../decorators/current-api-key.decorator";
+import { ApiKey } from "../interfaces/api-key.interface";
+import { AccountUsageResponse } from "../interfaces/usage.interface";
+import { UsageService } from "../services/usage.service";
+
+@ApiTags("account")
+@ApiSecurity(API_KEY_SECURITY_NAME)
+@Controller("account")
+export class AccountController {
+  constructor(private readonly usageService: UsageService) {}
+
+  @Get("usage")
+  @ApiOperation({
+    summary: "Get the quota usage of the calling API key",
+    description:
+      "Returns the conversions and pages used in the current calendar month (UTC) against the key's quotas, and the state of its rate limit window.",
+  })
+  @ApiResponse({ status: 200, description: "Usage of the API key" })
+  @ApiResponse({ status: 401, description: "Missing or invalid API key" })
+  @ApiResponse({
+    status: 404,
+    description: "API key authentication is not configured",
+  })
+  getUsage(@CurrentApiKey() apiKey: ApiKey | undefined): AccountUsageResponse {
+    if (!apiKey) {
+      throw new NotFoundException("API key authentication is not configured");
+    }
+    return this.usageService.describe(apiKey);
+  }
+}
@@ -0,0 +1,8 @@
+import { SetMetadata } from "@nestjs/common";
+import { ADMIN_ROUTE_KEY } from "../constants/auth.constants";
+
+/**
+ * Limits a route or controller to API keys with the admin scope. Admin routes
+ * are closed entirely while API key authentication is not configured.
+ */
+export const AdminOnly = () => SetMetadata(ADMIN_ROUTE_KEY, true);
@@ -0,0 +1,8 @@
+import { createParamDecorator } from "@nestjs/common";
+import { RequestContext } from "../../common/context/request-context";
+import { ApiKey } from "../interfaces/api-key.interface";
+
+/** The API key the request authenticated with, if any. */
+export const CurrentApiKey = createParamDecorator(
+  (): ApiKey | undefined => RequestContext.current()?.apiKey
+);
@@ -0,0 +1,5 @@
+import { SetMetadata } from "@nestjs/common";
+import { PUBLIC_ROUTE_KEY } from "../constants/auth.constants";
+
+/** Exempts a route or controller from API key authentication. */
+export const Public = () => SetMetadata(PUBLIC_ROUTE_KEY, true);
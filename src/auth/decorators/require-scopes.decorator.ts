@@ -0,0 +1,13 @@
+import { SetMetadata } from "@nestjs/common";
+import { Request } from "express";
+import { ApiKeyScope, REQUIRED_SCOPES_KEY } from "../constants/auth.constants";
+
+/** Derives scopes from the parsed request body, e.g. for batches. */
+export type ScopeResolver = (request: Request) => ApiKeyScope[];
+
+/**
+ * Marks a route as a conversion: the API key needs every listed scope and
+ * must be within its monthly quota.
+ */
+export const RequireScopes = (...scopes: (ApiKeyScope | ScopeResolver)[]) =>
+  SetMetadata(REQUIRED_SCOPES_KEY, scopes);
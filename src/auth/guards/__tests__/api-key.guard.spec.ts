@@ -0,0 +1,216 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Test, TestingModule } from "@nestjs/testing";
+import { RequestContext, RequestContextStore } from "../../../common";
+import { TemplatesController } from "../../../templates/controllers/templates.controller";
+import {
+  ADMIN_ROUTE_KEY,
+  PUBLIC_ROUTE_KEY,
+  REQUIRED_SCOPES_KEY,
+} from "../../constants/auth.constants";
+import { ApiKey } from "../../interfaces/api-key.interface";
+import { ApiKeyService } from "../../services/api-key.service";
+import { UsageService } from "../../services/usage.service";
+import { ApiKeyGuard } from "../api-key.guard";
+
+describe("ApiKeyGuard", () => {
+  let guard: ApiKeyGuard;
+  let apiKeyService: { enabled: boolean; authenticate: jest.Mock };
+  let usageService: UsageService;
+  let metadata: Record<string, unknown>;
+
+  const apiKey: ApiKey = {
+    id: "acme",
+    name: "Acme",
+    hash: "0".repeat(64),
+    scopes: ["html"],
+    rateLimit: { limit: 1, ttl: 60000 },
+    quota: {},
+    priority: "normal",
+  };
+
+  const createContext = (headers: Record<string, string> = {}) => {
+    const response = { setHeader: jest.fn() };
+    const request = {
+      body: {},
+      header: (name: string) => headers[name.toLowerCase()],
+    };
+    const context = {
+      getType: () => "http",
+      getHandler: () => undefined,
+      getClass: () => undefined,
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext;
+    return { context, response };
+  };
+
+  const activate = (context: ExecutionContext) => {
+    const store: RequestContextStore = { requestId: "test" };
+    const result = RequestContext.run(store, () => guard.canActivate(context));
+    return { result, store };
+  };
+
+  beforeEach(async () => {
+    metadata = {};
+    apiKeyService = {
+      enabled: true,
+      authenticate: jest.fn((key: string) =>
+        key === "secret" ? apiKey : undefined
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyGuard,
+        {
+          provide: Reflector,
+          useValue: {
+            getAllAndOverride: (key: string) => metadata[key],
+          },
+        },
+        {
+          provide: ApiKeyService,
+          useValue: Object.assign(apiKeyService, {
+            missingScopes: ApiKeyService.prototype.missingScopes,
+          }),
+        },
+        {
+          provide: UsageService,
+          useValue: {
+            consumeRate: jest.fn(),
+            assertWithinQuota: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    guard = module.get<ApiKeyGuard>(ApiKeyGuard);
+    usageService = module.get<UsageService>(UsageService);
+    jest.spyOn(usageService, "consumeRate").mockReturnValue({
+      allowed: true,
+      limit: 1,
+      remaining: 0,
+      resetAt: Date.now() + 60000,
+    });
+  });
+
+  it("should let everything through when no keys are configured", () => {
+    apiKeyService.enabled = false;
+
+    expect(activate(createContext().context).result).toBe(true);
+  });
+
+  it("should let public routes through without a key", () => {
+    metadata[PUBLIC_ROUTE_KEY] = true;
+
+    expect(activate(createContext().context).result).toBe(true);
+  });
+
+  it("should reject missing and unknown keys", () => {
+    expect(() => activate(createContext().context)).toThrow(
+      UnauthorizedException
+    );
+    expect(() =>
+      activate(createContext({ "x-api-key": "wrong" }).context)
+    ).toThrow("Invalid API key");
+  });
+
+  it("should accept X-API-Key and Bearer keys and store them on the context", () => {
+    const header = activate(createContext({ "x-api-key": "secret" }).context);
+    const bearer = activate(
+      createContext({ authorization: "Bearer secret" }).context
+    );
+
+    expect(header.store.apiKey).toBe(apiKey);
+    expect(bearer.store.apiKey).toBe(apiKey);
+  });
+
+  it("should require the route scopes and check quotas on conversions", () => {
+    metadata[REQUIRED_SCOPES_KEY] = ["html", () => ["image"]];
+
+    expect(() =>
+      activate(createContext({ "x-api-key": "secret" }).context)
+    ).toThrow(new ForbiddenException("API key acme lacks the image scope"));
+
+    metadata[REQUIRED_SCOPES_KEY] = ["html"];
+    activate(createContext({ "x-api-key": "secret" }).context);
+    expect(usageService.assertWithinQuota).toHaveBeenCalledWith(apiKey);
+  });
+
+  it("should limit admin routes to keys with the admin scope", () => {
+    metadata[ADMIN_ROUTE_KEY] = true;
+
+    expect(() =>
+      activate(createContext({ "x-api-key": "secret" }).context)
+    ).toThrow(new ForbiddenException("API key acme lacks the admin scope"));
+
+    apiKey.scopes.push("admin");
+    try {
+      expect(
+        activate(createContext({ "x-api-key": "secret" }).context).result
+      ).toBe(true);
+    } finally {
+      apiKey.scopes.pop();
+    }
+  });
+
+  it("should keep template and partial changes to admin keys", () => {
+    const routeGuard = new ApiKeyGuard(
+      new Reflector(),
+      apiKeyService as unknown as ApiKeyService,
+      usageService
+    );
+    const { context } = createContext({ "x-api-key": "secret" });
+    const routeContext = (handler: (...args: never[]) => unknown) =>
+      ({
+        ...context,
+        getHandler: () => handler,
+        getClass: () => TemplatesController,
+      }) as ExecutionContext;
+    const { prototype } = TemplatesController;
+
+    for (const handler of [
+      prototype.registerTemplate,
+      prototype.removeTemplate,
+      prototype.registerPartial,
+      prototype.removePartial,
+    ]) {
+      expect(() => routeGuard.canActivate(routeContext(handler))).toThrow(
+        new ForbiddenException("API key acme lacks the admin scope")
+      );
+    }
+    expect(routeGuard.canActivate(routeContext(prototype.listTemplates))).toBe(
+      true
+    );
+  });
+
+  it("should close admin routes when no keys are configured", () => {
+    apiKeyService.enabled = false;
+    metadata[ADMIN_ROUTE_KEY] = true;
+
+    expect(() => activate(createContext().context)).toThrow(
+      "Admin endpoints require API key authentication"
+    );
+  });
+
+  it("should answer 429 with Retry-After once the rate limit is hit", () => {
+    jest.spyOn(usageService, "consumeRate").mockReturnValue({
+      allowed: false,
+      limit: 1,
+      remaining: 0,
+      resetAt: Date.now() + 30000,
+    });
+    const { context, response } = createContext({ "x-api-key": "secret" });
+
+    expect(() => activate(context)).toThrow(HttpException);
+    expect(response.setHeader).toHaveBeenCalledWith("Retry-After", 30);
+  });
+});
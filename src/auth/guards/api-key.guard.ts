@@ -0,0 +1,127 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  UnauthorizedException,
+} from "@nestjs/common";
+import { Reflector } from "@nestjs/core";
+import { Request, Response } from "express";
+import { RequestContext } from "../../common/context/request-context";
+import {
+  ADMIN_ROUTE_KEY,
+  API_KEY_HEADER,
+  ApiKeyScope,
+  PUBLIC_ROUTE_KEY,
+  REQUIRED_SCOPES_KEY,
+} from "../constants/auth.constants";
+import { ScopeResolver } from "../decorators/require-scopes.decorator";
+import { ApiKeyService } from "../services/api-key.service";
+import { UsageService } from "../services/usage.service";
+
+/**
+ * Authenticates requests with an X-API-Key header or a Bearer token, checks
+ * the route's scopes, the key's rate limit and, for conversion routes, its
+ * monthly quota. The key is stored on the request context for the metrics
+ * and usage tracking further down.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly apiKeyService: ApiKeyService,
+    private readonly usageService: UsageService
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const isPublic = this.reflector.getAllAndOverride<boolean>(
+      PUBLIC_ROUTE_KEY,
+      targets
+    );
+    if (isPublic || context.getType() !== "http") {
+      return true;
+    }
+    const isAdmin = this.reflector.getAllAndOverride<boolean>(
+      ADMIN_ROUTE_KEY,
+      targets
+    );
+    if (!this.apiKeyService.enabled) {
+      if (isAdmin) {
+        throw new ForbiddenException(
+          "Admin endpoints require API key authentication"
+        );
+      }
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const response = context.switchToHttp().getResponse<Response>();
+
+    const rawKey = this.extractKey(request);
+    if (!rawKey) {
+      throw new UnauthorizedException("Missing API key");
+    }
+    const apiKey = this.apiKeyService.authenticate(rawKey);
+    if (!apiKey) {
+      throw new UnauthorizedException("Invalid API key");
+    }
+
+    if (isAdmin && !apiKey.scopes.includes("admin")) {
+      throw new ForbiddenException(
+        `API key ${apiKey.id} lacks the admin scope`
+      );
+    }
+
+    const required = this.reflector.getAllAndOverride<
+      (ApiKeyScope | ScopeResolver)[] | undefined
+    >(REQUIRED_SCOPES_KEY, targets);
+    if (required) {
+      const scopes = required.flatMap((scope) =>
+        typeof scope === "function" ? scope(request) : [scope]
+      );
+      const missing = this.apiKeyService.missingScopes(apiKey, scopes);
+      if (missing.length > 0) {
+        throw new ForbiddenException(
+          `API key ${apiKey.id} lacks the ${missing.join(", ")} scope`
+        );
+      }
+    }
+
+    const rate = this.usageService.consumeRate(apiKey);
+    if (apiKey.rateLimit.limit > 0) {
+      const resetSeconds = Math.ceil((rate.resetAt - Date.now()) / 1000);
+      response.setHeader("X-RateLimit-Limit-key", rate.limit);
+      response.setHeader("X-RateLimit-Remaining-key", rate.remaining);
+      response.setHeader("X-RateLimit-Reset-key", resetSeconds);
+      if (!rate.allowed) {
+        response.setHeader("Retry-After", resetSeconds);
+        throw new HttpException(
+          "API key rate limit exceeded",
+          HttpStatus.TOO_MANY_REQUESTS
+        );
+      }
+    }
+
+    if (required) {
+      this.usageService.assertWithinQuota(apiKey);
+    }
+
+    const store = RequestContext.current();
+    if (store) {
+      store.apiKey = apiKey;
+    }
+    return true;
+  }
+
+  private extractKey(request: Request): string | undefined {
+    const header = request.header(API_KEY_HEADER);
+    if (header) {
+      return header;
+    }
+    const [scheme, token] = (request.header("authorization") ?? "").split(" ");
+    return scheme?.toLowerCase() === "bearer" && token ? token : undefined;
+  }
+}
@@ -0,0 +1,12 @@
+export * from "./auth.module";
+export * from "./constants/auth.constants";
+export * from "./controllers/account.controller";
+export * from "./decorators/admin-only.decorator";
+export * from "./decorators/current-api-key.decorator";
+export * from "./decorators/public.decorator";
+export * from "./decorators/require-scopes.decorator";
+export * from "./guards/api-key.guard";
+export * from "./interfaces/api-key.interface";
+export * from "./interfaces/usage.interface";
+export * from "./services/api-key.service";
+export * from "./services/usage.service";
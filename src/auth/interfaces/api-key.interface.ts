@@ -0,0 +1,39 @@
+import { QueuePriority, SanitizeMode } from "../../pdf/constants/pdf.constants";
+import { ApiKeyScope } from "../constants/auth.constants";
+
+export interface ApiKeyRateLimit {
+  limit: number;
+  ttl: number; // milliseconds
+}
+
+export interface ApiKeyQuota {
+  conversions?: number;
+  pages?: number;
+}
+
+/** A key as written in API_KEYS or the API_KEYS_FILE JSON array. */
+export interface ApiKeyDefinition {
+  id: string;
+  name?: string;
+  hash: string;
+  scopes?: ApiKeyScope[];
+  rateLimit?: Partial<ApiKeyRateLimit>;
+  quota?: ApiKeyQuota;
+  sanitize?: SanitizeMode;
+  javascript?: boolean;
+  priority?: QueuePriority;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  hash: string;
+  scopes: ApiKeyScope[];
+  rateLimit: ApiKeyRateLimit;
+  quota: ApiKeyQuota;
+  // Minimum sanitization for HTML sent with this key
+  sanitize?: SanitizeMode;
+  javascript?: boolean;
+  // Highest browser pool queue priority requests with this key get
+  priority: QueuePriority;
+}
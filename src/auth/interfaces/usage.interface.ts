@@ -0,0 +1,37 @@
+import { ApiKeyScope } from "../constants/auth.constants";
+
+export interface MonthlyUsage {
+  period: string; // YYYY-MM, UTC
+  conversions: number;
+  pages: number;
+}
+
+export interface RateLimitStatus {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+export interface UsageCounter {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface AccountUsageResponse {
+  key: {
+    id: string;
+    name: string;
+    scopes: ApiKeyScope[];
+  };
+  period: string;
+  resetsAt: string;
+  conversions: UsageCounter;
+  pages: UsageCounter;
+  rateLimit: {
+    limit: number;
+    ttlMs: number;
+    remaining: number;
+  };
+}
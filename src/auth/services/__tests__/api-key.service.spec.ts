@@ -0,0 +1,112 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigService } from "../../../config";
+import { ApiKeyService } from "../api-key.service";
+
+describe("ApiKeyService", () => {
+  const createService = async (config: Partial<ConfigService> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeyService,
+        {
+          provide: ConfigService,
+          useValue: {
+            apiKeyRateLimit: 60,
+            apiKeyRateTtl: 60000,
+            ...config,
+          },
+        },
+      ],
+    }).compile();
+
+    const service = module.get<ApiKeyService>(ApiKeyService);
+    await service.onModuleInit();
+    return service;
+  };
+
+  it("should be disabled without configured keys", async () => {
+    const service = await createService();
+
+    expect(service.enabled).toBe(false);
+    expect(service.authenticate("anything")).toBeUndefined();
+  });
+
+  it("should authenticate keys by their SHA-256 hash", async () => {
+    const service = await createService({
+      apiKeys: JSON.stringify([
+        {
+          id: "acme",
+          hash: `sha256:${ApiKeyService.hash("secret-key")}`,
+          scopes: ["html"],
+          quota: { conversions: 100 },
+        },
+      ]),
+    });
+
+    expect(service.enabled).toBe(true);
+    expect(service.authenticate("secret-key")).toEqual({
+      id: "acme",
+      name: "acme",
+      hash: ApiKeyService.hash("secret-key"),
+      scopes: ["html"],
+      rateLimit: { limit: 60, ttl: 60000 },
+      quota: { conversions: 100 },
+      priority: "normal",
+    });
+    expect(service.authenticate("other-key")).toBeUndefined();
+  });
+
+  it("should load keys from a file and report missing scopes", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "api-keys-"));
+    const file = join(dir, "keys.json");
+    await writeFile(
+      file,
+      JSON.stringify([{ id: "reports", hash: ApiKeyService.hash("k1") }])
+    );
+
+    try {
+      const service = await createService({ apiKeysFile: file });
+      const apiKey = service.authenticate("k1");
+
+      expect(apiKey?.scopes).toEqual(["html", "url", "file", "image"]);
+      expect(
+        service.missingScopes({ ...apiKey!, scopes: ["html"] }, [
+          "url",
+          "html",
+          "url",
+        ])
+      ).toEqual(["url"]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it.each([
+    ["not json", "not valid JSON"],
+    [JSON.stringify({ id: "a" }), "must be a JSON array"],
+    [JSON.stringify([{ id: "a", hash: "plaintext" }]), "hex SHA-256 digest"],
+    [
+      JSON.stringify([
+        { id: "a", hash: ApiKeyService.hash("k"), scopes: ["pdf"] },
+      ]),
+      "unknown scope pdf",
+    ],
+    [
+      JSON.stringify([
+        { id: "a", hash: ApiKeyService.hash("k"), priority: "urgent" },
+      ]),
+      "unknown priority urgent",
+    ],
+    [
+      JSON.stringify([
+        { id: "a", hash: ApiKeyService.hash("k1") },
+        { id: "a", hash: ApiKeyService.hash("k2") },
+      ]),
+      "Duplicate API key a",
+    ],
+  ])("should refuse to start with invalid keys (%s)", async (json, message) => {
+    await expect(createService({ apiKeys: json })).rejects.toThrow(message);
+  });
+});
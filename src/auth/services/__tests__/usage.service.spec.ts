@@ -0,0 +1,128 @@
+import { HttpException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PDFDocument } from "pdf-lib";
+import { RequestContext } from "../../../common";
+import { ConfigService } from "../../../config";
+import { ApiKey } from "../../interfaces/api-key.interface";
+import { UsageService } from "../usage.service";
+
+describe("UsageService", () => {
+  let service: UsageService;
+
+  const apiKey: ApiKey = {
+    id: "acme",
+    name: "Acme",
+    hash: "0".repeat(64),
+    scopes: ["html", "url"],
+    rateLimit: { limit: 2, ttl: 1000 },
+    quota: { conversions: 2, pages: 5 },
+    priority: "normal",
+  };
+
+  const createPdf = async (pages: number) => {
+    const document = await PDFDocument.create();
+    for (let i = 0; i < pages; i++) {
+      document.addPage();
+    }
+    return Buffer.from(await document.save());
+  };
+
+  const recordAs = (key: ApiKey, document: Buffer, output: "pdf" | "image") =>
+    RequestContext.run({ requestId: "test", apiKey: key }, () =>
+      service.recordConversion(document, output)
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UsageService,
+        { provide: ConfigService, useValue: { apiUsageFile: undefined } },
+      ],
+    }).compile();
+
+    service = module.get<UsageService>(UsageService);
+  });
+
+  it("should limit requests per key within a window", () => {
+    expect(service.consumeRate(apiKey, 0)).toEqual({
+      allowed: true,
+      limit: 2,
+      remaining: 1,
+      resetAt: 1000,
+    });
+    expect(service.consumeRate(apiKey, 500).allowed).toBe(true);
+    expect(service.consumeRate(apiKey, 900)).toEqual(
+      expect.objectContaining({ allowed: false, remaining: 0 })
+    );
+    expect(service.consumeRate(apiKey, 1000).allowed).toBe(true);
+    expect(service.consumeRate({ ...apiKey, id: "other" }, 900).allowed).toBe(
+      true
+    );
+  });
+
+  it("should count conversions and PDF pages for the current key", async () => {
+    await recordAs(apiKey, await createPdf(3), "pdf");
+    await recordAs(apiKey, Buffer.from("png"), "image");
+    await service.recordConversion(await createPdf(1), "pdf");
+
+    expect(service.getUsage("acme")).toEqual(
+      expect.objectContaining({ conversions: 2, pages: 4 })
+    );
+    expect(service.describe(apiKey)).toEqual(
+      expect.objectContaining({
+        key: { id: "acme", name: "Acme", scopes: ["html", "url"] },
+        conversions: { used: 2, limit: 2, remaining: 0 },
+        pages: { used: 4, limit: 5, remaining: 1 },
+      })
+    );
+  });
+
+  it("should reject conversions once a monthly quota is used up", async () => {
+    expect(() => service.assertWithinQuota(apiKey)).not.toThrow();
+
+    await recordAs(apiKey, await createPdf(5), "pdf");
+
+    expect(() => service.assertWithinQuota(apiKey)).toThrow(
+      "Monthly quota of 5 pages exceeded"
+    );
+    expect(() => service.assertWithinQuota(apiKey)).toThrow(HttpException);
+    expect(() =>
+      service.assertWithinQuota({ ...apiKey, quota: {} })
+    ).not.toThrow();
+  });
+
+  it("should save usage recorded until the application shuts down", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "usage-"));
+    const apiUsageFile = join(dir, "usage.json");
+    try {
+      const module = await Test.createTestingModule({
+        providers: [
+          UsageService,
+          { provide: ConfigService, useValue: { apiUsageFile } },
+        ],
+      }).compile();
+      service = module.get<UsageService>(UsageService);
+
+      await recordAs(apiKey, await createPdf(2), "pdf");
+      await service.onApplicationShutdown();
+
+      const saved = JSON.parse(await readFile(apiUsageFile, "utf8"));
+      expect(saved.acme).toMatchObject({ conversions: 1, pages: 2 });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should start every calendar month from zero", async () => {
+    await recordAs(apiKey, Buffer.from("png"), "image");
+
+    expect(service.getUsage("acme", new Date("2999-01-15"))).toEqual({
+      period: "2999-01",
+      conversions: 0,
+      pages: 0,
+    });
+  });
+});
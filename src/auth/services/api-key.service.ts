@@ -0,0 +1,162 @@
+import { Injectable, Logger, OnModuleInit } from "@nestjs/common";
+import { createHash } from "crypto";
+import { readFile } from "fs/promises";
+import { ConfigService } from "../../config";
+import {
+  DEFAULT_QUEUE_PRIORITY,
+  QUEUE_PRIORITIES,
+  SANITIZE_MODES,
+} from "../../pdf/constants/pdf.constants";
+import {
+  API_KEY_HASH_PATTERN,
+  API_KEY_SCOPES,
+  ApiKeyScope,
+  DEFAULT_API_KEY_SCOPES,
+} from "../constants/auth.constants";
+import { ApiKey, ApiKeyDefinition } from "../interfaces/api-key.interface";
+
+/**
+ * Holds the configured API keys. Keys are only ever stored as SHA-256
+ * hashes; a presented key is hashed and looked up. Authentication is
+ * enabled as soon as at least one key is configured.
+ */
+@Injectable()
+export class ApiKeyService implements OnModuleInit {
+  private readonly logger = new Logger(ApiKeyService.name);
+  private readonly keys = new Map<string, ApiKey>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const file = this.configService.apiKeysFile;
+    if (file) {
+      this.addKeys(await readFile(file, "utf8"), file);
+    }
+    const env = this.configService.apiKeys;
+    if (env) {
+      this.addKeys(env, "API_KEYS");
+    }
+
+    if (this.enabled) {
+      this.logger.log(`Loaded ${this.keys.size} API key(s)`);
+    } else {
+      this.logger.warn(
+        "No API keys configured, the API is open to anyone who can reach it"
+      );
+    }
+  }
+
+  get enabled(): boolean {
+    return this.keys.size > 0;
+  }
+
+  static hash(rawKey: string): string {
+    return createHash("sha256").update(rawKey).digest("hex");
+  }
+
+  authenticate(rawKey: string): ApiKey | undefined {
+    return this.keys.get(ApiKeyService.hash(rawKey));
+  }
+
+  missingScopes(apiKey: ApiKey, scopes: ApiKeyScope[]): ApiKeyScope[] {
+    return [...new Set(scopes)].filter(
+      (scope) => !apiKey.scopes.includes(scope)
+    );
+  }
+
+  private addKeys(json: string, source: string): void {
+    let definitions: unknown;
+    try {
+      definitions = JSON.parse(json);
+    } catch (error) {
+      throw new Error(
+        `API keys in ${source} are not valid JSON: ${error.message}`
+      );
+    }
+    if (!Array.isArray(definitions)) {
+      throw new Error(`API keys in ${source} must be a JSON array`);
+    }
+
+    const ids = new Set([...this.keys.values()].map((key) => key.id));
+    for (const definition of definitions) {
+      const key = this.normalize(definition, source);
+      if (ids.has(key.id) || this.keys.has(key.hash)) {
+        throw new Error(`Duplicate API key ${key.id} in ${source}`);
+      }
+      ids.add(key.id);
+      this.keys.set(key.hash, key);
+    }
+  }
+
+  private normalize(definition: ApiKeyDefinition, source: string): ApiKey {
+    const id = definition?.id;
+    if (typeof id !== "string" || !id.trim()) {
+      throw new Error(`Every API key in ${source} needs an id`);
+    }
+    const invalid = (reason: string) =>
+      new Error(`Invalid API key ${id} in ${source}: ${reason}`);
+
+    const hash = API_KEY_HASH_PATTERN.exec(definition.hash ?? "")?.[1];
+    if (!hash) {
+      throw invalid("hash must be a hex SHA-256 digest of the key");
+    }
+
+    const scopes = definition.scopes ?? [...DEFAULT_API_KEY_SCOPES];
+    const unknownScope = scopes.find(
+      (scope) => !API_KEY_SCOPES.includes(scope)
+    );
+    if (unknownScope !== undefined) {
+      throw invalid(`unknown scope ${unknownScope}`);
+    }
+
+    const rateLimit = {
+      limit: definition.rateLimit?.limit ?? this.configService.apiKeyRateLimit,
+      ttl: definition.rateLimit?.ttl ?? this.configService.apiKeyRateTtl,
+    };
+    const quota = definition.quota ?? {};
+    const limits = [
+      rateLimit.limit,
+      rateLimit.ttl,
+      quota.conversions,
+      quota.pages,
+    ];
+    if (
+      limits.some(
+        (value) =>
+          value !== undefined && (!Number.isInteger(value) || value < 0)
+      )
+    ) {
+      throw invalid("limits and quotas must be non-negative integers");
+    }
+    if (
+      definition.sanitize !== undefined &&
+      !SANITIZE_MODES.includes(definition.sanitize)
+    ) {
+      throw invalid(`unknown sanitize mode ${definition.sanitize}`);
+    }
+    if (
+      definition.javascript !== undefined &&
+      typeof definition.javascript !== "boolean"
+    ) {
+      throw invalid("javascript must be true or false");
+    }
+    if (
+      definition.priority !== undefined &&
+      !QUEUE_PRIORITIES.includes(definition.priority)
+    ) {
+      throw invalid(`unknown priority ${definition.priority}`);
+    }
+
+    return {
+      id,
+      name: definition.name ?? id,
+      hash: hash.toLowerCase(),
+      scopes,
+      rateLimit,
+      quota,
+      sanitize: definition.sanitize,
+      javascript: definition.javascript,
+      priority: definition.priority ?? DEFAULT_QUEUE_PRIORITY,
+    };
+  }
+}
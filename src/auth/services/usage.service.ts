@@ -0,0 +1,213 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from "@nestjs/common";
+import { readFile, writeFile } from "fs/promises";
+import { PDFDocument } from "pdf-lib";
+import { RequestContext } from "../../common/context/request-context";
+import { ConfigService } from "../../config";
+import { USAGE_SAVE_DELAY } from "../constants/auth.constants";
+import { ApiKey } from "../interfaces/api-key.interface";
+import {
+  AccountUsageResponse,
+  MonthlyUsage,
+  RateLimitStatus,
+  UsageCounter,
+} from "../interfaces/usage.interface";
+
+/**
+ * Tracks per-key request rates and monthly conversion and page counts.
+ * Monthly usage is kept in memory and, when API_USAGE_FILE is set, written
+ * to disk so quotas survive restarts.
+ */
+@Injectable()
+export class UsageService implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(UsageService.name);
+  private readonly usage = new Map<string, MonthlyUsage>();
+  private readonly windows = new Map<
+    string,
+    { count: number; resetAt: number }
+  >();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const file = this.configService.apiUsageFile;
+    if (!file) {
+      return;
+    }
+
+    try {
+      const saved: Record<string, MonthlyUsage> = JSON.parse(
+        await readFile(file, "utf8")
+      );
+      for (const [keyId, usage] of Object.entries(saved)) {
+        this.usage.set(keyId, usage);
+      }
+      this.logger.log(`Loaded API key usage from ${file}`);
+    } catch (error) {
+      if (error.code !== "ENOENT") {
+        throw new Error(
+          `Failed to read API key usage from ${file}: ${error.message}`
+        );
+      }
+    }
+  }
+
+  // Runs after the browser pool has drained, so conversions finishing
+  // during the shutdown grace period are saved as well
+  async onApplicationShutdown(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  /** Counts a request against the key's fixed rate limit window. */
+  consumeRate(apiKey: ApiKey, now = Date.now()): RateLimitStatus {
+    const { limit, ttl } = apiKey.rateLimit;
+    let window = this.windows.get(apiKey.id);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + ttl };
+      this.windows.set(apiKey.id, window);
+    }
+
+    // A limit of 0 turns rate limiting off for the key
+    const allowed = limit === 0 || window.count < limit;
+    if (allowed) {
+      window.count++;
+    }
+    return {
+      allowed,
+      limit,
+      remaining: limit === 0 ? 0 : Math.max(limit - window.count, 0),
+      resetAt: window.resetAt,
+    };
+  }
+
+  getUsage(keyId: string, now = new Date()): MonthlyUsage {
+    const period = this.period(now);
+    const usage = this.usage.get(keyId);
+    if (usage?.period === period) {
+      return usage;
+    }
+    return { period, conversions: 0, pages: 0 };
+  }
+
+  /** Throws 429 once the key has used up either of its monthly quotas. */
+  assertWithinQuota(apiKey: ApiKey): void {
+    const usage = this.getUsage(apiKey.id);
+    const { conversions, pages } = apiKey.quota;
+
+    if (conversions !== undefined && usage.conversions >= conversions) {
+      throw new HttpException(
+        `Monthly quota of ${conversions} conversions exceeded`,
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+    if (pages !== undefined && usage.pages >= pages) {
+      throw new HttpException(
+        `Monthly quota of ${pages} pages exceeded`,
+        HttpStatus.TOO_MANY_REQUESTS
+      );
+    }
+  }
+
+  /**
+   * Adds a finished conversion to the usage of the key the current request
+   * authenticated with. PDFs count their pages, images count as one page.
+   */
+  async recordConversion(
+    document: Buffer,
+    output: "pdf" | "image"
+  ): Promise<void> {
+    const apiKey = RequestContext.current()?.apiKey;
+    if (!apiKey) {
+      return;
+    }
+
+    const pages = output === "pdf" ? await this.countPages(document) : 1;
+    const usage = this.getUsage(apiKey.id);
+    this.usage.set(apiKey.id, {
+      period: usage.period,
+      conversions: usage.conversions + 1,
+      pages: usage.pages + pages,
+    });
+    this.scheduleSave();
+  }
+
+  describe(apiKey: ApiKey): AccountUsageResponse {
+    const now = new Date();
+    const usage = this.getUsage(apiKey.id, now);
+    const window = this.windows.get(apiKey.id);
+    const windowCount =
+      window && window.resetAt > now.getTime() ? window.count : 0;
+    const counter = (used: number, limit?: number): UsageCounter => ({
+      used,
+      limit: limit ?? null,
+      remaining: limit === undefined ? null : Math.max(limit - used, 0),
+    });
+
+    return {
+      key: { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes },
+      period: usage.period,
+      resetsAt: new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+      ).toISOString(),
+      conversions: counter(usage.conversions, apiKey.quota.conversions),
+      pages: counter(usage.pages, apiKey.quota.pages),
+      rateLimit: {
+        limit: apiKey.rateLimit.limit,
+        ttlMs: apiKey.rateLimit.ttl,
+        remaining: Math.max(apiKey.rateLimit.limit - windowCount, 0),
+      },
+    };
+  }
+
+  private period(date: Date): string {
+    return date.toISOString().slice(0, 7);
+  }
+
+  private async countPages(pdf: Buffer): Promise<number> {
+    try {
+      const document = await PDFDocument.load(pdf, { updateMetadata: false });
+      return document.getPageCount();
+    } catch (error) {
+      this.logger.warn(`Failed to count PDF pages for usage: ${error}`);
+      return 1;
+    }
+  }
+
+  // Batches writes, busy keys would otherwise rewrite the file per conversion
+  private scheduleSave(): void {
+    if (!this.configService.apiUsageFile || this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, USAGE_SAVE_DELAY);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    const file = this.configService.apiUsageFile;
+    if (!file) {
+      return;
+    }
+    try {
+      await writeFile(
+        file,
+        JSON.stringify(Object.fromEntries(this.usage), null, 2)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to save API key usage to ${file}: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { ApiKey } from "../../auth/interfaces/api-key.interface";
+import { QueuePriority } from "../../pdf/constants/pdf.constants";
+import { BlockedRequests } from "../../pdf/interfaces/resource-policy.interface";
+import { SanitizeReport } from "../../pdf/interfaces/sanitize.interface";
+
+export interface RequestContextStore {
+  requestId: string;
+  apiKey?: ApiKey;
+  // Set while an asynchronous job runs
+  jobId?: string;
+  // Queue priority asked for with X-Priority, capped by the key's tier
+  priority?: QueuePriority;
+  // Report of the last HTML conversion, returned as a header or job result
+  sanitizeReport?: SanitizeReport;
+  // Requests the resource policy blocked in the last conversion
+  blockedRequests?: BlockedRequests;
+}
+
+/**
+ * Per-request state that services deep in the render pipeline need without
+ * threading it through every call, such as the authenticated API key.
+ * Asynchronous jobs re-enter a context of their own when they run.
+ */
+export class RequestContext {
+  private static readonly storage =
+    new AsyncLocalStorage<RequestContextStore>();
+
+  static run<T>(store: RequestContextStore, callback: () => T): T {
+    return this.storage.run(store, callback);
+  }
+
+  static current(): RequestContextStore | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Runs the callback on a copy of the current store, so concurrent
+   * conversions of one request keep their results apart.
+   */
+  static fork<T>(callback: () => T): T {
+    const current = this.current();
+    return current ? this.run({ ...current }, callback) : callback();
+  }
+}
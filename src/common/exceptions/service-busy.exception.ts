@@ -0,0 +1,11 @@
+import { ServiceUnavailableException } from "@nestjs/common";
+
+/** 503 telling the client when to try again, sent as Retry-After. */
+export class ServiceBusyException extends ServiceUnavailableException {
+  constructor(
+    message: string,
+    public readonly retryAfter: number // seconds
+  ) {
+    super(message);
+  }
+}
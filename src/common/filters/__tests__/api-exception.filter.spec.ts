@@ -0,0 +1,134 @@
+import {
+  ArgumentsHost,
+  BadRequestException,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { PdfErrorCode } from "../../../pdf/errors/pdf-error-code";
+import { PdfError } from "../../../pdf/errors/pdf.error";
+import { RequestContext } from "../../context/request-context";
+import { ServiceBusyException } from "../../exceptions/service-busy.exception";
+import { ApiExceptionFilter } from "../api-exception.filter";
+
+describe("ApiExceptionFilter", () => {
+  const filter = new ApiExceptionFilter();
+
+  const send = (exception: unknown) => {
+    const response = {
+      headersSent: false,
+      getHeader: jest.fn().mockReturnValue("header-id"),
+      setHeader: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    const host = {
+      switchToHttp: () => ({ getResponse: () => response }),
+    } as unknown as ArgumentsHost;
+    RequestContext.run({ requestId: "request-1" }, () =>
+      filter.catch(exception, host)
+    );
+    return { response, body: response.json.mock.calls[0][0] };
+  };
+
+  it("should report the code, stage and URL of a PdfError", () => {
+    const pdfError = new PdfError("Navigation failed: HTTP 404 - Not Found", {
+      stage: "navigation",
+      url: "https://example.com/missing",
+      httpStatus: 404,
+    });
+
+    const { response, body } = send(pdfError.toHttpException());
+
+    expect(response.status).toHaveBeenCalledWith(502);
+    expect(body).toEqual({
+      statusCode: 502,
+      code: PdfErrorCode.UPSTREAM_HTTP_ERROR,
+      message: "Navigation failed: HTTP 404 - Not Found",
+      stage: "navigation",
+      url: "https://example.com/missing",
+      httpStatus: 404,
+      requestId: "request-1",
+    });
+  });
+
+  it.each([
+    ["net::ERR_NAME_NOT_RESOLVED", "navigation", 502, "DNS_RESOLUTION_FAILED"],
+    [
+      "Navigation timeout of 30000 ms exceeded",
+      "navigation",
+      504,
+      "NAVIGATION_TIMEOUT",
+    ],
+    [
+      "Waiting failed: 5000ms exceeded",
+      "pdf_generation",
+      504,
+      "RENDER_TIMEOUT",
+    ],
+    ["Protocol error: Target closed", "pdf_generation", 503, "BROWSER_CRASHED"],
+    ["Printing failed", "pdf_generation", 422, "RENDER_FAILED"],
+    [
+      "URL blocked by policy: private address",
+      "url_policy",
+      403,
+      "URL_BLOCKED",
+    ],
+  ])("should map %s at %s to %s", (message, stage, status, code) => {
+    const { body } = send(new PdfError(message, { stage }).toHttpException());
+
+    expect(body).toMatchObject({ statusCode: status, code, message, stage });
+  });
+
+  it("should derive a code from the status of other HTTP exceptions", () => {
+    const { body } = send(
+      new BadRequestException(["url must be a URL", "scale must be a number"])
+    );
+
+    expect(body).toEqual({
+      statusCode: 400,
+      code: PdfErrorCode.INVALID_REQUEST,
+      message: "url must be a URL; scale must be a number",
+      details: ["url must be a URL", "scale must be a number"],
+      requestId: "request-1",
+    });
+  });
+
+  it("should keep Retry-After on busy responses", () => {
+    const { response, body } = send(new ServiceBusyException("Queue full", 7));
+
+    expect(response.setHeader).toHaveBeenCalledWith("Retry-After", "7");
+    expect(body).toMatchObject({
+      statusCode: 503,
+      code: PdfErrorCode.SERVICE_UNAVAILABLE,
+    });
+  });
+
+  it("should return the result of a failing readiness probe unchanged", () => {
+    const result = {
+      status: "error",
+      info: { memory_rss: { status: "up" } },
+      error: {
+        browser_pool: { status: "down", message: "Browser pool is draining" },
+      },
+      details: {
+        memory_rss: { status: "up" },
+        browser_pool: { status: "down", message: "Browser pool is draining" },
+      },
+    };
+
+    const { response, body } = send(new ServiceUnavailableException(result));
+
+    expect(response.status).toHaveBeenCalledWith(503);
+    expect(body).toEqual(result);
+  });
+
+  it("should hide the message of unexpected errors", () => {
+    const { body } = send(new Error("secret stack detail"));
+
+    expect(body).toEqual({
+      statusCode: 500,
+      code: PdfErrorCode.INTERNAL_ERROR,
+      message: "Internal server error",
+      requestId: "request-1",
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+  ServiceUnavailableException,
+} from "@nestjs/common";
+import { Response } from "express";
+import { PdfErrorCode } from "../../pdf/errors/pdf-error-code";
+import { PdfError } from "../../pdf/errors/pdf.error";
+import { RequestContext } from "../context/request-context";
+import { ServiceBusyException } from "../exceptions/service-busy.exception";
+import { ApiErrorResponse } from "../interfaces/api-error-response.interface";
+
+/**
+ * Turns every exception into an ApiErrorResponse. Code, stage and URL come
+ * from the PdfError behind an exception when there is one, other HTTP
+ * exceptions get a code derived from their status and anything else is an
+ * internal error whose message is logged but not returned. Failed health
+ * checks keep the Terminus result, which probes and operators read.
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    if (this.isHealthCheckFailure(exception) && !response.headersSent) {
+      response.status(exception.getStatus()).json(exception.getResponse());
+      return;
+    }
+
+    const body = this.toResponse(exception);
+    // The context is gone when the middleware that creates it throws
+    body.requestId =
+      RequestContext.current()?.requestId ??
+      (response.getHeader("X-Request-Id") as string | undefined);
+
+    if (body.code === PdfErrorCode.INTERNAL_ERROR) {
+      this.logger.error(
+        `Request ${body.requestId} failed: ${exception}`,
+        exception instanceof Error ? exception.stack : undefined
+      );
+    }
+    if (response.headersSent) {
+      // A streamed response failed halfway, there is nothing left to send
+      response.end();
+      return;
+    }
+
+    if (exception instanceof ServiceBusyException) {
+      response.setHeader("Retry-After", String(exception.retryAfter));
+    }
+    response.status(body.statusCode).json(body);
+  }
+
+  // HealthCheckService throws a 503 carrying { status, info, error, details }
+  private isHealthCheckFailure(
+    exception: unknown
+  ): exception is ServiceUnavailableException {
+    if (!(exception instanceof ServiceUnavailableException)) {
+      return false;
+    }
+    const payload = exception.getResponse();
+    return (
+      typeof payload === "object" &&
+      ["error", "shutting_down"].includes(
+        (payload as { status?: unknown }).status as string
+      ) &&
+      "details" in payload
+    );
+  }
+
+  private toResponse(exception: unknown): ApiErrorResponse {
+    const pdfError = PdfError.unwrap(exception);
+    let body: ApiErrorResponse;
+    if (exception instanceof HttpException) {
+      body = {
+        statusCode: exception.getStatus(),
+        code: PdfError.codeOf(exception),
+        message: exception.message,
+      };
+      const payload = exception.getResponse();
+      const message =
+        typeof payload === "object"
+          ? (payload as { message?: unknown }).message
+          : undefined;
+      // ValidationPipe lists every failed constraint
+      if (Array.isArray(message)) {
+        body.message = message.join("; ");
+        body.details = message;
+      }
+    } else if (pdfError) {
+      body = {
+        statusCode: pdfError.status,
+        code: pdfError.code,
+        message: pdfError.message,
+      };
+    } else {
+      return {
+        statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+        code: PdfErrorCode.INTERNAL_ERROR,
+        message: "Internal server error",
+      };
+    }
+
+    if (pdfError) {
+      const { stage, url, httpStatus, waitCondition } = pdfError.context;
+      Object.assign(body, { stage, url, httpStatus, waitCondition });
+    }
+    return body;
+  }
+}
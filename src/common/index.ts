@@ -0,0 +1,5 @@
+export * from "./context/request-context";
+export * from "./exceptions/service-busy.exception";
+export * from "./filters/api-exception.filter";
+export * from "./interfaces/api-error-response.interface";
+export * from "./middleware/request-context.middleware";
@@ -0,0 +1,16 @@
+import { PdfErrorCode } from "../../pdf/errors/pdf-error-code";
+
+/** Body of every error response. */
+export interface ApiErrorResponse {
+  statusCode: number;
+  code: PdfErrorCode;
+  message: string;
+  // Every message when validation reports more than one problem
+  details?: string[];
+  stage?: string;
+  url?: string;
+  // Status returned by the target site of a URL conversion
+  httpStatus?: number;
+  waitCondition?: string;
+  requestId?: string;
+}
@@ -0,0 +1,36 @@
+import {
+  BadRequestException,
+  Injectable,
+  NestMiddleware,
+} from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import {
+  PRIORITY_HEADER,
+  QUEUE_PRIORITIES,
+  QueuePriority,
+} from "../../pdf/constants/pdf.constants";
+import { RequestContext } from "../context/request-context";
+
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction): void {
+    // Keep a caller-supplied ID so logs can be correlated across services
+    const incoming = req.header("x-request-id");
+    const requestId =
+      incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+    res.setHeader("X-Request-Id", requestId);
+
+    const priority = req.header(PRIORITY_HEADER)?.trim().toLowerCase();
+    if (priority && !QUEUE_PRIORITIES.includes(priority as QueuePriority)) {
+      throw new BadRequestException(
+        `${PRIORITY_HEADER} must be one of ${QUEUE_PRIORITIES.join(", ")}`
+      );
+    }
+
+    RequestContext.run(
+      { requestId, priority: priority as QueuePriority | undefined },
+      next
+    );
+  }
+}
@@ -4,6 +4,35 @@ export const DEFAULT_PUPPETEER_TIMEOUT = 30000; // 30 seconds
 export const DEFAULT_RATE_LIMIT_TTL = 60; // 1 minute
 export const DEFAULT_RATE_LIMIT_MAX = 10; // 10 requests per minute
 export const DEFAULT_MAX_CONCURRENT_JOBS = 5;
+export const DEFAULT_JOB_QUEUE_MAX_LENGTH = 100; // jobs waiting to run
+export const DEFAULT_MAX_BROWSERS = 3;
+export const DEFAULT_MAX_PAGES_PER_BROWSER = 8;
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+export const DEFAULT_PAGE_POOL_SIZE = 8;
+export const DEFAULT_PAGE_MAX_AGE = 300000; // 5 minutes
+export const DEFAULT_BROWSER_MAX_AGE = 600000; // 10 minutes
+export const DEFAULT_QUEUE_MAX_LENGTH = 100; // page requests waiting for a slot
+export const DEFAULT_QUEUE_TIMEOUT = 30000; // 30 seconds in the queue at most
+export const DEFAULT_HEALTH_HEAP_THRESHOLD = 157286400; // 150MB
+export const DEFAULT_HEALTH_RSS_THRESHOLD = 157286400; // 150MB
+export const DEFAULT_HEALTH_DISK_THRESHOLD = 0.9; // 90% of the disk used
+export const DEFAULT_HEALTH_MIN_HEALTHY_BROWSERS = 1;
+export const DEFAULT_HEALTH_RENDER_TIMEOUT = 5000; // 5 seconds
+export const DEFAULT_HEALTH_RENDER_INTERVAL = 30000; // reuse a result for 30 seconds
+export const DEFAULT_QUEUE_RETRY_AFTER = 5; // seconds, sent with 503 responses
+export const DEFAULT_SHUTDOWN_GRACE_PERIOD = 25000; // inside Kubernetes' default 30 seconds
+export const DEFAULT_JOB_RESULT_STORE = "memory";
+export const DEFAULT_JOB_RESULT_TTL = 3600000; // 1 hour
+export const DEFAULT_PDF_CACHE_STORE = "memory";
+export const DEFAULT_PDF_CACHE_TTL = 300000; // 5 minutes
+export const DEFAULT_PDF_CACHE_MAX_SIZE = 104857600; // 100MB of PDFs
+export const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 5;
+export const DEFAULT_WEBHOOK_INITIAL_DELAY = 1000; // 1 second, doubled per retry
+export const DEFAULT_WEBHOOK_TIMEOUT = 10000; // 10 seconds per attempt
+export const DEFAULT_API_KEY_RATE_LIMIT = 60; // requests per key and window
+export const DEFAULT_API_KEY_RATE_TTL = 60000; // 1 minute
+export const DEFAULT_PDF_LOCALE = "en-US";
+export const DEFAULT_RESOURCE_BLOCK_TYPES = "media"; // video and audio never print
 
 export const BASE_PUPPETEER_ARGS = [
   "--no-sandbox",
@@ -9,4 +9,24 @@ export interface Config {
   puppeteerArgs: string[];
   puppeteerExecPath?: string;
   maxConcurrentJobs: number;
+  jobQueueMaxLength: number;
+  maxBrowsers: number;
+  maxPagesPerBrowser: number;
+  maxConcurrentRequests: number;
+  pagePoolSize: number;
+  pageMaxAge: number;
+  browserMaxAge: number;
+  queueMaxLength: number;
+  queueTimeout: number;
+  queueRetryAfter: number;
+  shutdownGracePeriod: number;
+  jobResultStore: string;
+  jobResultDir: string;
+  jobResultTtl: number;
+  pdfCacheEnabled: boolean;
+  pdfCacheStore: string;
+  pdfCacheDir: string;
+  pdfCacheTtl: number;
+  pdfCacheMaxSize: number;
+  templatesDir: string;
 }
@@ -134,4 +134,82 @@ describe("ConfigService", () => {
       expect(service.maxConcurrentJobs).toBe(10);
     });
   });
+
+  describe("browser pool", () => {
+    it("should return default pool settings when not set", () => {
+      delete process.env.MAX_BROWSERS;
+      delete process.env.MAX_PAGES_PER_BROWSER;
+      delete process.env.MAX_CONCURRENT_REQUESTS;
+      delete process.env.PAGE_POOL_SIZE;
+      delete process.env.PAGE_MAX_AGE;
+      delete process.env.BROWSER_MAX_AGE;
+      expect(service.maxBrowsers).toBe(3);
+      expect(service.maxPagesPerBrowser).toBe(8);
+      expect(service.maxConcurrentRequests).toBe(10);
+      expect(service.pagePoolSize).toBe(8);
+      expect(service.pageMaxAge).toBe(300000); // 5 minutes
+      expect(service.browserMaxAge).toBe(600000); // 10 minutes
+    });
+
+    it("should return configured pool settings", () => {
+      process.env.MAX_BROWSERS = "2";
+      process.env.PAGE_MAX_AGE = "60000";
+      expect(service.maxBrowsers).toBe(2);
+      expect(service.pageMaxAge).toBe(60000);
+      delete process.env.MAX_BROWSERS;
+      delete process.env.PAGE_MAX_AGE;
+    });
+  });
+
+  describe("shutdownGracePeriod", () => {
+    it("should return default grace period when not set", () => {
+      delete process.env.SHUTDOWN_GRACE_PERIOD;
+      expect(service.shutdownGracePeriod).toBe(25000);
+    });
+
+    it("should return configured grace period", () => {
+      process.env.SHUTDOWN_GRACE_PERIOD = "5000";
+      expect(service.shutdownGracePeriod).toBe(5000);
+      delete process.env.SHUTDOWN_GRACE_PERIOD;
+    });
+  });
+
+  describe("resource policy", () => {
+    it("should block only media by default", () => {
+      delete process.env.RESOURCE_BLOCK_TYPES;
+      delete process.env.RESOURCE_BLOCK_URLS;
+      expect(service.resourceBlockTypes).toEqual(["media"]);
+      expect(service.resourceBlockUrls).toEqual([]);
+    });
+
+    it("should return configured rules", () => {
+      process.env.RESOURCE_BLOCK_TYPES = "";
+      process.env.RESOURCE_BLOCK_URLS = "doubleclick.net, *.hotjar.com";
+      expect(service.resourceBlockTypes).toEqual([]);
+      expect(service.resourceBlockUrls).toEqual([
+        "doubleclick.net",
+        "*.hotjar.com",
+      ]);
+      delete process.env.RESOURCE_BLOCK_TYPES;
+      delete process.env.RESOURCE_BLOCK_URLS;
+    });
+  });
+
+  describe("locale", () => {
+    it("should default to en-US in the server timezone", () => {
+      delete process.env.PDF_LOCALE;
+      delete process.env.PDF_TIMEZONE;
+      expect(service.pdfLocale).toBe("en-US");
+      expect(service.pdfTimezone).toBeUndefined();
+    });
+
+    it("should return the configured locale and timezone", () => {
+      process.env.PDF_LOCALE = "de-DE";
+      process.env.PDF_TIMEZONE = "Europe/Berlin";
+      expect(service.pdfLocale).toBe("de-DE");
+      expect(service.pdfTimezone).toBe("Europe/Berlin");
+      delete process.env.PDF_LOCALE;
+      delete process.env.PDF_TIMEZONE;
+    });
+  });
 });
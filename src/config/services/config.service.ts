@@ -1,13 +1,44 @@
 import { Injectable } from "@nestjs/common";
 import { config } from "dotenv";
+import { tmpdir } from "os";
+import { join } from "path";
 import {
   BASE_PUPPETEER_ARGS,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  DEFAULT_API_KEY_RATE_TTL,
+  DEFAULT_BROWSER_MAX_AGE,
+  DEFAULT_HEALTH_DISK_THRESHOLD,
+  DEFAULT_HEALTH_HEAP_THRESHOLD,
+  DEFAULT_HEALTH_MIN_HEALTHY_BROWSERS,
+  DEFAULT_HEALTH_RENDER_INTERVAL,
+  DEFAULT_HEALTH_RENDER_TIMEOUT,
+  DEFAULT_HEALTH_RSS_THRESHOLD,
+  DEFAULT_JOB_QUEUE_MAX_LENGTH,
+  DEFAULT_JOB_RESULT_STORE,
+  DEFAULT_JOB_RESULT_TTL,
+  DEFAULT_MAX_BROWSERS,
   DEFAULT_MAX_CONCURRENT_JOBS,
+  DEFAULT_MAX_CONCURRENT_REQUESTS,
   DEFAULT_MAX_FILE_SIZE,
+  DEFAULT_MAX_PAGES_PER_BROWSER,
+  DEFAULT_PAGE_MAX_AGE,
+  DEFAULT_PAGE_POOL_SIZE,
+  DEFAULT_PDF_CACHE_MAX_SIZE,
+  DEFAULT_PDF_CACHE_STORE,
+  DEFAULT_PDF_CACHE_TTL,
+  DEFAULT_PDF_LOCALE,
   DEFAULT_PORT,
   DEFAULT_PUPPETEER_TIMEOUT,
+  DEFAULT_QUEUE_MAX_LENGTH,
+  DEFAULT_QUEUE_RETRY_AFTER,
+  DEFAULT_QUEUE_TIMEOUT,
   DEFAULT_RATE_LIMIT_MAX,
   DEFAULT_RATE_LIMIT_TTL,
+  DEFAULT_RESOURCE_BLOCK_TYPES,
+  DEFAULT_SHUTDOWN_GRACE_PERIOD,
+  DEFAULT_WEBHOOK_INITIAL_DELAY,
+  DEFAULT_WEBHOOK_MAX_ATTEMPTS,
+  DEFAULT_WEBHOOK_TIMEOUT,
 } from "../constants/config.constants";
 import { Config } from "../interfaces/config.interface";
 
@@ -64,7 +95,7 @@ export class ConfigService implements Config {
   }
 
   get puppeteerExecPath(): string | undefined {
-    return process.env.PUPPETEER_EXEC_PATH;
+    return process.env.PUPPETEER_EXEC_PATH || process.env.CHROME_PATH;
   }
 
   get maxConcurrentJobs(): number {
@@ -74,7 +105,327 @@ export class ConfigService implements Config {
     );
   }
 
+  get jobQueueMaxLength(): number {
+    return parseInt(
+      process.env.JOB_QUEUE_MAX_LENGTH || String(DEFAULT_JOB_QUEUE_MAX_LENGTH),
+      10
+    );
+  }
+
+  // Browser pool sizing and lifetimes
+  get maxBrowsers(): number {
+    return parseInt(
+      process.env.MAX_BROWSERS || String(DEFAULT_MAX_BROWSERS),
+      10
+    );
+  }
+
+  get maxPagesPerBrowser(): number {
+    return parseInt(
+      process.env.MAX_PAGES_PER_BROWSER ||
+        String(DEFAULT_MAX_PAGES_PER_BROWSER),
+      10
+    );
+  }
+
+  get maxConcurrentRequests(): number {
+    return parseInt(
+      process.env.MAX_CONCURRENT_REQUESTS ||
+        String(DEFAULT_MAX_CONCURRENT_REQUESTS),
+      10
+    );
+  }
+
+  get pagePoolSize(): number {
+    return parseInt(
+      process.env.PAGE_POOL_SIZE || String(DEFAULT_PAGE_POOL_SIZE),
+      10
+    );
+  }
+
+  get pageMaxAge(): number {
+    return parseInt(
+      process.env.PAGE_MAX_AGE || String(DEFAULT_PAGE_MAX_AGE),
+      10
+    );
+  }
+
+  get browserMaxAge(): number {
+    return parseInt(
+      process.env.BROWSER_MAX_AGE || String(DEFAULT_BROWSER_MAX_AGE),
+      10
+    );
+  }
+
+  get queueMaxLength(): number {
+    return parseInt(
+      process.env.QUEUE_MAX_LENGTH || String(DEFAULT_QUEUE_MAX_LENGTH),
+      10
+    );
+  }
+
+  get queueTimeout(): number {
+    return parseInt(
+      process.env.QUEUE_TIMEOUT || String(DEFAULT_QUEUE_TIMEOUT),
+      10
+    );
+  }
+
+  get queueRetryAfter(): number {
+    return parseInt(
+      process.env.QUEUE_RETRY_AFTER || String(DEFAULT_QUEUE_RETRY_AFTER),
+      10
+    );
+  }
+
+  // How long in-flight and queued conversions may run on after SIGTERM
+  get shutdownGracePeriod(): number {
+    return parseInt(
+      process.env.SHUTDOWN_GRACE_PERIOD ||
+        String(DEFAULT_SHUTDOWN_GRACE_PERIOD),
+      10
+    );
+  }
+
+  // Health check thresholds for /health/live and /health/ready
+  get healthHeapThreshold(): number {
+    return parseInt(
+      process.env.HEALTH_HEAP_THRESHOLD ||
+        String(DEFAULT_HEALTH_HEAP_THRESHOLD),
+      10
+    );
+  }
+
+  get healthRssThreshold(): number {
+    return parseInt(
+      process.env.HEALTH_RSS_THRESHOLD || String(DEFAULT_HEALTH_RSS_THRESHOLD),
+      10
+    );
+  }
+
+  get healthDiskThreshold(): number {
+    return parseFloat(
+      process.env.HEALTH_DISK_THRESHOLD || String(DEFAULT_HEALTH_DISK_THRESHOLD)
+    );
+  }
+
+  get healthDiskPath(): string {
+    return process.env.HEALTH_DISK_PATH || "/";
+  }
+
+  get healthMinHealthyBrowsers(): number {
+    return parseInt(
+      process.env.HEALTH_MIN_HEALTHY_BROWSERS ||
+        String(DEFAULT_HEALTH_MIN_HEALTHY_BROWSERS),
+      10
+    );
+  }
+
+  get healthSyntheticRender(): boolean {
+    return process.env.HEALTH_SYNTHETIC_RENDER === "true";
+  }
+
+  get healthRenderTimeout(): number {
+    return parseInt(
+      process.env.HEALTH_RENDER_TIMEOUT ||
+        String(DEFAULT_HEALTH_RENDER_TIMEOUT),
+      10
+    );
+  }
+
+  get healthRenderInterval(): number {
+    return parseInt(
+      process.env.HEALTH_RENDER_INTERVAL ||
+        String(DEFAULT_HEALTH_RENDER_INTERVAL),
+      10
+    );
+  }
+
+  get jobResultStore(): string {
+    return process.env.JOB_RESULT_STORE || DEFAULT_JOB_RESULT_STORE;
+  }
+
+  get jobResultDir(): string {
+    return process.env.JOB_RESULT_DIR || join(tmpdir(), "html2pdf-results");
+  }
+
+  get jobResultTtl(): number {
+    return parseInt(
+      process.env.JOB_RESULT_TTL || String(DEFAULT_JOB_RESULT_TTL),
+      10
+    );
+  }
+
+  // Cache of rendered PDFs, keyed by input and options
+  get pdfCacheEnabled(): boolean {
+    return process.env.PDF_CACHE_ENABLED === "true";
+  }
+
+  get pdfCacheStore(): string {
+    return process.env.PDF_CACHE_STORE || DEFAULT_PDF_CACHE_STORE;
+  }
+
+  get pdfCacheDir(): string {
+    return process.env.PDF_CACHE_DIR || join(tmpdir(), "html2pdf-cache");
+  }
+
+  get pdfCacheTtl(): number {
+    return parseInt(
+      process.env.PDF_CACHE_TTL || String(DEFAULT_PDF_CACHE_TTL),
+      10
+    );
+  }
+
+  get pdfCacheMaxSize(): number {
+    return parseInt(
+      process.env.PDF_CACHE_MAX_SIZE || String(DEFAULT_PDF_CACHE_MAX_SIZE),
+      10
+    );
+  }
+
+  // URL policy (SSRF protection) for pages and their subresources
+  get urlPolicyEnabled(): boolean {
+    return process.env.URL_POLICY_ENABLED !== "false";
+  }
+
+  get urlBlockPrivateNetworks(): boolean {
+    return process.env.URL_BLOCK_PRIVATE_NETWORKS !== "false";
+  }
+
+  get urlAllowHosts(): string[] {
+    return this.parseList(process.env.URL_ALLOW_HOSTS);
+  }
+
+  get urlDenyHosts(): string[] {
+    return this.parseList(process.env.URL_DENY_HOSTS);
+  }
+
+  get urlAllowCidrs(): string[] {
+    return this.parseList(process.env.URL_ALLOW_CIDRS);
+  }
+
+  get urlDenyCidrs(): string[] {
+    return this.parseList(process.env.URL_DENY_CIDRS);
+  }
+
+  get urlAllowPorts(): number[] {
+    return this.parseList(process.env.URL_ALLOW_PORTS).map(Number);
+  }
+
+  get urlDenyPorts(): number[] {
+    return this.parseList(process.env.URL_DENY_PORTS).map(Number);
+  }
+
+  // Default resource policy, requests add rules of their own on top
+  get resourceAllowTypes(): string[] {
+    return this.parseList(process.env.RESOURCE_ALLOW_TYPES);
+  }
+
+  get resourceBlockTypes(): string[] {
+    return this.parseList(
+      process.env.RESOURCE_BLOCK_TYPES ?? DEFAULT_RESOURCE_BLOCK_TYPES
+    );
+  }
+
+  get resourceAllowUrls(): string[] {
+    return this.parseList(process.env.RESOURCE_ALLOW_URLS);
+  }
+
+  get resourceBlockUrls(): string[] {
+    return this.parseList(process.env.RESOURCE_BLOCK_URLS);
+  }
+
+  // HTML sanitization of untrusted input; modes off, scripts or strict
+  get htmlSanitizeMode(): string {
+    return process.env.HTML_SANITIZE_MODE || "off";
+  }
+
+  get htmlJavascriptEnabled(): boolean {
+    return process.env.HTML_JAVASCRIPT_ENABLED !== "false";
+  }
+
+  get htmlSanitizeAllowedTags(): string[] {
+    return this.parseList(process.env.HTML_SANITIZE_ALLOWED_TAGS);
+  }
+
+  get htmlSanitizeAllowedAttributes(): string[] {
+    return this.parseList(process.env.HTML_SANITIZE_ALLOWED_ATTRIBUTES);
+  }
+
+  get htmlSanitizeAllowedSchemes(): string[] {
+    return this.parseList(process.env.HTML_SANITIZE_ALLOWED_SCHEMES);
+  }
+
+  // API keys: a JSON array of key definitions with SHA-256 hashed keys
+  get apiKeys(): string | undefined {
+    return process.env.API_KEYS;
+  }
+
+  get apiKeysFile(): string | undefined {
+    return process.env.API_KEYS_FILE;
+  }
+
+  get apiKeyRateLimit(): number {
+    return parseInt(
+      process.env.API_KEY_RATE_LIMIT || String(DEFAULT_API_KEY_RATE_LIMIT),
+      10
+    );
+  }
+
+  get apiKeyRateTtl(): number {
+    return parseInt(
+      process.env.API_KEY_RATE_TTL || String(DEFAULT_API_KEY_RATE_TTL),
+      10
+    );
+  }
+
+  get apiUsageFile(): string | undefined {
+    return process.env.API_USAGE_FILE;
+  }
+
+  get templatesDir(): string {
+    return process.env.TEMPLATES_DIR || join(process.cwd(), "templates");
+  }
+
+  get fontsDir(): string {
+    return process.env.FONTS_DIR || join(process.cwd(), "fonts");
+  }
+
+  get publicBaseUrl(): string | undefined {
+    return process.env.PUBLIC_BASE_URL?.replace(/\/+$/, "");
+  }
+
+  get webhookSecret(): string | undefined {
+    return process.env.WEBHOOK_SECRET;
+  }
+
+  get webhookMaxAttempts(): number {
+    return parseInt(
+      process.env.WEBHOOK_MAX_ATTEMPTS || String(DEFAULT_WEBHOOK_MAX_ATTEMPTS),
+      10
+    );
+  }
+
+  get webhookInitialDelay(): number {
+    return parseInt(
+      process.env.WEBHOOK_INITIAL_DELAY ||
+        String(DEFAULT_WEBHOOK_INITIAL_DELAY),
+      10
+    );
+  }
+
+  get webhookTimeout(): number {
+    return parseInt(
+      process.env.WEBHOOK_TIMEOUT || String(DEFAULT_WEBHOOK_TIMEOUT),
+      10
+    );
+  }
+
   // PDF Watermark/Header/Footer Configuration
+  get pdfWatermarkEnabled(): boolean {
+    return process.env.PDF_WATERMARK_ENABLED === "true";
+  }
+
   get pdfWatermarkText(): string {
     return process.env.PDF_WATERMARK_TEXT || "Generated by HTML2PDF";
   }
@@ -94,4 +445,35 @@ export class ConfigService implements Config {
   get pdfWatermarkPosition(): string {
     return process.env.PDF_WATERMARK_POSITION || "bottom-right";
   }
+
+  get pdfWatermarkRotation(): number | undefined {
+    return process.env.PDF_WATERMARK_ROTATION
+      ? parseFloat(process.env.PDF_WATERMARK_ROTATION)
+      : undefined;
+  }
+
+  get pdfWatermarkPages(): string {
+    return process.env.PDF_WATERMARK_PAGES || "all";
+  }
+
+  get pdfHeaderFooterPreset(): string {
+    return process.env.PDF_HEADER_FOOTER_PRESET || "banner";
+  }
+
+  // Default locale and timezone of pages and header/footer dates; without a
+  // timezone pages use the server's
+  get pdfLocale(): string {
+    return process.env.PDF_LOCALE || DEFAULT_PDF_LOCALE;
+  }
+
+  get pdfTimezone(): string | undefined {
+    return process.env.PDF_TIMEZONE || undefined;
+  }
+
+  private parseList(value: string | undefined): string[] {
+    return (value ?? "")
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
 }
@@ -0,0 +1,58 @@
+export const FONT_FORMATS = ["truetype", "opentype", "woff2"] as const;
+
+export type FontFormat = (typeof FONT_FORMATS)[number];
+
+export const FONT_STYLES = ["normal", "italic"] as const;
+
+export type FontStyle = (typeof FONT_STYLES)[number];
+
+// Letters and digits of any script, so CJK and Arabic family names work
+export const FONT_FAMILY_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]{0,99}$/u;
+
+export const FONT_FILE_EXTENSIONS = [".ttf", ".otf", ".woff2"];
+
+export const MAX_FONT_SIZE = 30 * 1024 * 1024; // 30MB, CJK fonts are large
+
+export const MAX_REQUESTED_FONTS = 20;
+
+// Leading bytes of each supported format; OpenType fonts with TrueType
+// outlines carry the TrueType signature
+export const FONT_SIGNATURES: [FontFormat, Buffer][] = [
+  ["truetype", Buffer.from([0x00, 0x01, 0x00, 0x00])],
+  ["truetype", Buffer.from("true")],
+  ["opentype", Buffer.from("OTTO")],
+  ["woff2", Buffer.from("wOF2")],
+];
+
+export const FONT_CONTENT_TYPES: Record<FontFormat, string> = {
+  truetype: "font/ttf",
+  opentype: "font/otf",
+  woff2: "font/woff2",
+};
+
+// Weight names found in font file names, e.g. Inter-SemiBoldItalic.ttf
+export const FONT_WEIGHT_NAMES: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  regular: 400,
+  normal: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900,
+};
+
+export const DEFAULT_FONT_WEIGHT = 400;
+
+// Fonts are served to pages from a reserved TLD that never resolves, so only
+// the request interceptor can answer for it. HTTPS keeps them loadable from
+// HTTPS pages.
+export const FONT_ORIGIN = "https://fonts.invalid";
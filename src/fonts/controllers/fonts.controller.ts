@@ -0,0 +1,133 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  Put,
+  UploadedFile,
+  UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { extname } from "path";
+import { API_KEY_SECURITY_NAME, AdminOnly } from "../../auth";
+import {
+  FONT_FILE_EXTENSIONS,
+  FONT_STYLES,
+  MAX_FONT_SIZE,
+} from "../constants/font.constants";
+import { RegisterFontDto } from "../dto/register-font.dto";
+import { FontFamilySummary } from "../interfaces/font.interface";
+import { FontService } from "../services/font.service";
+
+@ApiTags("fonts")
+@ApiSecurity(API_KEY_SECURITY_NAME)
+@Controller("fonts")
+export class FontsController {
+  constructor(private readonly fontService: FontService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: "List installed fonts",
+    description:
+      "Families loaded from the fonts directory at startup and those uploaded through the API, with their weights and styles. Pages can use them by family name.",
+  })
+  @ApiResponse({ status: 200, description: "Installed font families" })
+  listFonts(): FontFamilySummary[] {
+    return this.fontService.list();
+  }
+
+  @Put(":family")
+  @AdminOnly()
+  @ApiOperation({
+    summary: "Upload a font file",
+    description:
+      "Registers a TTF, OTF or WOFF2 file as one weight and style of the family, replacing an earlier file for the same variant. Needs the admin scope, as fonts are shared by all API keys.",
+  })
+  @ApiConsumes("multipart/form-data")
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        file: {
+          type: "string",
+          format: "binary",
+          description: `Font file (.ttf, .otf or .woff2, max ${MAX_FONT_SIZE / 1024 / 1024}MB)`,
+        },
+        weight: { type: "integer", minimum: 1, maximum: 1000 },
+        style: { type: "string", enum: [...FONT_STYLES] },
+      },
+      required: ["file"],
+    },
+  })
+  @ApiResponse({ status: 200, description: "Font registered" })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid family name, or the file is missing or not a font",
+  })
+  @ApiResponse({
+    status: 403,
+    description: "API key lacks the admin scope, or no API keys are configured",
+  })
+  @UseInterceptors(
+    FileInterceptor("file", {
+      limits: { fileSize: MAX_FONT_SIZE },
+      fileFilter: (req, file, callback) => {
+        if (
+          !FONT_FILE_EXTENSIONS.includes(
+            extname(file.originalname).toLowerCase()
+          )
+        ) {
+          return callback(
+            new BadRequestException(
+              "Only .ttf, .otf and .woff2 font files are allowed"
+            ),
+            false
+          );
+        }
+        callback(null, true);
+      },
+    })
+  )
+  registerFont(
+    @Param("family") family: string,
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: RegisterFontDto
+  ): FontFamilySummary {
+    if (!file) {
+      throw new BadRequestException("A font file is required");
+    }
+    return this.fontService.register(family, file.buffer, file.originalname, {
+      weight: dto.weight,
+      style: dto.style,
+    });
+  }
+
+  @Delete(":family")
+  @AdminOnly()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Remove a font family with all its files" })
+  @ApiResponse({ status: 204, description: "Font family removed" })
+  @ApiResponse({
+    status: 403,
+    description: "API key lacks the admin scope, or no API keys are configured",
+  })
+  @ApiResponse({ status: 404, description: "Unknown font family" })
+  removeFont(@Param("family") family: string): void {
+    if (!this.fontService.remove(family)) {
+      throw new NotFoundException(`Font family ${family} not found`);
+    }
+  }
+}
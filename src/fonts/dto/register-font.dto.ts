@@ -0,0 +1,30 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsIn, IsInt, IsOptional, Max, Min } from "class-validator";
+import { toNumber } from "../../pdf/dto/form-field.transforms";
+import { FONT_STYLES, FontStyle } from "../constants/font.constants";
+
+export class RegisterFontDto {
+  @ApiPropertyOptional({
+    description:
+      "Weight the file provides, by default taken from a file name such as Inter-SemiBold.ttf, otherwise 400",
+    minimum: 1,
+    maximum: 1000,
+    example: 700,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  weight?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Style the file provides, by default taken from a file name such as Inter-BoldItalic.ttf, otherwise normal",
+    enum: FONT_STYLES,
+  })
+  @IsOptional()
+  @IsIn(FONT_STYLES)
+  style?: FontStyle;
+}
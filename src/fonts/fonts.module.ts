@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "../config";
+import { FontsController } from "./controllers/fonts.controller";
+import { FontService } from "./services/font.service";
+
+@Module({
+  imports: [ConfigModule],
+  controllers: [FontsController],
+  providers: [FontService],
+  exports: [FontService],
+})
+export class FontsModule {}
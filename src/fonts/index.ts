@@ -0,0 +1,6 @@
+export * from "./constants/font.constants";
+export * from "./controllers/fonts.controller";
+export * from "./dto/register-font.dto";
+export * from "./fonts.module";
+export * from "./interfaces/font.interface";
+export * from "./services/font.service";
@@ -0,0 +1,24 @@
+import { FontFormat, FontStyle } from "../constants/font.constants";
+
+export type FontSource = "directory" | "api";
+
+export interface FontVariant {
+  weight: number;
+  style: FontStyle;
+  format: FontFormat;
+  source: FontSource;
+  size: number;
+  updatedAt: string;
+}
+
+export interface FontFamilySummary {
+  family: string;
+  variants: FontVariant[];
+}
+
+export interface StoredFont extends FontVariant {
+  family: string;
+  // Directory fonts are read on demand, uploaded ones are kept in memory
+  path?: string;
+  data?: Buffer;
+}
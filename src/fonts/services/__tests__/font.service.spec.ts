@@ -0,0 +1,131 @@
+import { BadRequestException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigService } from "../../../config";
+import { PdfErrorCode } from "../../../pdf/errors/pdf-error-code";
+import { FontService } from "../font.service";
+
+// Only the signature matters to the service
+const ttf = Buffer.from([0x00, 0x01, 0x00, 0x00, 0x00, 0x10]);
+const woff2 = Buffer.from("wOF2\u0000\u0001");
+
+describe("FontService", () => {
+  let service: FontService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FontService,
+        {
+          provide: ConfigService,
+          useValue: { fontsDir: join(tmpdir(), "missing-fonts-dir") },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FontService>(FontService);
+  });
+
+  it("should load families and variants from the fonts directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "fonts-"));
+    try {
+      await mkdir(join(dir, "Corporate Sans"));
+      await writeFile(join(dir, "Corporate Sans", "Regular.ttf"), ttf);
+      await writeFile(join(dir, "Corporate Sans", "Bold Italic.ttf"), ttf);
+      await writeFile(join(dir, "Noto Sans JP-700.woff2"), woff2);
+      await writeFile(join(dir, "Amiri.ttf"), ttf);
+      await writeFile(join(dir, "broken.ttf"), "not a font");
+      await writeFile(join(dir, "README.md"), "# Fonts");
+
+      await service.loadDirectory(dir);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+
+    expect(
+      service
+        .list()
+        .map(({ family, variants }) => [
+          family,
+          variants.map(({ weight, style, format }) => [weight, style, format]),
+        ])
+    ).toEqual([
+      ["Amiri", [[400, "normal", "truetype"]]],
+      [
+        "Corporate Sans",
+        [
+          [400, "normal", "truetype"],
+          [700, "italic", "truetype"],
+        ],
+      ],
+      ["Noto Sans JP", [[700, "normal", "woff2"]]],
+    ]);
+  });
+
+  it("should register uploads with the variant of their file name", () => {
+    const summary = service.register("Inter", woff2, "Inter-SemiBold.woff2");
+    service.register("inter", ttf, "upload.ttf", { style: "italic" });
+
+    expect(summary.variants).toEqual([
+      expect.objectContaining({ weight: 600, style: "normal", source: "api" }),
+    ]);
+    expect(service.list()).toEqual([
+      {
+        family: "Inter",
+        variants: [
+          expect.objectContaining({ weight: 400, style: "italic" }),
+          expect.objectContaining({ weight: 600, style: "normal" }),
+        ],
+      },
+    ]);
+  });
+
+  it("should reject files that are not fonts and invalid family names", () => {
+    expect(() =>
+      service.register("Inter", Buffer.from("<html>"), "Inter.ttf")
+    ).toThrow(BadRequestException);
+    expect(() => service.register("Inter", woff2, "Inter.woff")).toThrow(
+      BadRequestException
+    );
+    expect(() => service.register("../etc", ttf, "font.ttf")).toThrow(
+      BadRequestException
+    );
+  });
+
+  it("should declare every font and serve it to pages", async () => {
+    service.register("Noto Sans JP", woff2, "NotoSansJP-Bold.woff2");
+    const url = "https://fonts.invalid/noto%20sans%20jp/700-normal";
+
+    expect(service.fontFaceCss()).toBe(
+      `@font-face { font-family: "Noto Sans JP"; src: url("${url}") format("woff2"); font-weight: 700; font-style: normal; font-display: block; }`
+    );
+
+    const request = { url: () => url, respond: jest.fn() };
+    expect(await service.respond(request as any)).toBe(true);
+    expect(request.respond).toHaveBeenCalledWith({
+      status: 200,
+      contentType: "font/woff2",
+      headers: { "Access-Control-Allow-Origin": "*" },
+      body: woff2,
+    });
+
+    const other = { url: () => "https://example.com/font.woff2" };
+    expect(await service.respond(other as any)).toBe(false);
+  });
+
+  it("should name every missing family", () => {
+    service.register("Inter", ttf, "Inter.ttf");
+
+    expect(() => service.assertInstalled(["inter"])).not.toThrow();
+    expect(() =>
+      service.assertInstalled(["Inter", "Corporate Sans", "Amiri"])
+    ).toThrow(
+      expect.objectContaining({
+        code: PdfErrorCode.FONT_NOT_FOUND,
+        message: "Font families not installed: Corporate Sans, Amiri",
+      })
+    );
+  });
+});
@@ -0,0 +1,313 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from "@nestjs/common";
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import { basename, extname, join } from "path";
+import { HTTPRequest } from "puppeteer";
+import { ConfigService } from "../../config";
+import { PdfErrorCode } from "../../pdf/errors/pdf-error-code";
+import { PdfError } from "../../pdf/errors/pdf.error";
+import {
+  DEFAULT_FONT_WEIGHT,
+  FONT_CONTENT_TYPES,
+  FONT_FAMILY_PATTERN,
+  FONT_FILE_EXTENSIONS,
+  FONT_ORIGIN,
+  FONT_SIGNATURES,
+  FONT_WEIGHT_NAMES,
+  FontFormat,
+  FontStyle,
+} from "../constants/font.constants";
+import {
+  FontFamilySummary,
+  FontSource,
+  FontVariant,
+  StoredFont,
+} from "../interfaces/font.interface";
+
+export interface FontVariantOptions {
+  weight?: number;
+  style?: FontStyle;
+}
+
+/**
+ * Fonts registered under family names, from the fonts directory at startup
+ * or uploaded through the API. Every page gets @font-face rules for them and
+ * the font files are served by request interception from FONT_ORIGIN.
+ */
+@Injectable()
+export class FontService implements OnModuleInit {
+  private readonly logger = new Logger(FontService.name);
+  // Keyed by the lower-cased family, as CSS matches family names
+  private readonly families = new Map<string, Map<string, StoredFont>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit() {
+    await this.loadDirectory(this.configService.fontsDir);
+  }
+
+  /**
+   * Registers the font files in the directory. Files in a subdirectory
+   * belong to the family the subdirectory is named after and their names
+   * give the variant, e.g. Corporate Sans/Bold Italic.ttf. Files at the top
+   * level are named Family-Variant.ext or just Family.ext.
+   */
+  async loadDirectory(dir: string): Promise<void> {
+    if (!existsSync(dir)) {
+      this.logger.debug(`Fonts directory ${dir} not found, skipping`);
+      return;
+    }
+
+    const files: [string, string, string][] = [];
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        const familyDir = join(dir, entry.name);
+        for (const file of await readdir(familyDir, { withFileTypes: true })) {
+          if (file.isFile()) {
+            const name = basename(file.name, extname(file.name));
+            files.push([join(familyDir, file.name), entry.name, name]);
+          }
+        }
+      } else if (entry.isFile()) {
+        const name = basename(entry.name, extname(entry.name));
+        const separator = name.lastIndexOf("-");
+        const suffix = separator > 0 ? name.slice(separator + 1) : "";
+        files.push(
+          suffix && this.parseVariant(suffix)
+            ? [join(dir, entry.name), name.slice(0, separator), suffix]
+            : [join(dir, entry.name), name, ""]
+        );
+      }
+    }
+
+    for (const [path, family, variant] of files) {
+      if (!FONT_FILE_EXTENSIONS.includes(extname(path).toLowerCase())) {
+        continue;
+      }
+      try {
+        const data = await readFile(path);
+        this.add(
+          family,
+          this.detectFormat(data, path),
+          this.parseVariant(variant) ?? {},
+          "directory",
+          data.length,
+          { path }
+        );
+      } catch (error: unknown) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.logger.warn(`Skipping font ${path}: ${errorMessage}`);
+      }
+    }
+
+    this.logger.log(
+      `Loaded ${this.count()} fonts in ${this.families.size} families from ${dir}`
+    );
+  }
+
+  list(): FontFamilySummary[] {
+    return [...this.families.values()]
+      .map((variants) => {
+        const fonts = [...variants.values()];
+        return {
+          family: fonts[0].family,
+          variants: fonts
+            .map((font) => this.summarize(font))
+            .sort(
+              (a, b) => a.weight - b.weight || a.style.localeCompare(b.style)
+            ),
+        };
+      })
+      .sort((a, b) => a.family.localeCompare(b.family));
+  }
+
+  /**
+   * Registers an uploaded font file. The weight and style default to what
+   * the file name says, e.g. Inter-BoldItalic.woff2, and then to regular.
+   */
+  register(
+    family: string,
+    data: Buffer,
+    fileName: string,
+    options: FontVariantOptions = {}
+  ): FontFamilySummary {
+    const name = basename(fileName, extname(fileName));
+    const suffix = name.slice(name.lastIndexOf("-") + 1);
+    const variant = { ...this.parseVariant(suffix), ...options };
+    this.add(
+      family,
+      this.detectFormat(data, fileName),
+      variant,
+      "api",
+      data.length,
+      { data }
+    );
+    return this.list().find(
+      (summary) => summary.family.toLowerCase() === family.toLowerCase()
+    ) as FontFamilySummary;
+  }
+
+  remove(family: string): boolean {
+    return this.families.delete(family.toLowerCase());
+  }
+
+  has(family: string): boolean {
+    return this.families.has(family.toLowerCase());
+  }
+
+  get empty(): boolean {
+    return this.families.size === 0;
+  }
+
+  /** Fails with FONT_NOT_FOUND naming every family that is not installed. */
+  assertInstalled(families: string[] = []): void {
+    const missing = families.filter((family) => !this.has(family));
+    if (missing.length > 0) {
+      throw new PdfError(
+        `Font ${missing.length === 1 ? "family" : "families"} not installed: ${missing.join(", ")}`,
+        { code: PdfErrorCode.FONT_NOT_FOUND, stage: "fonts" }
+      );
+    }
+  }
+
+  /** @font-face rules for every registered font. */
+  fontFaceCss(): string {
+    return [...this.families.values()]
+      .flatMap((variants) => [...variants.values()])
+      .map(
+        (font) =>
+          `@font-face { font-family: ${JSON.stringify(font.family)}; ` +
+          `src: url("${this.urlOf(font)}") format("${font.format}"); ` +
+          `font-weight: ${font.weight}; font-style: ${font.style}; ` +
+          `font-display: block; }`
+      )
+      .join("\n");
+  }
+
+  /** Answers requests for FONT_ORIGIN; returns false for any other URL. */
+  async respond(request: HTTPRequest): Promise<boolean> {
+    const url = new URL(request.url());
+    if (url.origin !== FONT_ORIGIN) {
+      return false;
+    }
+
+    const [family, variant] = url.pathname
+      .slice(1)
+      .split("/")
+      .map(decodeURIComponent);
+    const font = this.families.get(family)?.get(variant);
+    const body = font
+      ? (font.data ?? (await readFile(font.path as string).catch(() => null)))
+      : null;
+    if (!font || !body) {
+      await request.respond({
+        status: 404,
+        contentType: "text/plain",
+        headers: { "Access-Control-Allow-Origin": "*" },
+        body: "Not found",
+      });
+      return true;
+    }
+
+    await request.respond({
+      status: 200,
+      contentType: FONT_CONTENT_TYPES[font.format],
+      // Font loads are CORS requests, pages come from any origin
+      headers: { "Access-Control-Allow-Origin": "*" },
+      body,
+    });
+    return true;
+  }
+
+  private add(
+    family: string,
+    format: FontFormat,
+    { weight = DEFAULT_FONT_WEIGHT, style = "normal" }: FontVariantOptions,
+    source: FontSource,
+    size: number,
+    content: Pick<StoredFont, "path" | "data">
+  ): void {
+    if (!FONT_FAMILY_PATTERN.test(family)) {
+      throw new BadRequestException(
+        "Font family names may only contain letters, digits, spaces, dashes and underscores"
+      );
+    }
+
+    const key = family.toLowerCase();
+    const variants = this.families.get(key) ?? new Map<string, StoredFont>();
+    variants.set(`${weight}-${style}`, {
+      family: variants.values().next().value?.family ?? family,
+      weight,
+      style,
+      format,
+      source,
+      size,
+      updatedAt: new Date().toISOString(),
+      ...content,
+    });
+    this.families.set(key, variants);
+    this.logger.debug(
+      `Registered font ${family} ${weight} ${style} from ${source}`
+    );
+  }
+
+  private detectFormat(data: Buffer, fileName: string): FontFormat {
+    const match = FONT_SIGNATURES.find(([, signature]) =>
+      data.subarray(0, signature.length).equals(signature)
+    );
+    if (
+      !match ||
+      !FONT_FILE_EXTENSIONS.includes(extname(fileName).toLowerCase())
+    ) {
+      throw new BadRequestException(
+        `${basename(fileName)} is not a TTF, OTF or WOFF2 font`
+      );
+    }
+    return match[0];
+  }
+
+  // Reads a variant such as "Bold", "SemiBoldItalic" or "700 italic";
+  // returns undefined when the text is not a variant name
+  private parseVariant(text: string): FontVariantOptions | undefined {
+    const words = text.toLowerCase().replace(/[\s_-]/g, "");
+    const style: FontStyle = /italic|oblique/.test(words) ? "italic" : "normal";
+    const weight = words.replace(/italic|oblique/, "");
+    if (weight === "") {
+      return { weight: DEFAULT_FONT_WEIGHT, style };
+    }
+    if (/^[1-9]00$/.test(weight)) {
+      return { weight: Number(weight), style };
+    }
+    return weight in FONT_WEIGHT_NAMES
+      ? { weight: FONT_WEIGHT_NAMES[weight], style }
+      : undefined;
+  }
+
+  private urlOf(font: StoredFont): string {
+    return `${FONT_ORIGIN}/${encodeURIComponent(font.family.toLowerCase())}/${font.weight}-${font.style}`;
+  }
+
+  private count(): number {
+    return [...this.families.values()].reduce(
+      (total, variants) => total + variants.size,
+      0
+    );
+  }
+
+  private summarize({
+    weight,
+    style,
+    format,
+    source,
+    size,
+    updatedAt,
+  }: StoredFont): FontVariant {
+    return { weight, style, format, source, size, updatedAt };
+  }
+}
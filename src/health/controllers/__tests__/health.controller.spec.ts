@@ -1,9 +1,13 @@
+import { ExecutionContext } from "@nestjs/common";
 import {
   DiskHealthIndicator,
   HealthCheckService,
   MemoryHealthIndicator,
 } from "@nestjs/terminus";
 import { Test, TestingModule } from "@nestjs/testing";
+import { ThrottlerGuard, ThrottlerModule } from "@nestjs/throttler";
+import { ConfigService } from "../../../config";
+import { BrowserPoolHealthIndicator } from "../../indicators/browser-pool.health";
 import { HealthController } from "../health.controller";
 
 describe("HealthController", () => {
@@ -11,6 +15,7 @@ describe("HealthController", () => {
   let healthService: HealthCheckService;
   let memoryIndicator: MemoryHealthIndicator;
   let diskIndicator: DiskHealthIndicator;
+  let browserPoolIndicator: BrowserPoolHealthIndicator;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -35,6 +40,21 @@ describe("HealthController", () => {
             checkStorage: jest.fn(),
           },
         },
+        {
+          provide: BrowserPoolHealthIndicator,
+          useValue: {
+            isHealthy: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            healthHeapThreshold: 256 * 1024 * 1024,
+            healthRssThreshold: 512 * 1024 * 1024,
+            healthDiskThreshold: 0.8,
+            healthDiskPath: "/data",
+          },
+        },
       ],
     }).compile();
 
@@ -42,6 +62,9 @@ describe("HealthController", () => {
     healthService = module.get<HealthCheckService>(HealthCheckService);
     memoryIndicator = module.get<MemoryHealthIndicator>(MemoryHealthIndicator);
     diskIndicator = module.get<DiskHealthIndicator>(DiskHealthIndicator);
+    browserPoolIndicator = module.get<BrowserPoolHealthIndicator>(
+      BrowserPoolHealthIndicator
+    );
   });
 
   it("should be defined", () => {
@@ -75,4 +98,78 @@ describe("HealthController", () => {
       expect(result).toEqual(mockHealthCheck);
     });
   });
+
+  // Runs the indicator functions handed to HealthCheckService.check
+  const runChecks = () =>
+    jest
+      .spyOn(healthService, "check")
+      .mockImplementation(async (indicators) => {
+        await Promise.all(indicators.map((indicator) => indicator()));
+        return { status: "ok" } as any;
+      });
+
+  describe("live", () => {
+    it("should only check the heap against the configured threshold", async () => {
+      runChecks();
+
+      await controller.live();
+
+      expect(memoryIndicator.checkHeap).toHaveBeenCalledWith(
+        "memory_heap",
+        256 * 1024 * 1024
+      );
+      expect(browserPoolIndicator.isHealthy).not.toHaveBeenCalled();
+      expect(diskIndicator.checkStorage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("ready", () => {
+    it("should check the browser pool, RSS and disk", async () => {
+      runChecks();
+
+      await controller.ready();
+
+      expect(browserPoolIndicator.isHealthy).toHaveBeenCalledWith(
+        "browser_pool"
+      );
+      expect(memoryIndicator.checkRSS).toHaveBeenCalledWith(
+        "memory_rss",
+        512 * 1024 * 1024
+      );
+      expect(diskIndicator.checkStorage).toHaveBeenCalledWith("disk_health", {
+        thresholdPercent: 0.8,
+        path: "/data",
+      });
+      expect(memoryIndicator.checkHeap).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("throttling", () => {
+    it("should answer probes polling faster than the rate limit", async () => {
+      const module = await Test.createTestingModule({
+        imports: [ThrottlerModule.forRoot([{ ttl: 60000, limit: 2 }])],
+        providers: [ThrottlerGuard],
+      }).compile();
+      await module.init();
+      const guard = module.get(ThrottlerGuard);
+
+      for (const handler of [
+        HealthController.prototype.live,
+        HealthController.prototype.ready,
+      ]) {
+        for (let probe = 0; probe < 5; probe++) {
+          const context = {
+            getType: () => "http",
+            getClass: () => HealthController,
+            getHandler: () => handler,
+            switchToHttp: () => ({
+              getRequest: () => ({ ip: "10.0.0.1", headers: {} }),
+              getResponse: () => ({ header: jest.fn() }),
+            }),
+          } as unknown as ExecutionContext;
+          await expect(guard.canActivate(context)).resolves.toBe(true);
+        }
+      }
+    });
+  });
 });
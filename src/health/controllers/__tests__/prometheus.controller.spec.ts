@@ -1,14 +1,9 @@
+import { ExecutionContext } from "@nestjs/common";
 import { Test, TestingModule } from "@nestjs/testing";
-import { register } from "prom-client";
+import { ThrottlerGuard, ThrottlerModule } from "@nestjs/throttler";
 import { PrometheusService } from "../../services/prometheus.service";
 import { PrometheusController } from "../prometheus.controller";
 
-jest.mock("prom-client", () => ({
-  register: {
-    metrics: jest.fn(),
-  },
-}));
-
 describe("PrometheusController", () => {
   let controller: PrometheusController;
   let prometheusService: PrometheusService;
@@ -23,6 +18,7 @@ describe("PrometheusController", () => {
             startConversion: jest.fn(),
             endConversion: jest.fn(),
             recordError: jest.fn(),
+            getMetrics: jest.fn(),
           },
         },
       ],
@@ -37,14 +33,40 @@ describe("PrometheusController", () => {
   });
 
   describe("getMetrics", () => {
-    it("should return metrics from prom-client register", async () => {
+    it("should return metrics from the PrometheusService registry", async () => {
       const mockMetrics = "mock_metrics_data";
-      (register.metrics as jest.Mock).mockResolvedValue(mockMetrics);
+      (prometheusService.getMetrics as jest.Mock).mockResolvedValue(
+        mockMetrics
+      );
 
       const result = await controller.getMetrics();
 
-      expect(register.metrics).toHaveBeenCalled();
+      expect(prometheusService.getMetrics).toHaveBeenCalled();
       expect(result).toBe(mockMetrics);
     });
   });
+
+  describe("throttling", () => {
+    it("should answer scrapes polling faster than the rate limit", async () => {
+      const module = await Test.createTestingModule({
+        imports: [ThrottlerModule.forRoot([{ ttl: 60000, limit: 2 }])],
+        providers: [ThrottlerGuard],
+      }).compile();
+      await module.init();
+      const guard = module.get(ThrottlerGuard);
+
+      for (let scrape = 0; scrape < 5; scrape++) {
+        const context = {
+          getType: () => "http",
+          getClass: () => PrometheusController,
+          getHandler: () => PrometheusController.prototype.getMetrics,
+          switchToHttp: () => ({
+            getRequest: () => ({ ip: "10.0.0.1", headers: {} }),
+            getResponse: () => ({ header: jest.fn() }),
+          }),
+        } as unknown as ExecutionContext;
+        await expect(guard.canActivate(context)).resolves.toBe(true);
+      }
+    });
+  });
 });
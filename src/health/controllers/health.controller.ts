@@ -1,30 +1,72 @@
 import { Controller, Get } from "@nestjs/common";
+import { SkipThrottle } from "@nestjs/throttler";
+import { Public } from "../../auth";
 import {
   DiskHealthIndicator,
   HealthCheck,
   HealthCheckService,
+  HealthIndicatorFunction,
   MemoryHealthIndicator,
 } from "@nestjs/terminus";
+import { ConfigService } from "../../config";
+import { BrowserPoolHealthIndicator } from "../indicators/browser-pool.health";
 
+// Probes poll on a fixed interval and must never be rate limited
+@Public()
+@SkipThrottle()
 @Controller("health")
 export class HealthController {
   constructor(
     private health: HealthCheckService,
     private memory: MemoryHealthIndicator,
-    private disk: DiskHealthIndicator
+    private disk: DiskHealthIndicator,
+    private browserPool: BrowserPoolHealthIndicator,
+    private configService: ConfigService
   ) {}
 
   @Get()
   @HealthCheck()
   check() {
-    return this.health.check([
-      () => this.memory.checkHeap("memory_heap", 150 * 1024 * 1024), // 150MB
-      () => this.memory.checkRSS("memory_rss", 150 * 1024 * 1024), // 150MB
+    return this.health.check([...this.liveness(), ...this.readiness()]);
+  }
+
+  /** Fails only when the process itself should be restarted. */
+  @Get("live")
+  @HealthCheck()
+  live() {
+    return this.health.check(this.liveness());
+  }
+
+  /** Fails while the instance cannot take conversions. */
+  @Get("ready")
+  @HealthCheck()
+  ready() {
+    return this.health.check(this.readiness());
+  }
+
+  private liveness(): HealthIndicatorFunction[] {
+    return [
+      () =>
+        this.memory.checkHeap(
+          "memory_heap",
+          this.configService.healthHeapThreshold
+        ),
+    ];
+  }
+
+  private readiness(): HealthIndicatorFunction[] {
+    return [
+      () => this.browserPool.isHealthy("browser_pool"),
+      () =>
+        this.memory.checkRSS(
+          "memory_rss",
+          this.configService.healthRssThreshold
+        ),
       () =>
         this.disk.checkStorage("disk_health", {
-          thresholdPercent: 0.9,
-          path: "/",
+          thresholdPercent: this.configService.healthDiskThreshold,
+          path: this.configService.healthDiskPath,
         }),
-    ]);
+    ];
   }
 }
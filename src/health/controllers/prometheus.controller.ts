@@ -1,13 +1,17 @@
 import { Controller, Get } from "@nestjs/common";
-import { register } from "prom-client";
+import { SkipThrottle } from "@nestjs/throttler";
+import { Public } from "../../auth";
 import { PrometheusService } from "../services/prometheus.service";
 
+// Scrapes poll on a fixed interval and must never be rate limited
+@Public()
+@SkipThrottle()
 @Controller("metrics")
 export class PrometheusController {
   constructor(private prometheusService: PrometheusService) {}
 
   @Get()
   async getMetrics(): Promise<string> {
-    return await register.metrics();
+    return await this.prometheusService.getMetrics();
   }
 }
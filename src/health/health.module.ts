@@ -1,13 +1,15 @@
-import { Module } from "@nestjs/common";
+import { Module, forwardRef } from "@nestjs/common";
 import { TerminusModule } from "@nestjs/terminus";
+import { PdfModule } from "../pdf/pdf.module";
 import { HealthController } from "./controllers/health.controller";
 import { PrometheusController } from "./controllers/prometheus.controller";
+import { BrowserPoolHealthIndicator } from "./indicators/browser-pool.health";
 import { PrometheusService } from "./services/prometheus.service";
 
 @Module({
-  imports: [TerminusModule],
+  imports: [TerminusModule, forwardRef(() => PdfModule)],
   controllers: [HealthController, PrometheusController],
-  providers: [PrometheusService],
+  providers: [PrometheusService, BrowserPoolHealthIndicator],
   exports: [PrometheusService],
 })
 export class HealthModule {}
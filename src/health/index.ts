@@ -1,4 +1,6 @@
 export * from "./controllers/health.controller";
 export * from "./controllers/prometheus.controller";
 export * from "./health.module";
+export * from "./indicators/browser-pool.health";
+export * from "./interfaces/browser-pool-metrics.interface";
 export * from "./services/prometheus.service";
@@ -0,0 +1,148 @@
+import { HealthIndicatorService } from "@nestjs/terminus";
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConfigService } from "../../../config";
+import { BrowserPoolService } from "../../../pdf/services/browser-pool.service";
+import { BrowserPoolHealthIndicator } from "../browser-pool.health";
+
+describe("BrowserPoolHealthIndicator", () => {
+  const page = {
+    setContent: jest.fn(),
+    pdf: jest.fn(),
+  };
+  let browserPoolService: {
+    getBrowserStatus: jest.Mock;
+    getPage: jest.Mock;
+    closePage: jest.Mock;
+  };
+
+  const createIndicator = async (config: Partial<ConfigService> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BrowserPoolHealthIndicator,
+        HealthIndicatorService,
+        { provide: BrowserPoolService, useValue: browserPoolService },
+        {
+          provide: ConfigService,
+          useValue: {
+            healthMinHealthyBrowsers: 1,
+            healthSyntheticRender: false,
+            healthRenderTimeout: 1000,
+            healthRenderInterval: 30000,
+            ...config,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get(BrowserPoolHealthIndicator);
+  };
+
+  beforeEach(() => {
+    page.setContent.mockReset().mockResolvedValue(undefined);
+    page.pdf.mockReset().mockResolvedValue(Buffer.from("%PDF"));
+    browserPoolService = {
+      getBrowserStatus: jest.fn().mockReturnValue({
+        browsersCount: 2,
+        healthyBrowsers: 2,
+        activeRequests: 0,
+        maxConcurrentRequests: 10,
+        queueSize: 0,
+        queueMaxLength: 100,
+      }),
+      getPage: jest.fn().mockResolvedValue(page),
+      closePage: jest.fn(),
+    };
+  });
+
+  it("should be up with enough healthy browsers", async () => {
+    const indicator = await createIndicator();
+
+    await expect(indicator.isHealthy("browser_pool")).resolves.toEqual({
+      browser_pool: {
+        status: "up",
+        browsers: 2,
+        healthyBrowsers: 2,
+        activeRequests: 0,
+        queueSize: 0,
+      },
+    });
+    expect(browserPoolService.getPage).not.toHaveBeenCalled();
+  });
+
+  it("should be down when too few browsers are healthy", async () => {
+    const indicator = await createIndicator({ healthMinHealthyBrowsers: 3 });
+
+    const result = await indicator.isHealthy("browser_pool");
+
+    expect(result.browser_pool).toMatchObject({
+      status: "down",
+      message: "2 healthy browsers, at least 3 required",
+    });
+  });
+
+  it("should be down while the pool is draining", async () => {
+    browserPoolService.getBrowserStatus.mockReturnValue({
+      browsersCount: 2,
+      healthyBrowsers: 2,
+      activeRequests: 1,
+      maxConcurrentRequests: 10,
+      queueSize: 0,
+      queueMaxLength: 100,
+      draining: true,
+    });
+    const indicator = await createIndicator();
+
+    const result = await indicator.isHealthy("browser_pool");
+
+    expect(result.browser_pool).toMatchObject({
+      status: "down",
+      message: "Browser pool is draining",
+    });
+  });
+
+  it("should be down while the request queue is full", async () => {
+    browserPoolService.getBrowserStatus.mockReturnValue({
+      browsersCount: 2,
+      healthyBrowsers: 2,
+      activeRequests: 10,
+      maxConcurrentRequests: 10,
+      queueSize: 100,
+      queueMaxLength: 100,
+    });
+    const indicator = await createIndicator();
+
+    const result = await indicator.isHealthy("browser_pool");
+
+    expect(result.browser_pool).toMatchObject({
+      status: "down",
+      message: "Request queue is full",
+    });
+  });
+
+  it("should render a PDF and reuse the result within the interval", async () => {
+    const indicator = await createIndicator({ healthSyntheticRender: true });
+
+    const first = await indicator.isHealthy("browser_pool");
+    await indicator.isHealthy("browser_pool");
+
+    expect(first.browser_pool).toMatchObject({
+      status: "up",
+      renderMs: expect.any(Number),
+    });
+    expect(page.pdf).toHaveBeenCalledTimes(1);
+    expect(browserPoolService.closePage).toHaveBeenCalledWith(page);
+  });
+
+  it("should be down when the synthetic render fails", async () => {
+    page.pdf.mockRejectedValue(new Error("Target closed"));
+    const indicator = await createIndicator({ healthSyntheticRender: true });
+
+    const result = await indicator.isHealthy("browser_pool");
+
+    expect(result.browser_pool).toMatchObject({
+      status: "down",
+      message: "Synthetic render failed: Target closed",
+    });
+    expect(browserPoolService.closePage).toHaveBeenCalledWith(page);
+  });
+});
@@ -0,0 +1,130 @@
+import { Inject, Injectable, Logger, forwardRef } from "@nestjs/common";
+import { HealthIndicatorService } from "@nestjs/terminus";
+import { ConfigService } from "../../config";
+import { BrowserPoolService } from "../../pdf/services/browser-pool.service";
+
+const SYNTHETIC_HTML =
+  "<!DOCTYPE html><html><body><p>health check</p></body></html>";
+
+interface RenderCheck {
+  checkedAt: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Reports whether the browser pool can take conversions: not draining,
+ * enough healthy browsers, room in the request queue and, when HEALTH_SYNTHETIC_RENDER is
+ * on, a tiny PDF rendered end to end. Render results are reused for
+ * HEALTH_RENDER_INTERVAL so frequent probes do not load the pool.
+ */
+@Injectable()
+export class BrowserPoolHealthIndicator {
+  private readonly logger = new Logger(BrowserPoolHealthIndicator.name);
+  private lastRender: RenderCheck | null = null;
+  private pendingRender: Promise<RenderCheck> | null = null;
+
+  constructor(
+    private readonly healthIndicatorService: HealthIndicatorService,
+    private readonly configService: ConfigService,
+    @Inject(forwardRef(() => BrowserPoolService))
+    private readonly browserPoolService: BrowserPoolService
+  ) {}
+
+  async isHealthy<const Key extends string>(key: Key) {
+    const indicator = this.healthIndicatorService.check(key);
+    const status = this.browserPoolService.getBrowserStatus();
+    const details = {
+      browsers: status.browsersCount,
+      healthyBrowsers: status.healthyBrowsers,
+      activeRequests: status.activeRequests,
+      queueSize: status.queueSize,
+    };
+
+    if (status.draining) {
+      return indicator.down({
+        ...details,
+        message: "Browser pool is draining",
+      });
+    }
+    const minHealthy = this.configService.healthMinHealthyBrowsers;
+    if (status.healthyBrowsers < minHealthy) {
+      return indicator.down({
+        ...details,
+        message: `${status.healthyBrowsers} healthy browsers, at least ${minHealthy} required`,
+      });
+    }
+    if (
+      status.activeRequests >= status.maxConcurrentRequests &&
+      status.queueSize >= status.queueMaxLength
+    ) {
+      return indicator.down({ ...details, message: "Request queue is full" });
+    }
+
+    if (!this.configService.healthSyntheticRender) {
+      return indicator.up(details);
+    }
+
+    const render = await this.checkRender();
+    if (render.error) {
+      return indicator.down({
+        ...details,
+        message: `Synthetic render failed: ${render.error}`,
+      });
+    }
+    return indicator.up({ ...details, renderMs: render.durationMs });
+  }
+
+  private async checkRender(): Promise<RenderCheck> {
+    const interval = this.configService.healthRenderInterval;
+    if (this.lastRender && Date.now() - this.lastRender.checkedAt < interval) {
+      return this.lastRender;
+    }
+
+    // Concurrent probes share one render
+    this.pendingRender ??= this.render().finally(() => {
+      this.pendingRender = null;
+    });
+    this.lastRender = await this.pendingRender;
+    return this.lastRender;
+  }
+
+  private async render(): Promise<RenderCheck> {
+    const startedAt = Date.now();
+    const timeout = this.configService.healthRenderTimeout;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      await Promise.race([
+        this.renderPdf(),
+        new Promise((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timed out after ${timeout} ms`)),
+            timeout
+          );
+        }),
+      ]);
+      return { checkedAt: Date.now(), durationMs: Date.now() - startedAt };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Synthetic render failed: ${message}`);
+      return {
+        checkedAt: Date.now(),
+        durationMs: Date.now() - startedAt,
+        error: message,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async renderPdf(): Promise<void> {
+    const page = await this.browserPoolService.getPage();
+    try {
+      await page.setContent(SYNTHETIC_HTML, { waitUntil: "load" });
+      await page.pdf({ format: "A4" });
+    } finally {
+      await this.browserPoolService.closePage(page);
+    }
+  }
+}
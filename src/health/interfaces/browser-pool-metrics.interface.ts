@@ -0,0 +1,10 @@
+/** Browser pool state read by the pool gauges on every scrape. */
+export interface BrowserPoolMetrics {
+  browsersCount: number;
+  healthyBrowsers: number;
+  totalActivePages: number;
+  pagePoolActive: number;
+  activeRequests: number;
+  queueSize: number;
+  queueWaitMs: number;
+}
@@ -1,4 +1,5 @@
 import { Test, TestingModule } from "@nestjs/testing";
+import { PdfErrorCode } from "../../../pdf/errors/pdf-error-code";
 import { PrometheusService } from "../prometheus.service";
 
 describe("PrometheusService", () => {
@@ -32,9 +33,12 @@ describe("PrometheusService", () => {
   });
 
   describe("recordError", () => {
-    it("should record error metrics", () => {
-      service.recordError("html", "test error");
-      // No error means success
+    it("should count errors by code", async () => {
+      service.recordError("url", PdfErrorCode.NAVIGATION_TIMEOUT);
+
+      expect(await service.getMetrics()).toContain(
+        'pdf_conversion_errors_total{type="url",code="NAVIGATION_TIMEOUT"} 1'
+      );
     });
   });
 
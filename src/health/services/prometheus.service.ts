@@ -6,6 +6,8 @@ import {
   Registry,
   collectDefaultMetrics,
 } from "prom-client";
+import { PdfErrorCode } from "../../pdf/errors/pdf-error-code";
+import { BrowserPoolMetrics } from "../interfaces/browser-pool-metrics.interface";
 
 @Injectable()
 export class PrometheusService implements OnModuleInit {
@@ -14,6 +16,12 @@ export class PrometheusService implements OnModuleInit {
   private readonly pdfConversionTotal: Counter;
   private readonly pdfConversionErrors: Counter;
   private readonly activeConversions: Gauge;
+  private readonly webhookDeliveryAttempts: Counter;
+  private readonly webhookDeliveries: Counter;
+  private readonly queueWaitDuration: Histogram;
+  private readonly queueRejections: Counter;
+  private readonly pdfCacheLookups: Counter;
+  private browserPoolSource: (() => BrowserPoolMetrics) | null = null;
 
   constructor() {
     this.registry = new Registry();
@@ -25,7 +33,7 @@ export class PrometheusService implements OnModuleInit {
     this.pdfConversionDuration = new Histogram({
       name: "pdf_conversion_duration_seconds",
       help: "Duration of PDF conversion in seconds",
-      labelNames: ["type"], // html, url
+      labelNames: ["type", "key"], // html, url, html_image, url_image; API key ID
       buckets: [0.1, 0.5, 1, 2, 5, 10, 20, 30, 60],
       registers: [this.registry],
     });
@@ -34,15 +42,15 @@ export class PrometheusService implements OnModuleInit {
     this.pdfConversionTotal = new Counter({
       name: "pdf_conversion_total",
       help: "Total number of PDF conversions",
-      labelNames: ["type", "status"],
+      labelNames: ["type", "status", "key"],
       registers: [this.registry],
     });
 
     // PDF conversion errors counter
     this.pdfConversionErrors = new Counter({
       name: "pdf_conversion_errors_total",
-      help: "Total number of PDF conversion errors",
-      labelNames: ["type", "error"],
+      help: "Total number of PDF conversion errors by error code",
+      labelNames: ["type", "code"],
       registers: [this.registry],
     });
 
@@ -52,6 +60,84 @@ export class PrometheusService implements OnModuleInit {
       help: "Number of active PDF conversions",
       registers: [this.registry],
     });
+
+    // Webhook delivery attempts counter (one per HTTP request sent)
+    this.webhookDeliveryAttempts = new Counter({
+      name: "webhook_delivery_attempts_total",
+      help: "Total number of webhook delivery attempts",
+      labelNames: ["result"], // success, http_error, network_error, blocked
+      registers: [this.registry],
+    });
+
+    // Webhook deliveries counter (final outcome after retries)
+    this.webhookDeliveries = new Counter({
+      name: "webhook_deliveries_total",
+      help: "Total number of webhook deliveries by final outcome",
+      labelNames: ["status"], // delivered, failed
+      registers: [this.registry],
+    });
+
+    // Time page requests spent waiting for a browser pool slot
+    this.queueWaitDuration = new Histogram({
+      name: "browser_pool_queue_wait_duration_seconds",
+      help: "Time page requests waited in the browser pool queue",
+      labelNames: ["priority"], // low, normal, high
+      buckets: [0, 0.1, 0.5, 1, 2, 5, 10, 20, 30, 60],
+      registers: [this.registry],
+    });
+
+    // Page requests turned away by the browser pool queue
+    this.queueRejections = new Counter({
+      name: "browser_pool_queue_rejections_total",
+      help: "Total number of page requests rejected by the browser pool queue",
+      labelNames: ["priority", "reason"], // full, shed, timeout
+      registers: [this.registry],
+    });
+
+    // PDF cache lookups by outcome
+    this.pdfCacheLookups = new Counter({
+      name: "pdf_cache_lookups_total",
+      help: "Total number of PDF cache lookups",
+      labelNames: ["result"], // hit, miss, bypass
+      registers: [this.registry],
+    });
+
+    // Browser pool gauges, read from the pool when metrics are scraped
+    this.createPoolGauge(
+      "browser_pool_browsers",
+      "Number of browser instances in the pool",
+      (status) => status.browsersCount
+    );
+    this.createPoolGauge(
+      "browser_pool_healthy_browsers",
+      "Number of healthy browser instances in the pool",
+      (status) => status.healthyBrowsers
+    );
+    this.createPoolGauge(
+      "browser_pool_active_pages",
+      "Number of open pages across all browsers",
+      (status) => status.totalActivePages
+    );
+    this.createPoolGauge(
+      "browser_pool_pooled_pages",
+      "Number of pages kept in the page pool",
+      (status) => status.pagePoolActive
+    );
+    this.createPoolGauge(
+      "browser_pool_active_requests",
+      "Number of page requests being served by the pool",
+      (status) => status.activeRequests
+    );
+    this.createPoolGauge(
+      "browser_pool_queue_depth",
+      "Number of page requests waiting for a free slot",
+      (status) => status.queueSize
+    );
+    this.createPoolGauge(
+      "browser_pool_queue_wait_seconds",
+      "How long the oldest queued page request has been waiting",
+      (status) => status.queueWaitMs / 1000
+    );
   }
 
   onModuleInit() {
@@ -59,18 +145,73 @@ export class PrometheusService implements OnModuleInit {
     this.activeConversions.set(0);
   }
 
-  startConversion(type: string) {
+  startConversion(type: string, key = "anonymous") {
     this.activeConversions.inc();
-    return this.pdfConversionDuration.startTimer({ type });
+    return this.pdfConversionDuration.startTimer({ type, key });
   }
 
-  endConversion(timer: () => number, status: "success" | "error") {
+  endConversion(
+    timer: () => number,
+    status: "success" | "error",
+    type = "total",
+    key = "anonymous"
+  ) {
     this.activeConversions.dec();
     timer();
-    this.pdfConversionTotal.inc({ type: "total", status });
+    this.pdfConversionTotal.inc({ type, status, key });
+  }
+
+  recordError(type: string, code: PdfErrorCode) {
+    this.pdfConversionErrors.inc({ type, code });
+  }
+
+  observeQueueWait(priority: string, seconds: number) {
+    this.queueWaitDuration.observe({ priority }, seconds);
+  }
+
+  recordQueueRejection(priority: string, reason: "full" | "shed" | "timeout") {
+    this.queueRejections.inc({ priority, reason });
+  }
+
+  recordCacheLookup(result: "hit" | "miss" | "bypass") {
+    this.pdfCacheLookups.inc({ result });
+  }
+
+  /** Lets the browser pool report its state for the pool gauges. */
+  registerBrowserPool(source: () => BrowserPoolMetrics) {
+    this.browserPoolSource = source;
   }
 
-  recordError(type: string, error: string) {
-    this.pdfConversionErrors.inc({ type, error });
+  getMetrics(): Promise<string> {
+    return this.registry.metrics();
+  }
+
+  recordWebhookAttempt(
+    result: "success" | "http_error" | "network_error" | "blocked"
+  ) {
+    this.webhookDeliveryAttempts.inc({ result });
+  }
+
+  recordWebhookDelivery(status: "delivered" | "failed") {
+    this.webhookDeliveries.inc({ status });
+  }
+
+  private createPoolGauge(
+    name: string,
+    help: string,
+    read: (status: BrowserPoolMetrics) => number
+  ): Gauge {
+    const gauge: Gauge = new Gauge({
+      name,
+      help,
+      registers: [this.registry],
+      collect: () => {
+        const status = this.browserPoolSource?.();
+        if (status) {
+          gauge.set(read(status));
+        }
+      },
+    });
+    return gauge;
   }
 }
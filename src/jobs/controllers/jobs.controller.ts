@@ -0,0 +1,163 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { Throttle, ThrottlerGuard } from "@nestjs/throttler";
+import { Request, Response } from "express";
+import {
+  API_KEY_SECURITY_NAME,
+  ApiKey,
+  ApiKeyScope,
+  CurrentApiKey,
+  RequireScopes,
+} from "../../auth";
+import { CreateJobDto } from "../dto/create-job.dto";
+import { JobStatusResponse } from "../interfaces/conversion-job.interface";
+import { JobQueueService } from "../services/job-queue.service";
+import { WebhookService } from "../services/webhook.service";
+
+const jobScopes = (request: Request): ApiKeyScope[] =>
+  request.body?.url !== undefined ? ["url"] : ["html"];
+
+@ApiTags("jobs")
+@ApiSecurity(API_KEY_SECURITY_NAME)
+@Controller("convert/jobs")
+@UseGuards(ThrottlerGuard)
+export class JobsController {
+  private readonly logger = new Logger(JobsController.name);
+
+  constructor(
+    private readonly jobQueueService: JobQueueService,
+    private readonly webhookService: WebhookService
+  ) {}
+
+  @Post()
+  @RequireScopes(jobScopes)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @Throttle({
+    short: { ttl: 1000, limit: 2 },
+    medium: { ttl: 60000, limit: 10 },
+  })
+  @ApiOperation({
+    summary: "Queue an asynchronous conversion",
+    description:
+      "Queue an HTML or URL conversion and return a job ID immediately. Poll the job status and download the PDF once it has succeeded, or pass a callbackUrl to be notified.",
+  })
+  @ApiResponse({
+    status: 202,
+    description: "Job queued",
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid input - neither or both of html and url are given",
+  })
+  @ApiResponse({
+    status: 403,
+    description: "callbackUrl blocked by the URL policy",
+  })
+  @ApiResponse({
+    status: 503,
+    description:
+      "The job queue is full or the server is draining, see Retry-After",
+  })
+  async createJob(
+    @Body() dto: CreateJobDto,
+    @Res({ passthrough: true }) res: Response
+  ): Promise<JobStatusResponse> {
+    if (dto.html !== undefined && dto.url !== undefined) {
+      throw new BadRequestException("Provide either html or url, not both");
+    }
+    if (dto.callbackUrl !== undefined) {
+      await this.webhookService.assertAllowed(dto.callbackUrl);
+    }
+
+    const job = this.jobQueueService.enqueue(dto);
+    this.logger.log(`Queued ${job.type} conversion job ${job.id}`);
+
+    res.location(this.jobQueueService.statusPath(job.id));
+    return this.jobQueueService.describe(job);
+  }
+
+  @Get(":id")
+  @ApiOperation({
+    summary: "Get the status of a conversion job",
+    description:
+      "Returns queued, running, succeeded or failed. Failed jobs include the error message and the stage it happened in.",
+  })
+  @ApiResponse({ status: 200, description: "Job status" })
+  @ApiResponse({ status: 404, description: "Unknown or expired job" })
+  getJob(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey: ApiKey | undefined
+  ): JobStatusResponse {
+    const job = this.jobQueueService.getJob(id, apiKey);
+    if (!job) {
+      throw new NotFoundException(`Job ${id} not found`);
+    }
+    return this.jobQueueService.describe(job);
+  }
+
+  @Get(":id/result")
+  @ApiOperation({
+    summary: "Download the PDF of a finished conversion job",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "PDF file",
+    content: {
+      "application/pdf": {
+        schema: {
+          type: "string",
+          format: "binary",
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: "Unknown or expired job" })
+  @ApiResponse({
+    status: 409,
+    description: "The job has not succeeded (yet)",
+  })
+  async getJobResult(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentApiKey() apiKey: ApiKey | undefined,
+    @Res() res: Response
+  ): Promise<void> {
+    const job = this.jobQueueService.getJob(id, apiKey);
+    if (!job) {
+      throw new NotFoundException(`Job ${id} not found`);
+    }
+    if (job.status !== "succeeded") {
+      throw new ConflictException(`Job ${id} is ${job.status}`);
+    }
+
+    const pdf = await this.jobQueueService.getResult(id);
+    if (!pdf) {
+      throw new NotFoundException(`Result of job ${id} is no longer available`);
+    }
+
+    res.set({
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename=${id}.pdf`,
+    });
+    res.send(pdf);
+  }
+}
@@ -0,0 +1,110 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { PdfOptionsDto } from "../../pdf/dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../../pdf/dto/sanitize-options.dto";
+
+export class CreateJobDto {
+  @ApiPropertyOptional({
+    description: "HTML content to convert. Provide either html or url.",
+    example: "<html><body><h1>Hello World</h1></body></html>",
+  })
+  @ValidateIf((dto: CreateJobDto) => dto.url === undefined)
+  @IsString()
+  @IsNotEmpty()
+  html?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "URL to convert. Provide either html or url. If protocol is not provided, https:// will be used.",
+    example: "https://www.example.com",
+  })
+  @ValidateIf((dto: CreateJobDto) => dto.html === undefined)
+  @IsString()
+  @IsUrl(
+    {
+      require_protocol: true,
+      require_valid_protocol: true,
+      protocols: ["http", "https"],
+    },
+    {
+      message: "Please provide a valid URL with http:// or https:// protocol",
+    }
+  )
+  @IsNotEmpty()
+  @Transform(({ value }) => {
+    if (
+      typeof value === "string" &&
+      !value.startsWith("http://") &&
+      !value.startsWith("https://")
+    ) {
+      return `https://${value}`;
+    }
+    return value;
+  })
+  url?: string;
+
+  @ApiPropertyOptional({
+    description: "PDF layout options",
+    type: PdfOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  options?: PdfOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Sanitization of the HTML and whether JavaScript runs. The report of what was removed is part of the job status.",
+    type: SanitizeOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SanitizeOptionsDto)
+  sanitize?: SanitizeOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "URL that receives a POST with the job result once the job has finished",
+    example: "https://hooks.example.com/pdf-ready",
+  })
+  @IsOptional()
+  @IsUrl(
+    {
+      require_protocol: true,
+      require_valid_protocol: true,
+      protocols: ["http", "https"],
+    },
+    {
+      message: "callbackUrl must be a valid URL with http:// or https://",
+    }
+  )
+  callbackUrl?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Secret used to sign the callback with HMAC-SHA256. Defaults to the server-wide webhook secret.",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(256)
+  callbackSecret?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Embed the PDF as base64 in the callback instead of only sending a download link",
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  callbackIncludePdf?: boolean;
+}
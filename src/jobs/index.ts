@@ -0,0 +1,9 @@
+export * from "./controllers/jobs.controller";
+export * from "./dto/create-job.dto";
+export * from "./interfaces/conversion-job.interface";
+export * from "./interfaces/result-store.interface";
+export * from "./jobs.module";
+export * from "./services/job-queue.service";
+export * from "./services/webhook.service";
+export * from "./stores/disk-result.store";
+export * from "./stores/memory-result.store";
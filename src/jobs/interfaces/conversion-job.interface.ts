@@ -0,0 +1,70 @@
+import { ApiKey } from "../../auth/interfaces/api-key.interface";
+import { QueuePriority } from "../../pdf/constants/pdf.constants";
+import { PdfOptionsDto } from "../../pdf/dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../../pdf/dto/sanitize-options.dto";
+import { PdfErrorDetails } from "../../pdf/interfaces/pdf-error.interface";
+import { SanitizeReport } from "../../pdf/interfaces/sanitize.interface";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export type JobType = "html" | "url";
+
+export type JobError = PdfErrorDetails;
+
+export type CallbackStatus = "pending" | "delivered" | "failed";
+
+export interface JobCallback {
+  url: string;
+  secret?: string;
+  includePdf: boolean;
+  status: CallbackStatus;
+  attempts: number;
+}
+
+export interface ConversionJob {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  input: string;
+  options?: PdfOptionsDto;
+  sanitize?: SanitizeOptionsDto;
+  sanitizeReport?: SanitizeReport;
+  createdAt: number;
+  startedAt?: number;
+  completedAt?: number;
+  byteSize?: number;
+  error?: JobError;
+  callback?: JobCallback;
+  apiKey?: ApiKey;
+  priority?: QueuePriority;
+}
+
+export interface JobStatusResponse {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+  byteSize?: number;
+  resultUrl?: string;
+  error?: JobError;
+  sanitizeReport?: SanitizeReport;
+  callback?: {
+    url: string;
+    status: CallbackStatus;
+    attempts: number;
+  };
+}
+
+export interface WebhookPayload {
+  event: "job.completed";
+  jobId: string;
+  status: JobStatus;
+  durationMs?: number;
+  byteSize?: number;
+  downloadUrl?: string;
+  pdfBase64?: string;
+  error?: JobError;
+}
@@ -0,0 +1,7 @@
+export const RESULT_STORE = Symbol("RESULT_STORE");
+
+export interface ResultStore {
+  save(jobId: string, pdf: Buffer): Promise<void>;
+  get(jobId: string): Promise<Buffer | null>;
+  delete(jobId: string): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule, ConfigService } from "../config";
+import { HealthModule } from "../health";
+import { PdfModule } from "../pdf";
+import { JobsController } from "./controllers/jobs.controller";
+import { RESULT_STORE } from "./interfaces/result-store.interface";
+import { JobQueueService } from "./services/job-queue.service";
+import { WebhookService } from "./services/webhook.service";
+import { DiskResultStore } from "./stores/disk-result.store";
+import { MemoryResultStore } from "./stores/memory-result.store";
+
+@Module({
+  imports: [ConfigModule, HealthModule, PdfModule],
+  controllers: [JobsController],
+  providers: [
+    JobQueueService,
+    WebhookService,
+    {
+      provide: RESULT_STORE,
+      useFactory: (configService: ConfigService) =>
+        configService.jobResultStore === "disk"
+          ? new DiskResultStore(configService.jobResultDir)
+          : new MemoryResultStore(),
+      inject: [ConfigService],
+    },
+  ],
+  exports: [JobQueueService],
+})
+export class JobsModule {}
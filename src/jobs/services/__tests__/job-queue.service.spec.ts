@@ -0,0 +1,229 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ApiKey } from "../../../auth";
+import { RequestContext, ServiceBusyException } from "../../../common";
+import { ConfigService } from "../../../config";
+import { PdfErrorCode } from "../../../pdf/errors/pdf-error-code";
+import { PdfError } from "../../../pdf/errors/pdf.error";
+import { BrowserPoolService } from "../../../pdf/services/browser-pool.service";
+import { PdfService } from "../../../pdf/services/pdf.service";
+import { RESULT_STORE } from "../../interfaces/result-store.interface";
+import { MemoryResultStore } from "../../stores/memory-result.store";
+import { JobQueueService } from "../job-queue.service";
+import { WebhookService } from "../webhook.service";
+
+describe("JobQueueService", () => {
+  let service: JobQueueService;
+  let pdfService: PdfService;
+  let webhookService: WebhookService;
+  let browserPoolService: {
+    assertAccepting: jest.Mock;
+    registerPendingWork: jest.Mock;
+  };
+
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JobQueueService,
+        {
+          provide: ConfigService,
+          useValue: {
+            maxConcurrentJobs: 1,
+            jobQueueMaxLength: 2,
+            queueRetryAfter: 5,
+            jobResultTtl: 3600000,
+          },
+        },
+        {
+          provide: PdfService,
+          useValue: {
+            convertHtmlToPdf: jest.fn(),
+            convertUrlToPdf: jest.fn(),
+          },
+        },
+        {
+          provide: WebhookService,
+          useValue: {
+            deliver: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        {
+          provide: BrowserPoolService,
+          useValue: {
+            assertAccepting: jest.fn(),
+            registerPendingWork: jest.fn(),
+          },
+        },
+        { provide: RESULT_STORE, useValue: new MemoryResultStore() },
+      ],
+    }).compile();
+
+    service = module.get<JobQueueService>(JobQueueService);
+    pdfService = module.get<PdfService>(PdfService);
+    webhookService = module.get<WebhookService>(WebhookService);
+    browserPoolService = module.get(BrowserPoolService);
+  });
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should run a queued HTML job and store its result", async () => {
+    const pdf = Buffer.from("mock pdf content");
+    jest.spyOn(pdfService, "convertHtmlToPdf").mockResolvedValue(pdf);
+
+    const job = service.enqueue({ html: "<h1>Test</h1>" });
+    expect(job.type).toBe("html");
+
+    await flush();
+
+    expect(service.getJob(job.id)?.status).toBe("succeeded");
+    expect(service.getJob(job.id)?.byteSize).toBe(pdf.length);
+    await expect(service.getResult(job.id)).resolves.toEqual(pdf);
+  });
+
+  it("should respect the concurrency limit", async () => {
+    let release: (pdf: Buffer) => void = () => undefined;
+    jest
+      .spyOn(pdfService, "convertUrlToPdf")
+      .mockImplementation(() => new Promise((resolve) => (release = resolve)));
+
+    const first = service.enqueue({ url: "https://example.com" });
+    const second = service.enqueue({ url: "https://example.org" });
+
+    expect(service.getJob(first.id)?.status).toBe("running");
+    expect(service.getJob(second.id)?.status).toBe("queued");
+
+    release(Buffer.from("pdf"));
+    await flush();
+
+    expect(service.getJob(first.id)?.status).toBe("succeeded");
+    expect(service.getJob(second.id)?.status).toBe("running");
+  });
+
+  it("should keep the PdfError context of failed jobs", async () => {
+    const pdfError = new PdfError("Navigation failed: HTTP 404 - Not Found", {
+      stage: "navigation",
+      url: "https://example.com/missing",
+      httpStatus: 404,
+    });
+    jest
+      .spyOn(pdfService, "convertUrlToPdf")
+      .mockRejectedValue(pdfError.toHttpException());
+
+    const job = service.enqueue({ url: "https://example.com/missing" });
+    await flush();
+
+    const status = service.describe(service.getJob(job.id)!);
+    expect(status.status).toBe("failed");
+    expect(status.error).toEqual(
+      expect.objectContaining({
+        code: PdfErrorCode.UPSTREAM_HTTP_ERROR,
+        stage: "navigation",
+        url: "https://example.com/missing",
+        httpStatus: 404,
+      })
+    );
+    expect(status.resultUrl).toBeUndefined();
+  });
+
+  it("should send a callback with the PDF once the job has finished", async () => {
+    const pdf = Buffer.from("mock pdf content");
+    jest.spyOn(pdfService, "convertHtmlToPdf").mockResolvedValue(pdf);
+
+    const job = service.enqueue({
+      html: "<h1>Test</h1>",
+      callbackUrl: "https://hooks.example.com/done",
+      callbackIncludePdf: true,
+    });
+    await flush();
+
+    expect(webhookService.deliver).toHaveBeenCalledWith(
+      expect.objectContaining({ url: "https://hooks.example.com/done" }),
+      expect.objectContaining({
+        event: "job.completed",
+        jobId: job.id,
+        status: "succeeded",
+        byteSize: pdf.length,
+        downloadUrl: `/api/v1/convert/jobs/${job.id}/result`,
+        pdfBase64: pdf.toString("base64"),
+      })
+    );
+  });
+
+  it("should run jobs as the creating API key and hide them from others", async () => {
+    const apiKey = { id: "acme" } as ApiKey;
+    let runningKey: string | undefined;
+    jest.spyOn(pdfService, "convertHtmlToPdf").mockImplementation(async () => {
+      runningKey = RequestContext.current()?.apiKey?.id;
+      return Buffer.from("mock pdf content");
+    });
+
+    const job = RequestContext.run({ requestId: "request", apiKey }, () =>
+      service.enqueue({ html: "<h1>Test</h1>" })
+    );
+    await flush();
+
+    expect(runningKey).toBe("acme");
+    expect(service.getJob(job.id, apiKey)).toBe(job);
+    expect(service.getJob(job.id, { id: "other" } as ApiKey)).toBeUndefined();
+    expect(service.getJob(job.id)).toBeUndefined();
+  });
+
+  it("should report queued jobs to the pool and refuse new ones while it drains", async () => {
+    let release: (pdf: Buffer) => void = () => undefined;
+    jest
+      .spyOn(pdfService, "convertUrlToPdf")
+      .mockImplementation(() => new Promise((resolve) => (release = resolve)));
+    service.onModuleInit();
+    const pendingWork: () => number =
+      browserPoolService.registerPendingWork.mock.calls[0][0];
+
+    service.enqueue({ url: "https://example.com" });
+    service.enqueue({ url: "https://example.org" });
+    expect(pendingWork()).toBe(2);
+
+    browserPoolService.assertAccepting.mockImplementation(() => {
+      throw new ServiceBusyException("The browser pool is draining", 5);
+    });
+    expect(() => service.enqueue({ html: "<h1>Test</h1>" })).toThrow(
+      ServiceBusyException
+    );
+
+    release(Buffer.from("first"));
+    await flush();
+    release(Buffer.from("second"));
+    await flush();
+    expect(pendingWork()).toBe(0);
+    service.onModuleDestroy();
+  });
+
+  it("should refuse new jobs while the queue is full", async () => {
+    const releases: ((pdf: Buffer) => void)[] = [];
+    jest
+      .spyOn(pdfService, "convertHtmlToPdf")
+      .mockImplementation(
+        () => new Promise((resolve) => releases.push(resolve))
+      );
+
+    // One job runs, two wait
+    for (let i = 0; i < 3; i++) {
+      service.enqueue({ html: `<h1>${i}</h1>` });
+    }
+    expect(() => service.enqueue({ html: "<h1>3</h1>" })).toThrow(
+      new ServiceBusyException("Too many jobs are queued, try again later", 5)
+    );
+
+    releases[0](Buffer.from("first"));
+    await flush();
+    expect(service.enqueue({ html: "<h1>3</h1>" }).status).toBe("queued");
+
+    // The remaining jobs run one after the other
+    for (let i = 1; i < 4; i++) {
+      releases[i](Buffer.from("pdf"));
+      await flush();
+    }
+    expect(releases).toHaveLength(4);
+  });
+});
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { createHmac } from "crypto";
+import { ConfigService } from "../../../config";
+import { PrometheusService } from "../../../health";
+import { PdfErrorCode } from "../../../pdf/errors/pdf-error-code";
+import { UrlPolicyService } from "../../../pdf/services/url-policy.service";
+import { JobCallback } from "../../interfaces/conversion-job.interface";
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookService,
+} from "../webhook.service";
+
+describe("WebhookService", () => {
+  let service: WebhookService;
+  let prometheusService: PrometheusService;
+  let urlPolicyService: { evaluate: jest.Mock };
+  let fetchMock: jest.SpyInstance;
+
+  const payload = {
+    event: "job.completed" as const,
+    jobId: "job-1",
+    status: "succeeded" as const,
+  };
+
+  const createCallback = (): JobCallback => ({
+    url: "https://hooks.example.com/done",
+    secret: "top-secret",
+    includePdf: false,
+    status: "pending",
+    attempts: 0,
+  });
+
+  beforeEach(async () => {
+    urlPolicyService = {
+      evaluate: jest.fn().mockResolvedValue({ allowed: true }),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookService,
+        {
+          provide: ConfigService,
+          useValue: {
+            webhookMaxAttempts: 3,
+            webhookInitialDelay: 1,
+            webhookTimeout: 1000,
+          },
+        },
+        {
+          provide: PrometheusService,
+          useValue: {
+            recordWebhookAttempt: jest.fn(),
+            recordWebhookDelivery: jest.fn(),
+          },
+        },
+        { provide: UrlPolicyService, useValue: urlPolicyService },
+      ],
+    }).compile();
+
+    service = module.get<WebhookService>(WebhookService);
+    prometheusService = module.get<PrometheusService>(PrometheusService);
+    fetchMock = jest.spyOn(global, "fetch");
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should sign the payload with HMAC-SHA256", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }));
+    const callback = createCallback();
+
+    await service.deliver(callback, payload);
+
+    const [, init] = fetchMock.mock.calls[0];
+    const timestamp = init.headers[WEBHOOK_TIMESTAMP_HEADER];
+    const expected = createHmac("sha256", "top-secret")
+      .update(`${timestamp}.${init.body}`)
+      .digest("hex");
+    expect(init.headers[WEBHOOK_SIGNATURE_HEADER]).toBe(`sha256=${expected}`);
+    expect(callback.status).toBe("delivered");
+    expect(prometheusService.recordWebhookDelivery).toHaveBeenCalledWith(
+      "delivered"
+    );
+  });
+
+  it("should retry failed deliveries and record every attempt", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new Error("ECONNRESET"))
+      .mockResolvedValueOnce(new Response(null, { status: 500 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }));
+    const callback = createCallback();
+
+    await service.deliver(callback, payload);
+
+    expect(callback.attempts).toBe(3);
+    expect(callback.status).toBe("delivered");
+    expect(prometheusService.recordWebhookAttempt).toHaveBeenNthCalledWith(
+      1,
+      "network_error"
+    );
+    expect(prometheusService.recordWebhookAttempt).toHaveBeenNthCalledWith(
+      2,
+      "http_error"
+    );
+    expect(prometheusService.recordWebhookAttempt).toHaveBeenNthCalledWith(
+      3,
+      "success"
+    );
+  });
+
+  it("should give up after the maximum number of attempts", async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 503 }));
+    const callback = createCallback();
+
+    await service.deliver(callback, payload);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(callback.status).toBe("failed");
+    expect(prometheusService.recordWebhookDelivery).toHaveBeenCalledWith(
+      "failed"
+    );
+  });
+
+  it("should reject callback URLs the URL policy blocks", async () => {
+    urlPolicyService.evaluate.mockResolvedValue({
+      allowed: false,
+      reason: "private, loopback and link-local addresses are not allowed",
+    });
+
+    await expect(
+      service.assertAllowed("http://169.254.169.254/latest/meta-data")
+    ).rejects.toMatchObject({
+      code: PdfErrorCode.URL_BLOCKED,
+      message:
+        "callbackUrl blocked by policy: private, loopback and link-local addresses are not allowed",
+    });
+  });
+
+  it("should not send to a callback URL blocked since the job was queued", async () => {
+    urlPolicyService.evaluate.mockResolvedValue({
+      allowed: false,
+      reason: "Host hooks.example.com is denied",
+    });
+    const callback = createCallback();
+
+    await service.deliver(callback, payload);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(callback.attempts).toBe(1);
+    expect(callback.status).toBe("failed");
+    expect(prometheusService.recordWebhookAttempt).toHaveBeenCalledWith(
+      "blocked"
+    );
+  });
+
+  it("should not follow redirects", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(null, {
+        status: 302,
+        headers: { Location: "http://10.0.0.1/" },
+      })
+    );
+
+    await service.deliver(createCallback(), payload);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    for (const [, init] of fetchMock.mock.calls) {
+      expect(init.redirect).toBe("manual");
+    }
+  });
+});
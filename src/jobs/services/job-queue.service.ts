@@ -0,0 +1,263 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from "@nestjs/common";
+import { randomUUID } from "crypto";
+import { ApiKey } from "../../auth";
+import { RequestContext, ServiceBusyException } from "../../common";
+import { ConfigService } from "../../config";
+import { PdfError } from "../../pdf/errors/pdf.error";
+import { BrowserPoolService } from "../../pdf/services/browser-pool.service";
+import { PdfService } from "../../pdf/services/pdf.service";
+import { CreateJobDto } from "../dto/create-job.dto";
+import {
+  ConversionJob,
+  JobStatusResponse,
+} from "../interfaces/conversion-job.interface";
+import {
+  RESULT_STORE,
+  ResultStore,
+} from "../interfaces/result-store.interface";
+import { WebhookService } from "./webhook.service";
+
+@Injectable()
+export class JobQueueService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobQueueService.name);
+  private readonly jobs = new Map<string, ConversionJob>();
+  private readonly queue: string[] = [];
+  private runningJobs = 0;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly pdfService: PdfService,
+    private readonly webhookService: WebhookService,
+    private readonly browserPoolService: BrowserPoolService,
+    @Inject(RESULT_STORE) private readonly resultStore: ResultStore
+  ) {}
+
+  onModuleInit() {
+    // A draining pool waits for queued jobs, not only for leased pages
+    this.browserPoolService.registerPendingWork(
+      () => this.queue.length + this.runningJobs
+    );
+
+    // Expire finished jobs and their results once a minute
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupExpiredJobs();
+    }, 60 * 1000);
+  }
+
+  onModuleDestroy() {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+  }
+
+  /**
+   * Queues a conversion job. Fails with a 503 while the browser pool drains
+   * or once JOB_QUEUE_MAX_LENGTH jobs are waiting to run.
+   */
+  enqueue(dto: CreateJobDto): ConversionJob {
+    this.browserPoolService.assertAccepting();
+    if (this.queue.length >= this.configService.jobQueueMaxLength) {
+      throw new ServiceBusyException(
+        "Too many jobs are queued, try again later",
+        this.configService.queueRetryAfter
+      );
+    }
+    const job: ConversionJob = {
+      id: randomUUID(),
+      type: dto.url !== undefined ? "url" : "html",
+      status: "queued",
+      input: dto.url ?? dto.html ?? "",
+      options: dto.options,
+      sanitize: dto.sanitize,
+      createdAt: Date.now(),
+      callback: dto.callbackUrl
+        ? {
+            url: dto.callbackUrl,
+            secret: dto.callbackSecret,
+            includePdf: dto.callbackIncludePdf ?? false,
+            status: "pending",
+            attempts: 0,
+          }
+        : undefined,
+      apiKey: RequestContext.current()?.apiKey,
+      priority: RequestContext.current()?.priority,
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push(job.id);
+    this.logger.debug(
+      `Job ${job.id} queued (queue size: ${this.queue.length})`
+    );
+
+    this.processQueue();
+    return job;
+  }
+
+  /** Looks up a job; with authentication on, only the creating key sees it. */
+  getJob(id: string, apiKey?: ApiKey): ConversionJob | undefined {
+    const job = this.jobs.get(id);
+    return job?.apiKey?.id === apiKey?.id ? job : undefined;
+  }
+
+  async getResult(id: string): Promise<Buffer | null> {
+    return this.resultStore.get(id);
+  }
+
+  statusPath(id: string): string {
+    return `/api/v1/convert/jobs/${id}`;
+  }
+
+  resultPath(id: string): string {
+    return `${this.statusPath(id)}/result`;
+  }
+
+  describe(job: ConversionJob): JobStatusResponse {
+    const toIso = (timestamp?: number) =>
+      timestamp ? new Date(timestamp).toISOString() : undefined;
+
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      createdAt: new Date(job.createdAt).toISOString(),
+      startedAt: toIso(job.startedAt),
+      completedAt: toIso(job.completedAt),
+      durationMs:
+        job.startedAt && job.completedAt
+          ? job.completedAt - job.startedAt
+          : undefined,
+      byteSize: job.byteSize,
+      resultUrl:
+        job.status === "succeeded" ? this.resultPath(job.id) : undefined,
+      error: job.error,
+      sanitizeReport: job.sanitizeReport,
+      callback: job.callback && {
+        url: job.callback.url,
+        status: job.callback.status,
+        attempts: job.callback.attempts,
+      },
+    };
+  }
+
+  private processQueue(): void {
+    while (
+      this.queue.length > 0 &&
+      this.runningJobs < this.configService.maxConcurrentJobs
+    ) {
+      const jobId = this.queue.shift();
+      const job = jobId ? this.jobs.get(jobId) : undefined;
+      if (job) {
+        this.runningJobs++;
+        // Jobs outlive their request; run them in a context of their own
+        RequestContext.run(
+          {
+            requestId: job.id,
+            jobId: job.id,
+            apiKey: job.apiKey,
+            priority: job.priority,
+          },
+          () => this.runJob(job)
+        )
+          .then(() => this.notify(job))
+          .catch((error) =>
+            this.logger.warn(`Failed to notify job ${job.id}: ${error}`)
+          )
+          .finally(() => {
+            this.runningJobs--;
+            this.processQueue();
+          });
+      }
+    }
+  }
+
+  private async runJob(job: ConversionJob): Promise<void> {
+    job.status = "running";
+    job.startedAt = Date.now();
+    this.logger.debug(`Job ${job.id} started`);
+
+    try {
+      const pdf =
+        job.type === "url"
+          ? await this.pdfService.convertUrlToPdf(job.input, job.options)
+          : await this.pdfService.convertHtmlToPdf(
+              job.input,
+              job.options,
+              job.sanitize
+            );
+
+      await this.resultStore.save(job.id, pdf);
+      job.byteSize = pdf.length;
+      job.status = "succeeded";
+      this.logger.debug(`Job ${job.id} succeeded (${pdf.length} bytes)`);
+    } catch (error: unknown) {
+      job.status = "failed";
+      job.error = PdfError.describe(error);
+      this.logger.warn(`Job ${job.id} failed: ${job.error.message}`);
+    } finally {
+      job.sanitizeReport = RequestContext.current()?.sanitizeReport;
+      job.completedAt = Date.now();
+      // The input can be large and is no longer needed
+      job.input = "";
+      job.options = undefined;
+      job.sanitize = undefined;
+    }
+  }
+
+  private async notify(job: ConversionJob): Promise<void> {
+    if (!job.callback) {
+      return;
+    }
+
+    const downloadPath = this.resultPath(job.id);
+    const baseUrl = this.configService.publicBaseUrl;
+    const pdf =
+      job.status === "succeeded" && job.callback.includePdf
+        ? await this.resultStore.get(job.id)
+        : null;
+
+    // Delivery runs in the background so retries do not hold a job slot
+    this.webhookService.deliver(job.callback, {
+      event: "job.completed",
+      jobId: job.id,
+      status: job.status,
+      durationMs:
+        job.startedAt && job.completedAt
+          ? job.completedAt - job.startedAt
+          : undefined,
+      byteSize: job.byteSize,
+      downloadUrl:
+        job.status === "succeeded"
+          ? baseUrl
+            ? `${baseUrl}${downloadPath}`
+            : downloadPath
+          : undefined,
+      pdfBase64: pdf ? pdf.toString("base64") : undefined,
+      error: job.error,
+    });
+  }
+
+  private async cleanupExpiredJobs(): Promise<void> {
+    const expiredBefore = Date.now() - this.configService.jobResultTtl;
+
+    for (const job of this.jobs.values()) {
+      if (job.completedAt && job.completedAt < expiredBefore) {
+        this.jobs.delete(job.id);
+        try {
+          await this.resultStore.delete(job.id);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to delete result of job ${job.id}: ${error}`
+          );
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { createHmac } from "crypto";
+import { ConfigService } from "../../config";
+import { PrometheusService } from "../../health";
+import { PdfError } from "../../pdf/errors/pdf.error";
+import { UrlPolicyService } from "../../pdf/services/url-policy.service";
+import { retryOperation } from "../../pdf/utils/retry.util";
+import {
+  JobCallback,
+  WebhookPayload,
+} from "../interfaces/conversion-job.interface";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prometheusService: PrometheusService,
+    private readonly urlPolicyService: UrlPolicyService
+  ) {}
+
+  /**
+   * Rejects callback URLs the URL policy blocks, so jobs cannot make the
+   * server POST to internal addresses.
+   */
+  async assertAllowed(url: string): Promise<void> {
+    const decision = await this.urlPolicyService.evaluate(url);
+    if (!decision.allowed) {
+      throw new PdfError(
+        `callbackUrl blocked by policy: ${decision.reason ?? "Blocked"}`,
+        { stage: "url_policy", url }
+      );
+    }
+  }
+
+  async deliver(callback: JobCallback, payload: WebhookPayload): Promise<void> {
+    const body = JSON.stringify(payload);
+
+    try {
+      await retryOperation(
+        async () => {
+          callback.attempts++;
+          await this.send(callback, body);
+        },
+        this.configService.webhookMaxAttempts,
+        this.configService.webhookInitialDelay,
+        this.logger,
+        // A blocked URL stays blocked
+        (error) => !(error instanceof PdfError)
+      );
+
+      callback.status = "delivered";
+      this.prometheusService.recordWebhookDelivery("delivered");
+      this.logger.debug(
+        `Webhook for job ${payload.jobId} delivered after ${callback.attempts} attempt(s)`
+      );
+    } catch (error: unknown) {
+      callback.status = "failed";
+      this.prometheusService.recordWebhookDelivery("failed");
+      this.logger.warn(
+        `Webhook for job ${payload.jobId} failed after ${
+          callback.attempts
+        } attempt(s): ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Signs `${timestamp}.${body}` so receivers can reject replayed requests
+   * by checking the timestamp header as well as the signature.
+   */
+  sign(body: string, timestamp: string, secret: string): string {
+    const digest = createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+    return `sha256=${digest}`;
+  }
+
+  private async send(callback: JobCallback, body: string): Promise<void> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const secret = callback.secret ?? this.configService.webhookSecret;
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "html2pdf-webhook/1.0",
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+    };
+    if (secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = this.sign(body, timestamp, secret);
+    }
+
+    // Checked on every attempt as the host may resolve elsewhere by now
+    try {
+      await this.assertAllowed(callback.url);
+    } catch (error) {
+      this.prometheusService.recordWebhookAttempt("blocked");
+      throw error;
+    }
+
+    let response: Response;
+    try {
+      // Redirects are not followed, their targets never pass the policy
+      response = await fetch(callback.url, {
+        method: "POST",
+        headers,
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(this.configService.webhookTimeout),
+      });
+    } catch (error) {
+      this.prometheusService.recordWebhookAttempt("network_error");
+      throw error;
+    }
+
+    if (!response.ok) {
+      this.prometheusService.recordWebhookAttempt("http_error");
+      throw new Error(
+        `Callback responded with HTTP ${response.status} ${response.statusText}`
+      );
+    }
+
+    this.prometheusService.recordWebhookAttempt("success");
+  }
+}
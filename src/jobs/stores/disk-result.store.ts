@@ -0,0 +1,32 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import { ResultStore } from "../interfaces/result-store.interface";
+
+export class DiskResultStore implements ResultStore {
+  constructor(private readonly directory: string) {}
+
+  async save(jobId: string, pdf: Buffer): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(jobId), pdf);
+  }
+
+  async get(jobId: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(jobId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(jobId: string): Promise<void> {
+    await fs.rm(this.pathFor(jobId), { force: true });
+  }
+
+  private pathFor(jobId: string): string {
+    // Job IDs are generated UUIDs, but never let one escape the directory
+    return join(this.directory, `${jobId.replace(/[^a-zA-Z0-9-]/g, "")}.pdf`);
+  }
+}
@@ -0,0 +1,17 @@
+import { ResultStore } from "../interfaces/result-store.interface";
+
+export class MemoryResultStore implements ResultStore {
+  private readonly results = new Map<string, Buffer>();
+
+  async save(jobId: string, pdf: Buffer): Promise<void> {
+    this.results.set(jobId, pdf);
+  }
+
+  async get(jobId: string): Promise<Buffer | null> {
+    return this.results.get(jobId) ?? null;
+  }
+
+  async delete(jobId: string): Promise<void> {
+    this.results.delete(jobId);
+  }
+}
@@ -7,6 +7,7 @@ import * as dotenv from "dotenv";
 import helmet from "helmet";
 import * as morgan from "morgan";
 import { AppModule } from "./app.module";
+import { API_KEY_HEADER, API_KEY_SECURITY_NAME } from "./auth";
 
 async function bootstrap() {
   // Load environment variables
@@ -14,12 +15,31 @@ async function bootstrap() {
 
   const app = await NestFactory.create(AppModule);
 
+  // SIGTERM and SIGINT drain the browser pool before the process exits
+  app.enableShutdownHooks();
+
   // Apply security middleware
   app.use(
     cors({
       origin: process.env.CORS_ORIGIN || "*",
-      methods: ["GET", "POST"],
-      allowedHeaders: ["Content-Type"],
+      methods: ["GET", "POST", "PUT", "DELETE"],
+      allowedHeaders: [
+        "Content-Type",
+        "Authorization",
+        "X-API-Key",
+        "X-Request-Id",
+        "X-Priority",
+        "Cache-Control",
+        "If-None-Match",
+      ],
+      exposedHeaders: [
+        "X-Request-Id",
+        "X-Sanitize-Report",
+        "X-Blocked-Requests",
+        "Retry-After",
+        "ETag",
+        "X-Cache",
+      ],
       maxAge: 86400, // 24 hours
     })
   );
@@ -58,7 +78,15 @@ async function bootstrap() {
     )
     .setVersion("1.0")
     .addTag("pdf", "PDF conversion endpoints")
+    .addTag("jobs", "Asynchronous conversion jobs")
+    .addTag("templates", "Template registration and rendering")
+    .addTag("account", "API key usage and quotas")
+    .addTag("admin", "Browser pool administration")
     .addTag("health", "Health check and monitoring endpoints")
+    .addApiKey(
+      { type: "apiKey", name: API_KEY_HEADER, in: "header" },
+      API_KEY_SECURITY_NAME
+    )
     .build();
   const document = SwaggerModule.createDocument(app, config);
   SwaggerModule.setup("api", app, document);
@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Logger,
+  Post,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from "@nestjs/common";
+import { FileInterceptor } from "@nestjs/platform-express";
+import {
+  ApiBody,
+  ApiConsumes,
+  ApiExtraModels,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+  getSchemaPath,
+} from "@nestjs/swagger";
+import { Throttle, ThrottlerGuard } from "@nestjs/throttler";
+import { Response } from "express";
+import { API_KEY_SECURITY_NAME, RequireScopes } from "../../auth";
+import { PdfOptionsDto } from "../../pdf/dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../../pdf/dto/sanitize-options.dto";
+import { PdfService } from "../../pdf/services/pdf.service";
+import { setBlockedRequestsHeader } from "../../pdf/utils/blocked-requests.util";
+import { setSanitizeReportHeader } from "../../pdf/utils/sanitize-report.util";
+import { MarkdownDto } from "../dto/markdown.dto";
+import { MarkdownService } from "../services/markdown.service";
+import {
+  DEFAULT_MARKDOWN_THEME,
+  MARKDOWN_THEMES,
+} from "../styles/markdown.styles";
+
+@ApiTags("pdf")
+@ApiSecurity(API_KEY_SECURITY_NAME)
+@ApiExtraModels(PdfOptionsDto, SanitizeOptionsDto)
+@Controller("convert")
+@UseGuards(ThrottlerGuard)
+export class MarkdownController {
+  private readonly logger = new Logger(MarkdownController.name);
+
+  constructor(
+    private readonly markdownService: MarkdownService,
+    private readonly pdfService: PdfService
+  ) {}
+
+  @Post("markdown")
+  @RequireScopes("html")
+  @Throttle({
+    short: { ttl: 1000, limit: 2 },
+    medium: { ttl: 60000, limit: 10 },
+  })
+  @ApiOperation({
+    summary: "Convert Markdown to PDF",
+    description:
+      "Send Markdown as JSON, or upload a .md file as multipart form data, and receive a PDF. Code blocks are syntax highlighted; pick a built-in stylesheet with `theme` or add your own `css`. The first # heading is used as the document title for headers and footers.",
+  })
+  @ApiConsumes("application/json", "multipart/form-data")
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        markdown: {
+          type: "string",
+          description: "Markdown text, required unless a file is uploaded",
+        },
+        file: {
+          type: "string",
+          format: "binary",
+          description:
+            "Markdown file (.md or .markdown, max 5MB), multipart only",
+        },
+        theme: {
+          type: "string",
+          enum: MARKDOWN_THEMES,
+          default: DEFAULT_MARKDOWN_THEME,
+        },
+        css: {
+          type: "string",
+          description: "Custom CSS applied after the built-in stylesheet",
+        },
+        options: {
+          description:
+            "PDF layout options; a JSON string or bracketed form fields on multipart requests",
+          allOf: [{ $ref: getSchemaPath(PdfOptionsDto) }],
+        },
+        sanitize: {
+          description:
+            "Sanitization of HTML embedded in the Markdown; a JSON string or bracketed form fields on multipart requests",
+          allOf: [{ $ref: getSchemaPath(SanitizeOptionsDto) }],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: "PDF file generated successfully",
+    content: {
+      "application/pdf": {
+        schema: {
+          type: "string",
+          format: "binary",
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid input - no Markdown given or not a Markdown file",
+  })
+  @UseInterceptors(
+    FileInterceptor("file", {
+      limits: {
+        fileSize: 5242880, // 5MB
+      },
+      fileFilter: (req, file, callback) => {
+        if (!/\.(md|markdown)$/i.test(file.originalname)) {
+          return callback(
+            new BadRequestException("Only .md and .markdown files are allowed"),
+            false
+          );
+        }
+        callback(null, true);
+      },
+    })
+  )
+  async convertMarkdown(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() dto: MarkdownDto,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const markdown = file ? file.buffer.toString() : dto.markdown;
+      if (!markdown?.trim()) {
+        throw new BadRequestException(
+          "Provide markdown text or upload a .md file"
+        );
+      }
+
+      const html = this.markdownService.render(markdown, {
+        theme: dto.theme,
+        css: dto.css,
+      });
+      const pdf = await this.pdfService.convertHtmlToPdf(
+        html,
+        dto.options,
+        dto.sanitize
+      );
+
+      setSanitizeReportHeader(res);
+      setBlockedRequestsHeader(res);
+      res.set({
+        "Content-Type": "application/pdf",
+        "Content-Disposition": "attachment; filename=converted.pdf",
+      });
+      res.send(pdf);
+    } catch (error) {
+      this.logger.error(`Error converting Markdown: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from "class-validator";
+import { parseJsonAs } from "../../pdf/dto/form-field.transforms";
+import { PdfOptionsDto } from "../../pdf/dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../../pdf/dto/sanitize-options.dto";
+import {
+  DEFAULT_MARKDOWN_THEME,
+  MARKDOWN_THEMES,
+  MarkdownTheme,
+} from "../styles/markdown.styles";
+
+export class MarkdownDto {
+  @ApiPropertyOptional({
+    description:
+      "Markdown text to convert (CommonMark with GitHub tables, task lists and footnotes). Required unless a .md file is uploaded.",
+    example:
+      "# Release notes\n\n- [x] Markdown support\n- [ ] World domination",
+  })
+  @IsOptional()
+  @IsString()
+  markdown?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Built-in stylesheet. Use none to style the document with css only.",
+    enum: MARKDOWN_THEMES,
+    default: DEFAULT_MARKDOWN_THEME,
+  })
+  @IsOptional()
+  @IsIn(MARKDOWN_THEMES)
+  theme?: MarkdownTheme;
+
+  @ApiPropertyOptional({
+    description: "Custom CSS applied after the built-in stylesheet",
+    example: "body { font-size: 12pt; }",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100000)
+  css?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "PDF layout options, including headers and footers. On file uploads, either as a JSON string or as bracketed form fields such as options[format].",
+    type: PdfOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(PdfOptionsDto))
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  options?: PdfOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Sanitization of HTML embedded in the Markdown and whether JavaScript runs. On file uploads, either as a JSON string or as bracketed form fields such as sanitize[mode].",
+    type: SanitizeOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(SanitizeOptionsDto))
+  @ValidateNested()
+  @Type(() => SanitizeOptionsDto)
+  sanitize?: SanitizeOptionsDto;
+}
@@ -0,0 +1,6 @@
+export * from "./controllers/markdown.controller";
+export * from "./dto/markdown.dto";
+export * from "./markdown.module";
+export * from "./plugins/task-lists.plugin";
+export * from "./services/markdown.service";
+export * from "./styles/markdown.styles";
@@ -0,0 +1,12 @@
+import { Module } from "@nestjs/common";
+import { PdfModule } from "../pdf";
+import { MarkdownController } from "./controllers/markdown.controller";
+import { MarkdownService } from "./services/markdown.service";
+
+@Module({
+  imports: [PdfModule],
+  controllers: [MarkdownController],
+  providers: [MarkdownService],
+  exports: [MarkdownService],
+})
+export class MarkdownModule {}
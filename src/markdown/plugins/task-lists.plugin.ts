@@ -0,0 +1,50 @@
+import * as MarkdownIt from "markdown-it";
+
+const TASK_PATTERN = /^\[([ xX])\]\s+/;
+
+/**
+ * GFM task list items: "- [ ] todo" and "- [x] done" become disabled
+ * checkboxes, with the GitHub class names on the item and its list.
+ */
+export function taskListsPlugin(md: MarkdownIt): void {
+  md.core.ruler.after("inline", "task_lists", (state: MarkdownIt.StateCore) => {
+    const tokens = state.tokens;
+
+    for (let i = 2; i < tokens.length; i++) {
+      const inline = tokens[i];
+      const item = tokens[i - 2];
+      if (
+        inline.type !== "inline" ||
+        tokens[i - 1].type !== "paragraph_open" ||
+        item.type !== "list_item_open"
+      ) {
+        continue;
+      }
+
+      const text = inline.children?.[0];
+      const match = text?.type === "text" && TASK_PATTERN.exec(text.content);
+      if (!text || !match) {
+        continue;
+      }
+
+      text.content = text.content.slice(match[0].length);
+      const checkbox = new state.Token("html_inline", "", 0);
+      checkbox.content = `<input type="checkbox" class="task-list-item-checkbox" disabled${
+        match[1] === " " ? "" : " checked"
+      }>`;
+      inline.children?.unshift(checkbox);
+      item.attrJoin("class", "task-list-item");
+
+      // The enclosing list is the nearest list opening one level up
+      for (let j = i - 3; j >= 0; j--) {
+        const list = tokens[j];
+        if (list.level === item.level - 1 && list.type.endsWith("list_open")) {
+          if (!list.attrGet("class")?.includes("contains-task-list")) {
+            list.attrJoin("class", "contains-task-list");
+          }
+          break;
+        }
+      }
+    }
+  });
+}
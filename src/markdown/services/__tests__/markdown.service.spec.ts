@@ -0,0 +1,63 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { MarkdownService } from "../markdown.service";
+
+describe("MarkdownService", () => {
+  let service: MarkdownService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [MarkdownService],
+    }).compile();
+
+    service = module.get<MarkdownService>(MarkdownService);
+  });
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should render a standalone document titled after the first heading", () => {
+    const html = service.render("# Release <notes>\n\nHello **world**");
+
+    expect(html).toContain("<title>Release &lt;notes&gt;</title>");
+    expect(html).toContain("<strong>world</strong>");
+    expect(html).toContain("font-family: -apple-system");
+  });
+
+  it("should render GFM tables and task lists", () => {
+    const html = service.render(
+      "| a | b |\n| - | - |\n| 1 | 2 |\n\n- [ ] todo\n- [x] done\n- plain"
+    );
+
+    expect(html).toContain("<table>");
+    expect(html).toContain('<ul class="contains-task-list">');
+    expect(html).toContain(
+      '<li class="task-list-item"><input type="checkbox" class="task-list-item-checkbox" disabled>todo</li>'
+    );
+    expect(html).toContain(
+      '<input type="checkbox" class="task-list-item-checkbox" disabled checked>done'
+    );
+    expect(html).toContain("<li>plain</li>");
+  });
+
+  it("should highlight fenced code and render footnotes", () => {
+    const html = service.render(
+      "```ts\nconst answer = 42;\n```\n\nSee note[^1].\n\n[^1]: The note."
+    );
+
+    expect(html).toContain('<code class="hljs language-ts">');
+    expect(html).toContain('<span class="hljs-keyword">const</span>');
+    expect(html).toContain('class="footnotes"');
+  });
+
+  it("should append custom CSS and allow dropping the built-in theme", () => {
+    const html = service.render("text", {
+      theme: "none",
+      css: "body { color: red; }",
+    });
+
+    expect(html).toContain("body { color: red; }");
+    expect(html).not.toContain("font-family: -apple-system");
+    expect(html).not.toContain(".hljs");
+  });
+});
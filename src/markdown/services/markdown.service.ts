@@ -0,0 +1,80 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { readFileSync } from "fs";
+import hljs from "highlight.js";
+import * as MarkdownIt from "markdown-it";
+import footnote = require("markdown-it-footnote");
+import { taskListsPlugin } from "../plugins/task-lists.plugin";
+import {
+  DEFAULT_MARKDOWN_THEME,
+  MARKDOWN_STYLESHEETS,
+  MarkdownTheme,
+} from "../styles/markdown.styles";
+
+export interface MarkdownRenderOptions {
+  theme?: MarkdownTheme;
+  css?: string;
+}
+
+@Injectable()
+export class MarkdownService {
+  private readonly logger = new Logger(MarkdownService.name);
+  private readonly highlightStyles = readFileSync(
+    require.resolve("highlight.js/styles/github.css"),
+    "utf8"
+  );
+  private readonly markdown: MarkdownIt = new MarkdownIt({
+    html: true,
+    linkify: true,
+    highlight: (code, language) => this.highlight(code, language),
+  })
+    .use(footnote)
+    .use(taskListsPlugin);
+
+  /** Renders Markdown to a standalone HTML document ready for conversion. */
+  render(source: string, options: MarkdownRenderOptions = {}): string {
+    const env = {};
+    const tokens = this.markdown.parse(source, env);
+    const body = this.markdown.renderer.render(
+      tokens,
+      this.markdown.options,
+      env
+    );
+
+    // The first top-level heading doubles as the title for header templates
+    const headingIndex = tokens.findIndex(
+      (token) => token.type === "heading_open" && token.tag === "h1"
+    );
+    const title =
+      headingIndex >= 0 ? tokens[headingIndex + 1].content : "Document";
+
+    const theme = options.theme ?? DEFAULT_MARKDOWN_THEME;
+    const styles = [
+      MARKDOWN_STYLESHEETS[theme],
+      theme === "none" ? "" : this.highlightStyles,
+      options.css ?? "",
+    ].join("\n");
+
+    this.logger.debug(`Rendered Markdown (${source.length} chars, ${theme})`);
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${this.markdown.utils.escapeHtml(title)}</title>
+<style>${styles}</style>
+</head>
+<body class="markdown-body">
+${body}
+</body>
+</html>`;
+  }
+
+  private highlight(code: string, language: string): string {
+    if (!language || !hljs.getLanguage(language)) {
+      // Fall back to markdown-it's own escaping
+      return "";
+    }
+    const { value } = hljs.highlight(code, { language, ignoreIllegals: true });
+    return `<pre><code class="hljs language-${language}">${value}</code></pre>`;
+  }
+}
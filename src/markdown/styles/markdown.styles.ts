@@ -0,0 +1,55 @@
+const BASE_STYLES = `
+  * { box-sizing: border-box; }
+  img { max-width: 100%; }
+  pre, table, blockquote, img { page-break-inside: avoid; }
+  h1, h2, h3, h4 { page-break-after: avoid; }
+  ul.contains-task-list { list-style: none; padding-left: 1.2em; }
+  .task-list-item-checkbox { margin: 0 0.4em 0 -1.2em; vertical-align: middle; }
+`;
+
+// Built-in document themes. Code blocks are additionally styled by the
+// highlight.js theme loaded in MarkdownService.
+export const MARKDOWN_STYLESHEETS = {
+  github: `${BASE_STYLES}
+    body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 14px; line-height: 1.6; color: #1f2328; }
+    h1, h2 { border-bottom: 1px solid #d1d9e0; padding-bottom: 0.3em; }
+    a { color: #0969da; text-decoration: none; }
+    code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 85%; background: #eff1f3; padding: 0.2em 0.4em; border-radius: 6px; }
+    pre { background: #f6f8fa; padding: 16px; border-radius: 6px; overflow: auto; }
+    pre code { background: none; padding: 0; font-size: 85%; }
+    blockquote { margin: 0; padding: 0 1em; color: #59636e; border-left: 0.25em solid #d1d9e0; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #d1d9e0; padding: 6px 13px; }
+    tr:nth-child(2n) { background: #f6f8fa; }
+    hr { border: 0; border-top: 1px solid #d1d9e0; }
+    .footnotes { font-size: 85%; color: #59636e; }
+  `,
+  academic: `${BASE_STYLES}
+    body { font-family: Georgia, "Times New Roman", serif; font-size: 12pt; line-height: 1.5; color: #111; text-align: justify; }
+    h1 { text-align: center; font-size: 20pt; }
+    h2 { font-size: 15pt; margin-top: 1.6em; }
+    code, pre { font-family: "Courier New", monospace; font-size: 10pt; }
+    pre { border: 1px solid #ccc; padding: 8px; }
+    blockquote { margin: 1em 2em; font-style: italic; }
+    table { border-collapse: collapse; margin: 1em auto; }
+    th { border-top: 2px solid #111; border-bottom: 1px solid #111; padding: 4px 10px; }
+    td { padding: 4px 10px; }
+    tbody tr:last-child td { border-bottom: 2px solid #111; }
+    .footnotes { font-size: 10pt; }
+  `,
+  minimal: `${BASE_STYLES}
+    body { font-family: Helvetica, Arial, sans-serif; font-size: 13px; line-height: 1.5; }
+    pre { background: #f5f5f5; padding: 10px; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #ddd; padding: 4px 8px; }
+  `,
+  none: "",
+} satisfies Record<string, string>;
+
+export type MarkdownTheme = keyof typeof MARKDOWN_STYLESHEETS;
+
+export const MARKDOWN_THEMES = Object.keys(
+  MARKDOWN_STYLESHEETS
+) as MarkdownTheme[];
+
+export const DEFAULT_MARKDOWN_THEME: MarkdownTheme = "github";
@@ -0,0 +1,72 @@
+import { randomUUID } from "crypto";
+import { readFile, rm } from "fs/promises";
+import { extname, join, posix, sep } from "path";
+import { HTTPRequest } from "puppeteer";
+import {
+  ASSET_CONTENT_TYPES,
+  BUNDLE_HOST_SUFFIX,
+} from "../constants/pdf.constants";
+
+/**
+ * An uploaded HTML document and its assets, extracted to a temporary
+ * directory and served to the page from an origin of its own.
+ */
+export class AssetBundle {
+  readonly origin = `http://${randomUUID()}.${BUNDLE_HOST_SUFFIX}`;
+
+  constructor(
+    readonly dir: string,
+    readonly entryPath: string
+  ) {}
+
+  get entryUrl(): string {
+    return `${this.origin}/${this.entryPath.split("/").map(encodeURIComponent).join("/")}`;
+  }
+
+  readEntry(): Promise<string> {
+    return readFile(join(this.dir, ...this.entryPath.split("/")), "utf8");
+  }
+
+  /** Answers requests for the bundle origin; returns false for any other URL. */
+  async respond(request: HTTPRequest): Promise<boolean> {
+    const url = new URL(request.url());
+    if (url.origin !== this.origin) {
+      return false;
+    }
+
+    const filePath = this.resolve(decodeURIComponent(url.pathname.slice(1)));
+    const body = filePath ? await readFile(filePath).catch(() => null) : null;
+    if (!filePath || !body) {
+      await request.respond({
+        status: 404,
+        contentType: "text/plain",
+        body: "Not found",
+      });
+      return true;
+    }
+
+    await request.respond({
+      status: 200,
+      contentType:
+        ASSET_CONTENT_TYPES[extname(filePath).toLowerCase()] ??
+        "application/octet-stream",
+      body,
+    });
+    return true;
+  }
+
+  async dispose(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  // Maps a bundle path to a file inside the bundle directory, or null when
+  // the path would escape it
+  private resolve(path: string): string | null {
+    const normalized = posix.normalize(path);
+    if (normalized.startsWith("..") || posix.isAbsolute(normalized)) {
+      return null;
+    }
+    const filePath = join(this.dir, ...normalized.split("/"));
+    return filePath.startsWith(this.dir + sep) ? filePath : null;
+  }
+}
@@ -0,0 +1,386 @@
+export const PAPER_FORMATS = [
+  "Letter",
+  "Legal",
+  "Tabloid",
+  "Ledger",
+  "A0",
+  "A1",
+  "A2",
+  "A3",
+  "A4",
+  "A5",
+  "A6",
+] as const;
+
+export type PdfPaperFormat = (typeof PAPER_FORMATS)[number];
+
+export const PDF_ORIENTATIONS = ["portrait", "landscape"] as const;
+
+export type PdfOrientation = (typeof PDF_ORIENTATIONS)[number];
+
+// CSS length accepted by Puppeteer: a number with an optional px/in/cm/mm unit
+export const CSS_LENGTH_PATTERN = /^\d+(\.\d+)?(px|in|cm|mm)?$/;
+
+// Page ranges in the Chrome print dialog format, e.g. "1-5, 8, 11-13"
+export const PAGE_RANGES_PATTERN =
+  /^\s*\d+\s*(-\s*\d*\s*)?(,\s*\d+\s*(-\s*\d*\s*)?)*$/;
+
+export const DEFAULT_PDF_FORMAT: PdfPaperFormat = "A4";
+export const DEFAULT_PDF_SCALE = 0.8; // Slightly scale down to ensure content fits
+export const DEFAULT_PDF_MARGIN = {
+  top: "80px",
+  right: "40px",
+  bottom: "80px",
+  left: "40px",
+};
+
+export const WATERMARK_POSITIONS = [
+  "center",
+  "diagonal",
+  "tiled",
+  "top-left",
+  "top-right",
+  "bottom-left",
+  "bottom-right",
+] as const;
+
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+// "all", "first", "last", "odd", "even" or 1-based page ranges like "1-3, 5"
+export const WATERMARK_PAGES_PATTERN =
+  /^(all|first|last|odd|even|\s*\d+\s*(-\s*\d+\s*)?(,\s*\d+\s*(-\s*\d+\s*)?)*)$/;
+
+export const HEX_COLOR_PATTERN = /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+export const BATCH_OUTPUT_FORMATS = ["zip", "merged", "report"] as const;
+
+export type BatchOutputFormat = (typeof BATCH_OUTPUT_FORMATS)[number];
+
+export const MAX_BATCH_ITEMS = 50;
+
+export const IMAGE_FORMATS = ["png", "jpeg", "webp"] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export const DEFAULT_IMAGE_FORMAT: ImageFormat = "png";
+
+export const DEFAULT_WAIT_FOR_TIMEOUT = 30000; // 30 seconds
+export const MAX_WAIT_FOR_TIMEOUT = 120000; // 2 minutes
+export const MAX_WAIT_FOR_DELAY = 30000;
+
+// Custom DOM event names, also used as a window property key in the page
+export const WAIT_FOR_EVENT_PATTERN = /^[\w.:-]{1,100}$/;
+
+// Limits for the cookies, headers and localStorage entries of a URL conversion
+export const MAX_URL_SESSION_ENTRIES = 50;
+export const MAX_URL_SESSION_VALUE_LENGTH = 8192;
+
+export const HTTP_HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// Headers that belong to the browser's connection handling, or that would let
+// a caller override the target host
+export const FORBIDDEN_REQUEST_HEADERS = [
+  "host",
+  "content-length",
+  "connection",
+  "keep-alive",
+  "transfer-encoding",
+  "upgrade",
+  "te",
+  "trailer",
+  "expect",
+  "proxy-authorization",
+  "proxy-connection",
+];
+
+// Request types a resource policy can allow or block, as Chrome names them.
+// The page's own document always loads, "document" only matches frames.
+export const RESOURCE_TYPES = [
+  "document",
+  "stylesheet",
+  "image",
+  "media",
+  "font",
+  "script",
+  "texttrack",
+  "xhr",
+  "fetch",
+  "prefetch",
+  "eventsource",
+  "websocket",
+  "manifest",
+  "signedexchange",
+  "ping",
+  "cspviolationreport",
+  "preflight",
+  "other",
+] as const;
+export type ResourceType = (typeof RESOURCE_TYPES)[number];
+export const MAX_RESOURCE_POLICY_PATTERNS = 100;
+export const BLOCKED_REQUESTS_HEADER = "X-Blocked-Requests";
+
+export const MAX_BUNDLE_FILES = 500;
+
+export const MAX_BUNDLE_SIZE = 50 * 1024 * 1024; // 50MB uncompressed
+
+// All files of one multipart upload together
+export const MAX_UPLOAD_TOTAL_SIZE = 50 * 1024 * 1024; // 50MB
+
+export const DEFAULT_BUNDLE_ENTRY = "index.html";
+
+// Bundles are served from a per-request host under a reserved TLD that never
+// resolves, so only the interceptor can ever answer for it
+export const BUNDLE_HOST_SUFFIX = "bundle.invalid";
+
+export const ASSET_CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".htm": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".ico": "image/x-icon",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved
+// ranges that a rendered page must never reach unless explicitly allowed
+export const PRIVATE_NETWORK_CIDRS = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/128",
+  "::1/128",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+];
+
+// Schemes that never leave the browser and are not subject to the URL policy
+export const LOCAL_URL_SCHEMES = ["about:", "data:", "blob:"];
+
+export const SANITIZE_MODES = ["off", "scripts", "strict"] as const;
+export type SanitizeMode = (typeof SANITIZE_MODES)[number];
+export const DEFAULT_SANITIZE_MODE: SanitizeMode = "off";
+export const SANITIZE_REPORT_HEADER = "X-Sanitize-Report";
+
+// Elements that run code or embed other documents, removed in scripts mode
+export const EXECUTABLE_TAGS = [
+  "script",
+  "iframe",
+  "frame",
+  "frameset",
+  "object",
+  "embed",
+  "applet",
+  "base",
+];
+
+// Attributes holding URLs whose scheme is checked
+export const URL_ATTRIBUTES = [
+  "href",
+  "src",
+  "srcset",
+  "action",
+  "formaction",
+  "xlink:href",
+  "cite",
+  "poster",
+  "background",
+];
+
+export const SCRIPTS_MODE_SCHEMES = [
+  "http",
+  "https",
+  "data",
+  "blob",
+  "mailto",
+  "tel",
+  "ftp",
+  "cid",
+];
+
+// Strict mode defaults; HTML_SANITIZE_ALLOWED_* replace them
+export const STRICT_ALLOWED_TAGS = [
+  "html",
+  "head",
+  "body",
+  "title",
+  "meta",
+  "style",
+  "address",
+  "article",
+  "aside",
+  "footer",
+  "header",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "hgroup",
+  "main",
+  "nav",
+  "section",
+  "blockquote",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "hr",
+  "li",
+  "ol",
+  "p",
+  "pre",
+  "ul",
+  "a",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "br",
+  "cite",
+  "code",
+  "data",
+  "del",
+  "dfn",
+  "em",
+  "i",
+  "img",
+  "ins",
+  "kbd",
+  "mark",
+  "picture",
+  "q",
+  "s",
+  "samp",
+  "small",
+  "source",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "u",
+  "var",
+  "wbr",
+  "caption",
+  "col",
+  "colgroup",
+  "table",
+  "tbody",
+  "td",
+  "tfoot",
+  "th",
+  "thead",
+  "tr",
+];
+
+// A trailing * matches any suffix, e.g. aria-*
+export const STRICT_ALLOWED_ATTRIBUTES = [
+  "class",
+  "id",
+  "style",
+  "title",
+  "lang",
+  "dir",
+  "role",
+  "href",
+  "src",
+  "srcset",
+  "alt",
+  "width",
+  "height",
+  "colspan",
+  "rowspan",
+  "headers",
+  "scope",
+  "align",
+  "valign",
+  "start",
+  "reversed",
+  "datetime",
+  "charset",
+  "name",
+  "content",
+  "aria-*",
+  "data-*",
+];
+
+export const STRICT_ALLOWED_SCHEMES = ["http", "https", "data", "mailto"];
+
+// Page requests wait in the pool queue by priority, highest first
+export const QUEUE_PRIORITIES = ["low", "normal", "high"] as const;
+
+export type QueuePriority = (typeof QUEUE_PRIORITIES)[number];
+
+export const DEFAULT_QUEUE_PRIORITY: QueuePriority = "normal";
+export const PRIORITY_HEADER = "X-Priority";
+
+// Chrome flags for pooled browsers, added to the PUPPETEER args from config
+export const BROWSER_LAUNCH_ARGS = [
+  "--no-sandbox",
+  "--disable-setuid-sandbox",
+  "--disable-web-security",
+  "--disable-features=IsolateOrigins",
+  "--disable-site-isolation-trials",
+  "--disable-dev-shm-usage",
+  "--no-zygote",
+  "--single-process",
+  "--disable-gpu",
+  "--window-size=1920,1080",
+  "--hide-scrollbars",
+  "--disable-blink-features=AutomationControlled",
+  "--autoplay-policy=user-gesture-required",
+  "--disable-background-networking",
+  "--disable-background-timer-throttling",
+  "--disable-backgrounding-occluded-windows",
+  "--disable-breakpad",
+  "--disable-client-side-phishing-detection",
+  "--disable-component-update",
+  "--disable-default-apps",
+  "--disable-domain-reliability",
+  "--disable-extensions",
+  "--disable-features=AudioServiceOutOfProcess",
+  "--disable-hang-monitor",
+  "--disable-ipc-flooding-protection",
+  "--disable-notifications",
+  "--disable-offer-store-unmasked-wallet-cards",
+  "--disable-popup-blocking",
+  "--disable-print-preview",
+  "--disable-prompt-on-repost",
+  "--disable-renderer-backgrounding",
+  "--disable-speech-api",
+  "--disable-sync",
+  "--ignore-gpu-blacklist",
+  "--metrics-recording-only",
+  "--mute-audio",
+  "--no-default-browser-check",
+  "--no-first-run",
+  "--no-pings",
+  "--password-store=basic",
+  "--use-gl=swiftshader",
+  "--use-mock-keychain",
+];
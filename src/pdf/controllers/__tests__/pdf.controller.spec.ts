@@ -0,0 +1,69 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ThrottlerGuard } from "@nestjs/throttler";
+import { Response } from "express";
+import { RequestContext } from "../../../common";
+import { ConfigService } from "../../../config";
+import {
+  BLOCKED_REQUESTS_HEADER,
+  SANITIZE_REPORT_HEADER,
+} from "../../constants/pdf.constants";
+import { AssetBundleService } from "../../services/asset-bundle.service";
+import { BatchService } from "../../services/batch.service";
+import { PdfCacheService } from "../../services/pdf-cache.service";
+import { PdfService } from "../../services/pdf.service";
+import { PdfController } from "../pdf.controller";
+
+jest.mock("puppeteer", () => ({ launch: jest.fn() }));
+
+describe("PdfController", () => {
+  let controller: PdfController;
+  const pdfService = { convertUrlToImage: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PdfController],
+      providers: [
+        { provide: PdfService, useValue: pdfService },
+        { provide: AssetBundleService, useValue: {} },
+        { provide: BatchService, useValue: {} },
+        { provide: PdfCacheService, useValue: {} },
+        { provide: ConfigService, useValue: {} },
+      ],
+    })
+      .overrideGuard(ThrottlerGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get(PdfController);
+  });
+
+  describe("convertUrlToImage", () => {
+    it("should report the requests the resource policy blocked", async () => {
+      const image = Buffer.from("png");
+      const blocked = { total: 2, byType: { media: 2 } };
+      pdfService.convertUrlToImage.mockImplementation(async () => {
+        RequestContext.current()!.blockedRequests = blocked;
+        return image;
+      });
+      const res = { set: jest.fn(), send: jest.fn() };
+
+      await RequestContext.run({ requestId: "request-1" }, () =>
+        controller.convertUrlToImage(
+          { url: "https://example.com", options: { format: "png" } },
+          res as unknown as Response
+        )
+      );
+
+      expect(res.set).toHaveBeenCalledWith(
+        BLOCKED_REQUESTS_HEADER,
+        JSON.stringify(blocked)
+      );
+      expect(res.set).not.toHaveBeenCalledWith(
+        SANITIZE_REPORT_HEADER,
+        expect.anything()
+      );
+      expect(res.send).toHaveBeenCalledWith(image);
+    });
+  });
+});
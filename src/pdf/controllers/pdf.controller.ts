@@ -4,27 +4,138 @@ import {
   Controller,
   Logger,
   Post,
+  Req,
   Res,
   UploadedFile,
+  UploadedFiles,
   UseGuards,
   UseInterceptors,
 } from "@nestjs/common";
-import { FileInterceptor } from "@nestjs/platform-express";
+import {
+  FileFieldsInterceptor,
+  FileInterceptor,
+} from "@nestjs/platform-express";
 import {
   ApiBody,
   ApiConsumes,
+  ApiExtraModels,
   ApiOperation,
   ApiResponse,
+  ApiSecurity,
   ApiTags,
+  getSchemaPath,
 } from "@nestjs/swagger";
 import { Throttle, ThrottlerGuard } from "@nestjs/throttler";
-import { Response } from "express";
+import { Request, Response } from "express";
+import { API_KEY_SECURITY_NAME, ApiKeyScope, RequireScopes } from "../../auth";
 import { ConfigService } from "../../config";
+import {
+  DEFAULT_IMAGE_FORMAT,
+  IMAGE_FORMATS,
+  ImageFormat,
+  MAX_BUNDLE_FILES,
+  MAX_UPLOAD_TOTAL_SIZE,
+} from "../constants/pdf.constants";
+import { BatchDto } from "../dto/batch.dto";
+import { HtmlFileDto } from "../dto/html-file.dto";
 import { HtmlTextDto } from "../dto/html-text.dto";
+import { ImageOptionsDto } from "../dto/image-options.dto";
+import {
+  HtmlFileImageDto,
+  HtmlTextImageDto,
+  UrlImageDto,
+} from "../dto/image-request.dto";
+import { PdfOptionsDto } from "../dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../dto/sanitize-options.dto";
 import { UrlDto } from "../dto/url.dto";
+import { HtmlFileUploads } from "../interfaces/html-file-uploads.interface";
+import {
+  CacheableConversion,
+  PdfCacheMode,
+  PdfCacheResult,
+} from "../interfaces/pdf-cache.interface";
+import { AssetBundleService } from "../services/asset-bundle.service";
+import { BatchService } from "../services/batch.service";
+import { PdfCacheService } from "../services/pdf-cache.service";
 import { PdfService } from "../services/pdf.service";
+import { setBlockedRequestsHeader } from "../utils/blocked-requests.util";
+import { setSanitizeReportHeader } from "../utils/sanitize-report.util";
+import { limitedMemoryStorage } from "../utils/upload-storage.util";
+import { urlSessionOf } from "../utils/url-session.util";
+
+const htmlFileFilter = (
+  req: unknown,
+  file: Pick<Express.Multer.File, "mimetype" | "originalname">,
+  callback: (error: Error | null, acceptFile: boolean) => void
+) => {
+  // Check both mimetype and file extension
+  const isHtmlMime = file.mimetype === "text/html";
+  const isHtmlFile = file.originalname.toLowerCase().endsWith(".html");
+
+  if (!isHtmlMime || !isHtmlFile) {
+    return callback(
+      new BadRequestException("Only .html files are allowed"),
+      false
+    );
+  }
+  callback(null, true);
+};
+
+// A batch needs the scope of every kind of input it contains
+const batchScopes = (request: Request): ApiKeyScope[] => {
+  const items: unknown = request.body?.items;
+  if (!Array.isArray(items)) {
+    return [];
+  }
+  return items.flatMap((item): ApiKeyScope[] =>
+    item?.url !== undefined ? ["url"] : ["html"]
+  );
+};
+
+// Cache-Control: no-cache renders again and refreshes the cached PDF,
+// no-store leaves the cache alone entirely
+const cacheMode = (request: Request): PdfCacheMode => {
+  const directives = (request.get("Cache-Control") ?? "").toLowerCase();
+  if (directives.includes("no-store")) {
+    return "bypass";
+  }
+  return directives.includes("no-cache") ? "refresh" : "use";
+};
+
+const matchesEtag = (request: Request, etag: string): boolean =>
+  (request.get("If-None-Match") ?? "")
+    .split(",")
+    .map((candidate) => candidate.trim().replace(/^W\//, ""))
+    .some((candidate) => candidate === "*" || candidate === etag);
+
+const pdfResponseHeaders = {
+  ETag: {
+    description: "Hash of the PDF, send it back as If-None-Match",
+    schema: { type: "string" },
+  },
+  "X-Cache": {
+    description: "HIT, MISS or BYPASS while the PDF cache is enabled",
+    schema: { type: "string" },
+  },
+};
+
+const imageResponseContent = Object.fromEntries(
+  IMAGE_FORMATS.map((format) => [
+    `image/${format}`,
+    { schema: { type: "string", format: "binary" } },
+  ])
+);
 
 @ApiTags("pdf")
+@ApiSecurity(API_KEY_SECURITY_NAME)
+@ApiExtraModels(PdfOptionsDto, ImageOptionsDto, SanitizeOptionsDto)
+@ApiResponse({ status: 422, description: "The content failed to render" })
+@ApiResponse({ status: 502, description: "The target URL failed to load" })
+@ApiResponse({
+  status: 503,
+  description: "No browser is available, see Retry-After when it is set",
+})
+@ApiResponse({ status: 504, description: "Navigation or rendering timed out" })
 @Controller("convert")
 @UseGuards(ThrottlerGuard)
 export class PdfController {
@@ -32,10 +143,14 @@ export class PdfController {
 
   constructor(
     private readonly pdfService: PdfService,
+    private readonly assetBundleService: AssetBundleService,
+    private readonly batchService: BatchService,
+    private readonly pdfCacheService: PdfCacheService,
     private readonly configService: ConfigService
   ) {}
 
   @Post("html-file")
+  @RequireScopes("file")
   @Throttle({
     short: { ttl: 1000, limit: 2 },
     medium: { ttl: 60000, limit: 10 },
@@ -43,7 +158,7 @@ export class PdfController {
   @ApiOperation({
     summary: "Convert HTML file to PDF",
     description:
-      "Upload a .html file and receive a PDF file in response. Only files with .html extension and text/html mimetype are accepted.",
+      "Upload a .html file and receive a PDF file in response. Only files with .html extension and text/html mimetype are accepted. Images, stylesheets and fonts referenced with relative URLs can be uploaded alongside as assets files or as a ZIP bundle. PDF layout options can be sent alongside the file. Single files without assets are served from the PDF cache when it is enabled.",
   })
   @ApiConsumes("multipart/form-data")
   @ApiBody({
@@ -53,7 +168,41 @@ export class PdfController {
         file: {
           type: "string",
           format: "binary",
-          description: "HTML file to convert (must be a .html file, max 5MB)",
+          description:
+            "HTML file to convert (must be a .html file, max 5MB). Optional when a bundle contains the entry document.",
+        },
+        assets: {
+          type: "array",
+          items: { type: "string", format: "binary" },
+          description:
+            "Files referenced by the HTML with relative URLs. A filename may include subdirectories, e.g. img/logo.png.",
+        },
+        bundle: {
+          type: "string",
+          format: "binary",
+          description:
+            "ZIP archive with the HTML document and its assets (max 5MB)",
+        },
+        entry: {
+          type: "string",
+          description:
+            "Path of the HTML document inside the bundle. Defaults to index.html, or the only HTML file.",
+        },
+        options: {
+          description:
+            "PDF layout options as a JSON string, or sent as bracketed form fields such as options[format]=Letter",
+          allOf: [{ $ref: getSchemaPath(PdfOptionsDto) }],
+        },
+        sanitize: {
+          description:
+            "Sanitization options as a JSON string, or sent as bracketed form fields such as sanitize[mode]=strict",
+          allOf: [{ $ref: getSchemaPath(SanitizeOptionsDto) }],
+        },
+        watermarkImage: {
+          type: "string",
+          format: "binary",
+          description:
+            "Optional PNG or JPEG image stamped as watermark (see options.watermark for placement)",
         },
       },
     },
@@ -61,6 +210,7 @@ export class PdfController {
   @ApiResponse({
     status: 200,
     description: "PDF file generated successfully",
+    headers: pdfResponseHeaders,
     content: {
       "application/pdf": {
         schema: {
@@ -70,47 +220,111 @@ export class PdfController {
       },
     },
   })
+  @ApiResponse({
+    status: 304,
+    description: "The cached PDF matches If-None-Match",
+  })
   @ApiResponse({
     status: 400,
-    description: "Invalid input - file is missing, too large, or not HTML",
+    description:
+      "Invalid input - file is missing, too large, or not HTML, or the bundle is invalid",
   })
   @UseInterceptors(
-    FileInterceptor("file", {
-      limits: {
-        fileSize: 5242880, // 5MB
-      },
-      fileFilter: (req, file, callback) => {
-        // Check both mimetype and file extension
-        const isHtmlMime = file.mimetype === "text/html";
-        const isHtmlFile = file.originalname.toLowerCase().endsWith(".html");
-
-        if (!isHtmlMime || !isHtmlFile) {
-          return callback(
-            new BadRequestException("Only .html files are allowed"),
-            false
-          );
-        }
-        callback(null, true);
-      },
-    })
+    FileFieldsInterceptor(
+      [
+        { name: "file", maxCount: 1 },
+        { name: "bundle", maxCount: 1 },
+        { name: "assets", maxCount: MAX_BUNDLE_FILES },
+        { name: "watermarkImage", maxCount: 1 },
+      ],
+      {
+        storage: limitedMemoryStorage(MAX_UPLOAD_TOTAL_SIZE),
+        limits: {
+          fileSize: 5242880, // 5MB
+          files: MAX_BUNDLE_FILES + 3, // assets plus file, bundle and watermarkImage
+        },
+        fileFilter: (req, file, callback) => {
+          if (file.fieldname === "watermarkImage") {
+            if (!["image/png", "image/jpeg"].includes(file.mimetype)) {
+              return callback(
+                new BadRequestException(
+                  "Watermark image must be a PNG or JPEG file"
+                ),
+                false
+              );
+            }
+            return callback(null, true);
+          }
+
+          if (file.fieldname === "bundle") {
+            if (!file.originalname.toLowerCase().endsWith(".zip")) {
+              return callback(
+                new BadRequestException("Bundle must be a .zip file"),
+                false
+              );
+            }
+            return callback(null, true);
+          }
+
+          if (file.fieldname === "assets") {
+            return callback(null, true);
+          }
+
+          htmlFileFilter(req, file, callback);
+        },
+      }
+    )
   )
   async convertHtmlFile(
-    @UploadedFile() file: Express.Multer.File,
+    @UploadedFiles() files: HtmlFileUploads,
+    @Body() dto: HtmlFileDto,
+    @Req() req: Request,
     @Res() res: Response
   ): Promise<void> {
     try {
-      if (!file) {
+      const file = files?.file?.[0];
+      const hasAssets = Boolean(files?.bundle?.length || files?.assets?.length);
+      if (!file && !files?.bundle?.length) {
         throw new BadRequestException("No file uploaded");
       }
 
-      const html = file.buffer.toString();
-      const pdf = await this.pdfService.convertHtmlToPdf(html);
+      const options = { ...dto.options };
+      const watermarkImage = files.watermarkImage?.[0];
+      if (watermarkImage) {
+        options.watermark = {
+          ...options.watermark,
+          image: watermarkImage.buffer.toString("base64"),
+        };
+      }
 
-      res.set({
-        "Content-Type": "application/pdf",
-        "Content-Disposition": "attachment; filename=converted.pdf",
-      });
-      res.send(pdf);
+      if (hasAssets) {
+        const bundle = await this.assetBundleService.fromUploads(
+          files,
+          dto.entry
+        );
+        let pdf: Buffer;
+        try {
+          pdf = await this.pdfService.convertBundleToPdf(
+            bundle,
+            options,
+            dto.sanitize
+          );
+        } finally {
+          await bundle.dispose();
+        }
+        setSanitizeReportHeader(res);
+        setBlockedRequestsHeader(res);
+        this.sendPdf(req, res, { pdf, status: "off" });
+        return;
+      }
+
+      const html = (file as Express.Multer.File).buffer.toString();
+      await this.convertCached(
+        req,
+        res,
+        { type: "html", input: html, options, sanitize: dto.sanitize },
+        () => this.pdfService.convertHtmlToPdf(html, options, dto.sanitize)
+      );
     } catch (error) {
       this.logger.error(`Error converting HTML file: ${error.message}`);
       throw error;
@@ -118,6 +332,7 @@ export class PdfController {
   }
 
   @Post("html-text")
+  @RequireScopes("html")
   @Throttle({
     short: { ttl: 1000, limit: 2 },
     medium: { ttl: 60000, limit: 10 },
@@ -125,11 +340,12 @@ export class PdfController {
   @ApiOperation({
     summary: "Convert HTML text to PDF",
     description:
-      "Send HTML content in the request body and receive a PDF file in response",
+      "Send HTML content in the request body and receive a PDF file in response. Paper size, orientation, margins and scale can be set through `options`. Served from the PDF cache when it is enabled; send `Cache-Control: no-cache` to render again.",
   })
   @ApiResponse({
     status: 200,
     description: "PDF file generated successfully",
+    headers: pdfResponseHeaders,
     content: {
       "application/pdf": {
         schema: {
@@ -139,22 +355,32 @@ export class PdfController {
       },
     },
   })
+  @ApiResponse({
+    status: 304,
+    description: "The cached PDF matches If-None-Match",
+  })
   @ApiResponse({
     status: 400,
     description: "Invalid input - HTML content is missing or invalid",
   })
   async convertHtmlText(
     @Body() dto: HtmlTextDto,
+    @Req() req: Request,
     @Res() res: Response
   ): Promise<void> {
     try {
-      const pdf = await this.pdfService.convertHtmlToPdf(dto.html);
-
-      res.set({
-        "Content-Type": "application/pdf",
-        "Content-Disposition": "attachment; filename=converted.pdf",
-      });
-      res.send(pdf);
+      await this.convertCached(
+        req,
+        res,
+        {
+          type: "html",
+          input: dto.html,
+          options: dto.options,
+          sanitize: dto.sanitize,
+        },
+        () =>
+          this.pdfService.convertHtmlToPdf(dto.html, dto.options, dto.sanitize)
+      );
     } catch (error) {
       this.logger.error(`Error converting HTML text: ${error.message}`);
       throw error;
@@ -162,6 +388,7 @@ export class PdfController {
   }
 
   @Post("url")
+  @RequireScopes("url")
   @Throttle({
     short: { ttl: 1000, limit: 2 },
     medium: { ttl: 60000, limit: 10 },
@@ -169,11 +396,12 @@ export class PdfController {
   @ApiOperation({
     summary: "Convert webpage to PDF",
     description:
-      "Convert a webpage to PDF by providing its URL. If protocol (http:// or https://) is not provided, https:// will be used by default.",
+      "Convert a webpage to PDF by providing its URL. If protocol (http:// or https://) is not provided, https:// will be used by default. Paper size, orientation, margins and scale can be set through `options`. Pages behind a login can be printed with `cookies`, `headers`, `basicAuth` and `localStorage`. Served from the PDF cache when it is enabled, except with credentials; send `Cache-Control: no-cache` to render again.",
   })
   @ApiResponse({
     status: 200,
     description: "PDF file generated successfully",
+    headers: pdfResponseHeaders,
     content: {
       "application/pdf": {
         schema: {
@@ -183,23 +411,323 @@ export class PdfController {
       },
     },
   })
+  @ApiResponse({
+    status: 304,
+    description: "The cached PDF matches If-None-Match",
+  })
   @ApiResponse({
     status: 400,
     description:
       "Invalid input - URL is missing, malformed, or website is inaccessible",
   })
-  async convertUrl(@Body() dto: UrlDto, @Res() res: Response): Promise<void> {
+  async convertUrl(
+    @Body() dto: UrlDto,
+    @Req() req: Request,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const session = urlSessionOf(dto);
+      await this.convertCached(
+        req,
+        res,
+        { type: "url", input: dto.url, options: dto.options },
+        () => this.pdfService.convertUrlToPdf(dto.url, dto.options, session),
+        // Pages rendered with credentials are never shared through the cache
+        session ? "bypass" : cacheMode(req)
+      );
+    } catch (error) {
+      this.logger.error(`Error converting URL: ${error.message}`);
+      throw error;
+    }
+  }
+
+  @Post("html-file/image")
+  @RequireScopes("file", "image")
+  @Throttle({
+    short: { ttl: 1000, limit: 2 },
+    medium: { ttl: 60000, limit: 10 },
+  })
+  @ApiOperation({
+    summary: "Convert HTML file to an image",
+    description:
+      "Upload a .html file and receive a PNG, JPEG or WebP screenshot of the rendered page. Screenshot options can be sent alongside the file.",
+  })
+  @ApiConsumes("multipart/form-data")
+  @ApiBody({
+    schema: {
+      type: "object",
+      properties: {
+        file: {
+          type: "string",
+          format: "binary",
+          description: "HTML file to render (must be a .html file, max 5MB)",
+        },
+        options: {
+          description:
+            "Screenshot options as a JSON string, or sent as bracketed form fields such as options[format]=jpeg",
+          allOf: [{ $ref: getSchemaPath(ImageOptionsDto) }],
+        },
+        sanitize: {
+          description:
+            "Sanitization options as a JSON string, or sent as bracketed form fields such as sanitize[mode]=strict",
+          allOf: [{ $ref: getSchemaPath(SanitizeOptionsDto) }],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Image generated successfully",
+    content: imageResponseContent,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      "Invalid input - file is missing, too large, not HTML, or the selector matched nothing",
+  })
+  @UseInterceptors(
+    FileInterceptor("file", {
+      limits: {
+        fileSize: 5242880, // 5MB
+      },
+      fileFilter: htmlFileFilter,
+    })
+  )
+  async convertHtmlFileToImage(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: HtmlFileImageDto,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      if (!file) {
+        throw new BadRequestException("No file uploaded");
+      }
+
+      const html = file.buffer.toString();
+      const image = await this.pdfService.convertHtmlToImage(
+        html,
+        dto.options,
+        dto.sanitize
+      );
+      setSanitizeReportHeader(res);
+      setBlockedRequestsHeader(res);
+      this.sendImage(res, image, dto.options?.format);
+    } catch (error) {
+      this.logger.error(
+        `Error converting HTML file to image: ${error.message}`
+      );
+      throw error;
+    }
+  }
+
+  @Post("html-text/image")
+  @RequireScopes("html", "image")
+  @Throttle({
+    short: { ttl: 1000, limit: 2 },
+    medium: { ttl: 60000, limit: 10 },
+  })
+  @ApiOperation({
+    summary: "Convert HTML text to an image",
+    description:
+      "Send HTML content in the request body and receive a PNG, JPEG or WebP screenshot. Capture the full page, the viewport, a clip rectangle or a single element through `options`.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Image generated successfully",
+    content: imageResponseContent,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      "Invalid input - HTML content is missing or invalid, or the selector matched nothing",
+  })
+  async convertHtmlTextToImage(
+    @Body() dto: HtmlTextImageDto,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const image = await this.pdfService.convertHtmlToImage(
+        dto.html,
+        dto.options,
+        dto.sanitize
+      );
+      setSanitizeReportHeader(res);
+      setBlockedRequestsHeader(res);
+      this.sendImage(res, image, dto.options?.format);
+    } catch (error) {
+      this.logger.error(
+        `Error converting HTML text to image: ${error.message}`
+      );
+      throw error;
+    }
+  }
+
+  @Post("url/image")
+  @RequireScopes("url", "image")
+  @Throttle({
+    short: { ttl: 1000, limit: 2 },
+    medium: { ttl: 60000, limit: 10 },
+  })
+  @ApiOperation({
+    summary: "Convert webpage to an image",
+    description:
+      "Take a PNG, JPEG or WebP screenshot of a webpage. If protocol (http:// or https://) is not provided, https:// will be used by default.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Image generated successfully",
+    content: imageResponseContent,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      "Invalid input - URL is missing, malformed, website is inaccessible, or the selector matched nothing",
+  })
+  async convertUrlToImage(
+    @Body() dto: UrlImageDto,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      const image = await this.pdfService.convertUrlToImage(
+        dto.url,
+        dto.options,
+        urlSessionOf(dto)
+      );
+      setSanitizeReportHeader(res);
+      setBlockedRequestsHeader(res);
+      this.sendImage(res, image, dto.options?.format);
+    } catch (error) {
+      this.logger.error(`Error converting URL to image: ${error.message}`);
+      throw error;
+    }
+  }
+
+  @Post("batch")
+  @RequireScopes(batchScopes)
+  @Throttle({
+    short: { ttl: 1000, limit: 1 },
+    medium: { ttl: 60000, limit: 5 },
+  })
+  @ApiOperation({
+    summary: "Convert many HTML snippets or URLs at once",
+    description:
+      "Converts every item with its own options and returns a ZIP of the individual PDFs (default), one merged PDF, or a JSON report of which items failed and why.",
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      "ZIP archive, merged PDF or JSON report depending on the requested output",
+    content: {
+      "application/zip": {
+        schema: {
+          type: "string",
+          format: "binary",
+        },
+      },
+      "application/pdf": {
+        schema: {
+          type: "string",
+          format: "binary",
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: "Invalid input, or every item failed for a merged PDF",
+  })
+  async convertBatch(
+    @Body() dto: BatchDto,
+    @Res() res: Response
+  ): Promise<void> {
     try {
-      const pdf = await this.pdfService.convertUrlToPdf(dto.url);
+      const output = dto.output ?? "zip";
+      const results = await this.batchService.convert(dto.items);
+      const failed = results
+        .filter((result) => result.status === "failed")
+        .map((result) => result.index);
 
+      if (output === "report") {
+        res.json(this.batchService.buildReport(results));
+        return;
+      }
+
+      res.set("X-Batch-Failed-Items", failed.join(","));
+
+      if (output === "merged") {
+        const pdf = await this.batchService.buildMergedPdf(results);
+        res.set({
+          "Content-Type": "application/pdf",
+          "Content-Disposition": "attachment; filename=merged.pdf",
+        });
+        res.send(pdf);
+        return;
+      }
+
+      const zip = await this.batchService.buildZip(results);
       res.set({
-        "Content-Type": "application/pdf",
-        "Content-Disposition": "attachment; filename=converted.pdf",
+        "Content-Type": "application/zip",
+        "Content-Disposition": "attachment; filename=converted.zip",
       });
-      res.send(pdf);
+      res.send(zip);
     } catch (error) {
-      this.logger.error(`Error converting URL: ${error.message}`);
+      this.logger.error(`Error converting batch: ${error.message}`);
       throw error;
     }
   }
+
+  private async convertCached(
+    req: Request,
+    res: Response,
+    conversion: CacheableConversion,
+    convert: () => Promise<Buffer>,
+    mode = cacheMode(req)
+  ): Promise<void> {
+    const result = await this.pdfCacheService.getOrConvert(
+      conversion,
+      mode,
+      convert
+    );
+    setSanitizeReportHeader(res);
+    setBlockedRequestsHeader(res);
+    this.sendPdf(req, res, result);
+  }
+
+  private sendPdf(req: Request, res: Response, result: PdfCacheResult): void {
+    if (result.status !== "off") {
+      res.set("X-Cache", result.status.toUpperCase());
+    }
+    if (result.etag && result.expiresAt) {
+      const maxAge = Math.max(
+        0,
+        Math.floor((result.expiresAt - Date.now()) / 1000)
+      );
+      res.set({
+        ETag: result.etag,
+        "Cache-Control": `private, max-age=${maxAge}`,
+      });
+      if (matchesEtag(req, result.etag)) {
+        res.status(304).end();
+        return;
+      }
+    }
+
+    res.set({
+      "Content-Type": "application/pdf",
+      "Content-Disposition": "attachment; filename=converted.pdf",
+    });
+    res.send(result.pdf);
+  }
+
+  private sendImage(
+    res: Response,
+    image: Buffer,
+    format: ImageFormat = DEFAULT_IMAGE_FORMAT
+  ): void {
+    res.set({
+      "Content-Type": `image/${format}`,
+      "Content-Disposition": `attachment; filename=converted.${format}`,
+    });
+    res.send(image);
+  }
 }
@@ -0,0 +1,81 @@
+import { plainToInstance } from "class-transformer";
+import { validate } from "class-validator";
+import { PdfOptionsDto } from "../pdf-options.dto";
+
+describe("PdfOptionsDto", () => {
+  const errorsOf = async (options: Record<string, unknown>) => {
+    const errors = await validate(plainToInstance(PdfOptionsDto, options));
+    return Object.fromEntries(
+      errors.map((error) => [
+        error.property,
+        Object.values(error.constraints ?? {}),
+      ])
+    );
+  };
+
+  it("should accept a paper format and layout options", async () => {
+    expect(
+      await errorsOf({
+        format: "Letter",
+        orientation: "landscape",
+        margin: { top: "20mm", right: "0", bottom: "1.5cm", left: "40px" },
+        scale: 1.2,
+        pageRanges: "1-5, 8, 11-13",
+        printBackground: false,
+        preferCSSPageSize: true,
+      })
+    ).toEqual({});
+  });
+
+  it.each(["8.5in", "210mm", "21cm", "816px", "816"])(
+    "should accept %s as a page dimension",
+    async (length) => {
+      expect(await errorsOf({ width: length, height: length })).toEqual({});
+    }
+  );
+
+  it.each(["8.5 in", "8.5pt", "-10mm", "auto", "10%"])(
+    "should reject %s as a page dimension",
+    async (length) => {
+      const errors = await errorsOf({ width: length, height: length });
+
+      expect(Object.keys(errors).sort()).toEqual(["height", "width"]);
+    }
+  );
+
+  it("should check a width sent alone and ask for the height", async () => {
+    const errors = await errorsOf({ width: "8.5pt" });
+
+    expect(errors.width).toEqual([
+      "width must be a number with an optional unit (px, in, cm or mm)",
+    ]);
+    expect(errors.height).toContain("height is required when width is set");
+  });
+
+  it("should check a height sent alone and ask for the width", async () => {
+    const errors = await errorsOf({ height: "11ft" });
+
+    expect(errors.height).toEqual([
+      "height must be a number with an optional unit (px, in, cm or mm)",
+    ]);
+    expect(errors.width).toContain("width is required when height is set");
+  });
+
+  it("should reject unknown formats, orientations and page ranges", async () => {
+    const errors = await errorsOf({
+      format: "B5",
+      orientation: "sideways",
+      scale: 3,
+      pageRanges: "first",
+      margin: { top: "1em" },
+    });
+
+    expect(Object.keys(errors).sort()).toEqual([
+      "format",
+      "margin",
+      "orientation",
+      "pageRanges",
+      "scale",
+    ]);
+  });
+});
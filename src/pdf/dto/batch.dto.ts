@@ -0,0 +1,116 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import {
+  BATCH_OUTPUT_FORMATS,
+  BatchOutputFormat,
+  MAX_BATCH_ITEMS,
+} from "../constants/pdf.constants";
+import { PdfOptionsDto } from "./pdf-options.dto";
+import { SanitizeOptionsDto } from "./sanitize-options.dto";
+
+export class BatchItemDto {
+  @ApiPropertyOptional({
+    description: "HTML content to convert. Provide either html or url.",
+    example: "<html><body><h1>Invoice 1</h1></body></html>",
+  })
+  @ValidateIf((item: BatchItemDto) => item.url === undefined)
+  @IsString()
+  @IsNotEmpty()
+  html?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "URL to convert. Provide either html or url. If protocol is not provided, https:// will be used.",
+    example: "https://www.example.com",
+  })
+  @ValidateIf((item: BatchItemDto) => item.html === undefined)
+  @IsString()
+  @IsUrl(
+    {
+      require_protocol: true,
+      require_valid_protocol: true,
+      protocols: ["http", "https"],
+    },
+    {
+      message: "Please provide a valid URL with http:// or https:// protocol",
+    }
+  )
+  @IsNotEmpty()
+  @Transform(({ value }) => {
+    if (
+      typeof value === "string" &&
+      !value.startsWith("http://") &&
+      !value.startsWith("https://")
+    ) {
+      return `https://${value}`;
+    }
+    return value;
+  })
+  url?: string;
+
+  @ApiPropertyOptional({
+    description: "PDF layout options for this item",
+    type: PdfOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  options?: PdfOptionsDto;
+
+  @ApiPropertyOptional({
+    description: "Sanitization of this item's HTML and whether JavaScript runs",
+    type: SanitizeOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SanitizeOptionsDto)
+  sanitize?: SanitizeOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "File name of this item inside the ZIP. Defaults to document-<n>.pdf.",
+    example: "invoice-1.pdf",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  @Matches(/^[^/\\]+$/, { message: "filename must not contain slashes" })
+  filename?: string;
+}
+
+export class BatchDto {
+  @ApiProperty({
+    description: `Items to convert (1 to ${MAX_BATCH_ITEMS})`,
+    type: [BatchItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => BatchItemDto)
+  items: BatchItemDto[];
+
+  @ApiPropertyOptional({
+    description:
+      "zip returns one PDF per item plus report.json, merged returns a single PDF, report returns only the JSON report",
+    enum: BATCH_OUTPUT_FORMATS,
+    default: "zip",
+  })
+  @IsOptional()
+  @IsIn(BATCH_OUTPUT_FORMATS)
+  output?: BatchOutputFormat;
+}
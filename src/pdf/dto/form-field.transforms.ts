@@ -0,0 +1,50 @@
+import {
+  ClassConstructor,
+  TransformFnParams,
+  plainToInstance,
+} from "class-transformer";
+
+// Multipart form fields always arrive as strings, so the DTOs that are also
+// accepted on upload endpoints convert them back to their JSON types.
+
+export const toBoolean = ({ value }: TransformFnParams) => {
+  if (value === "true" || value === "1") {
+    return true;
+  }
+  if (value === "false" || value === "0") {
+    return false;
+  }
+  return value;
+};
+
+export const toNumber = ({ value }: TransformFnParams) => {
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? value : parsed;
+  }
+  return value;
+};
+
+// Lists may be sent as one comma separated field
+export const toList = ({ value }: TransformFnParams) =>
+  typeof value === "string"
+    ? value
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean)
+    : value;
+
+// Nested objects may also be sent as a single JSON-encoded form field. Custom
+// transforms run after @Type, so the parsed value is instantiated here.
+export const parseJsonAs =
+  <T>(type: ClassConstructor<T>) =>
+  ({ value }: TransformFnParams) => {
+    if (typeof value !== "string") {
+      return value;
+    }
+    try {
+      return plainToInstance(type, JSON.parse(value));
+    } catch {
+      return value;
+    }
+  };
@@ -0,0 +1,45 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from "class-validator";
+import { parseJsonAs } from "./form-field.transforms";
+import { PdfOptionsDto } from "./pdf-options.dto";
+import { SanitizeOptionsDto } from "./sanitize-options.dto";
+
+export class HtmlFileDto {
+  @ApiPropertyOptional({
+    description:
+      "Path of the HTML document inside an uploaded bundle. Defaults to index.html, or the only HTML file.",
+    example: "report/index.html",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  entry?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "PDF layout options, either as a JSON string or as bracketed form fields such as options[format]",
+    type: PdfOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(PdfOptionsDto))
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  options?: PdfOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Sanitization of the HTML and whether JavaScript runs, either as a JSON string or as bracketed form fields such as sanitize[mode]",
+    type: SanitizeOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(SanitizeOptionsDto))
+  @ValidateNested()
+  @Type(() => SanitizeOptionsDto)
+  sanitize?: SanitizeOptionsDto;
+}
@@ -1,5 +1,13 @@
-import { ApiProperty } from "@nestjs/swagger";
-import { IsNotEmpty, IsString } from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import { PdfOptionsDto } from "./pdf-options.dto";
+import { SanitizeOptionsDto } from "./sanitize-options.dto";
 
 export class HtmlTextDto {
   @ApiProperty({
@@ -10,4 +18,22 @@ export class HtmlTextDto {
   @IsString()
   @IsNotEmpty()
   html: string;
+
+  @ApiPropertyOptional({
+    description: "PDF layout options",
+    type: PdfOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  options?: PdfOptionsDto;
+
+  @ApiPropertyOptional({
+    description: "Sanitization of the HTML and whether JavaScript runs",
+    type: SanitizeOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SanitizeOptionsDto)
+  sanitize?: SanitizeOptionsDto;
 }
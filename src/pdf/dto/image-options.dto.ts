@@ -0,0 +1,191 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { MAX_REQUESTED_FONTS } from "../../fonts/constants/font.constants";
+import {
+  DEFAULT_IMAGE_FORMAT,
+  IMAGE_FORMATS,
+  ImageFormat,
+} from "../constants/pdf.constants";
+import {
+  parseJsonAs,
+  toBoolean,
+  toList,
+  toNumber,
+} from "./form-field.transforms";
+import { IsLocaleTag, IsTimezone } from "./locale.validators";
+import { ResourcePolicyDto } from "./resource-policy.dto";
+import { WaitForOptionsDto } from "./wait-for-options.dto";
+
+export class ImageClipDto {
+  @ApiProperty({ description: "Left edge of the clip area in CSS pixels" })
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0)
+  x: number;
+
+  @ApiProperty({ description: "Top edge of the clip area in CSS pixels" })
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0)
+  y: number;
+
+  @ApiProperty({ description: "Width of the clip area in CSS pixels" })
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(1)
+  width: number;
+
+  @ApiProperty({ description: "Height of the clip area in CSS pixels" })
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(1)
+  height: number;
+}
+
+export class ImageOptionsDto {
+  @ApiPropertyOptional({
+    description: "Image format",
+    enum: IMAGE_FORMATS,
+    default: DEFAULT_IMAGE_FORMAT,
+  })
+  @IsOptional()
+  @IsIn(IMAGE_FORMATS)
+  format?: ImageFormat;
+
+  @ApiPropertyOptional({
+    description: "Compression quality, ignored for PNG",
+    minimum: 0,
+    maximum: 100,
+    example: 80,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  quality?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Capture the full scrollable page instead of the viewport. Ignored when clip or selector is set.",
+    default: true,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  fullPage?: boolean;
+
+  @ApiPropertyOptional({
+    description: "Capture only this rectangle of the page",
+    type: ImageClipDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(ImageClipDto))
+  @ValidateNested()
+  @Type(() => ImageClipDto)
+  clip?: ImageClipDto;
+
+  @ApiPropertyOptional({
+    description: "CSS selector of a single element to capture",
+    example: "#chart",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  selector?: string;
+
+  @ApiPropertyOptional({
+    description: "Device pixel ratio, e.g. 2 for retina-quality images",
+    minimum: 0.1,
+    maximum: 4,
+    default: 1,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0.1)
+  @Max(4)
+  deviceScaleFactor?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Render a transparent background instead of white. Not supported for JPEG.",
+    default: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  omitBackground?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Readiness conditions to wait for before rendering, on top of the page load. All of them must be met.",
+    type: WaitForOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(WaitForOptionsDto))
+  @ValidateNested()
+  @Type(() => WaitForOptionsDto)
+  waitFor?: WaitForOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Which subresources the page may load, on top of the server default. Main document navigations are never blocked.",
+    type: ResourcePolicyDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(ResourcePolicyDto))
+  @ValidateNested()
+  @Type(() => ResourcePolicyDto)
+  resources?: ResourcePolicyDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Installed font families the document needs, see GET /fonts. The conversion fails with FONT_NOT_FOUND when one is missing.",
+    type: [String],
+    example: ["Corporate Sans", "Noto Sans JP"],
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayMaxSize(MAX_REQUESTED_FONTS)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  fonts?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      "BCP 47 locale of the page: Accept-Language, navigator.language, Intl formatting and header/footer dates. Defaults to PDF_LOCALE.",
+    example: "de-DE",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(35)
+  @IsLocaleTag()
+  locale?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "IANA timezone the page runs in and header/footer dates are shown in. Defaults to PDF_TIMEZONE or the server timezone.",
+    example: "Europe/Berlin",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  @IsTimezone()
+  timezone?: string;
+}
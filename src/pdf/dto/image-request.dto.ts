@@ -0,0 +1,63 @@
+import { ApiPropertyOptional, PickType } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import { IsOptional, ValidateNested } from "class-validator";
+import { parseJsonAs } from "./form-field.transforms";
+import { HtmlTextDto } from "./html-text.dto";
+import { ImageOptionsDto } from "./image-options.dto";
+import { SanitizeOptionsDto } from "./sanitize-options.dto";
+import { UrlDto } from "./url.dto";
+
+export class HtmlTextImageDto extends PickType(HtmlTextDto, [
+  "html",
+  "sanitize",
+] as const) {
+  @ApiPropertyOptional({
+    description: "Screenshot options",
+    type: ImageOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ImageOptionsDto)
+  options?: ImageOptionsDto;
+}
+
+export class UrlImageDto extends PickType(UrlDto, [
+  "url",
+  "cookies",
+  "headers",
+  "basicAuth",
+  "localStorage",
+] as const) {
+  @ApiPropertyOptional({
+    description: "Screenshot options",
+    type: ImageOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ImageOptionsDto)
+  options?: ImageOptionsDto;
+}
+
+export class HtmlFileImageDto {
+  @ApiPropertyOptional({
+    description:
+      "Screenshot options, either as a JSON string or as bracketed form fields such as options[format]",
+    type: ImageOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(ImageOptionsDto))
+  @ValidateNested()
+  @Type(() => ImageOptionsDto)
+  options?: ImageOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Sanitization of the HTML and whether JavaScript runs, either as a JSON string or as bracketed form fields such as sanitize[mode]",
+    type: SanitizeOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(SanitizeOptionsDto))
+  @ValidateNested()
+  @Type(() => SanitizeOptionsDto)
+  sanitize?: SanitizeOptionsDto;
+}
@@ -0,0 +1,24 @@
+import { ValidateBy } from "class-validator";
+import { isValidLocale, isValidTimezone } from "../utils/locale.util";
+
+export const IsLocaleTag = () =>
+  ValidateBy({
+    name: "isLocaleTag",
+    validator: {
+      validate: (value: unknown) =>
+        typeof value === "string" && isValidLocale(value),
+      defaultMessage: (args) =>
+        `${args?.property} must be a BCP 47 language tag such as de-DE`,
+    },
+  });
+
+export const IsTimezone = () =>
+  ValidateBy({
+    name: "isTimezone",
+    validator: {
+      validate: (value: unknown) =>
+        typeof value === "string" && isValidTimezone(value),
+      defaultMessage: (args) =>
+        `${args?.property} must be an IANA timezone such as Europe/Berlin`,
+    },
+  });
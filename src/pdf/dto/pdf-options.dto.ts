@@ -0,0 +1,279 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDefined,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { MAX_REQUESTED_FONTS } from "../../fonts/constants/font.constants";
+import {
+  CSS_LENGTH_PATTERN,
+  PAGE_RANGES_PATTERN,
+  PAPER_FORMATS,
+  PDF_ORIENTATIONS,
+  PdfOrientation,
+  PdfPaperFormat,
+} from "../constants/pdf.constants";
+import {
+  HEADER_FOOTER_PRESET_NAMES,
+  HeaderFooterPreset,
+} from "../templates/header-footer.templates";
+import {
+  parseJsonAs,
+  toBoolean,
+  toList,
+  toNumber,
+} from "./form-field.transforms";
+import { IsLocaleTag, IsTimezone } from "./locale.validators";
+import { ResourcePolicyDto } from "./resource-policy.dto";
+import { WaitForOptionsDto } from "./wait-for-options.dto";
+import { WatermarkOptionsDto } from "./watermark-options.dto";
+
+const CSS_LENGTH_MESSAGE =
+  "$property must be a number with an optional unit (px, in, cm or mm)";
+
+// Width and height come as a pair, each checked whichever of them is sent
+const hasPageSize = (options: PdfOptionsDto) =>
+  options.width !== undefined || options.height !== undefined;
+
+export class PdfMarginDto {
+  @ApiPropertyOptional({ description: "Top margin", example: "20mm" })
+  @IsOptional()
+  @IsString()
+  @Matches(CSS_LENGTH_PATTERN, { message: CSS_LENGTH_MESSAGE })
+  top?: string;
+
+  @ApiPropertyOptional({ description: "Right margin", example: "15mm" })
+  @IsOptional()
+  @IsString()
+  @Matches(CSS_LENGTH_PATTERN, { message: CSS_LENGTH_MESSAGE })
+  right?: string;
+
+  @ApiPropertyOptional({ description: "Bottom margin", example: "20mm" })
+  @IsOptional()
+  @IsString()
+  @Matches(CSS_LENGTH_PATTERN, { message: CSS_LENGTH_MESSAGE })
+  bottom?: string;
+
+  @ApiPropertyOptional({ description: "Left margin", example: "15mm" })
+  @IsOptional()
+  @IsString()
+  @Matches(CSS_LENGTH_PATTERN, { message: CSS_LENGTH_MESSAGE })
+  left?: string;
+}
+
+export class PdfOptionsDto {
+  @ApiPropertyOptional({
+    description:
+      "Paper format. Ignored when both width and height are provided.",
+    enum: PAPER_FORMATS,
+    default: "A4",
+  })
+  @IsOptional()
+  @IsIn(PAPER_FORMATS)
+  format?: PdfPaperFormat;
+
+  @ApiPropertyOptional({
+    description: "Custom paper width (requires height)",
+    example: "8.5in",
+  })
+  @ValidateIf(hasPageSize)
+  @IsDefined({ message: "width is required when height is set" })
+  @IsString()
+  @Matches(CSS_LENGTH_PATTERN, { message: CSS_LENGTH_MESSAGE })
+  width?: string;
+
+  @ApiPropertyOptional({
+    description: "Custom paper height (requires width)",
+    example: "11in",
+  })
+  @ValidateIf(hasPageSize)
+  @IsDefined({ message: "height is required when width is set" })
+  @IsString()
+  @Matches(CSS_LENGTH_PATTERN, { message: CSS_LENGTH_MESSAGE })
+  height?: string;
+
+  @ApiPropertyOptional({
+    description: "Page orientation",
+    enum: PDF_ORIENTATIONS,
+    default: "portrait",
+  })
+  @IsOptional()
+  @IsIn(PDF_ORIENTATIONS)
+  orientation?: PdfOrientation;
+
+  @ApiPropertyOptional({
+    description:
+      "Page margins. Use 0 on every side for edge-to-edge documents.",
+    type: PdfMarginDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(PdfMarginDto))
+  @ValidateNested()
+  @Type(() => PdfMarginDto)
+  margin?: PdfMarginDto;
+
+  @ApiPropertyOptional({
+    description: "Scale of the webpage rendering",
+    minimum: 0.1,
+    maximum: 2,
+    default: 0.8,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0.1)
+  @Max(2)
+  scale?: number;
+
+  @ApiPropertyOptional({
+    description: "Pages to print, e.g. '1-5, 8, 11-13'. Empty means all pages.",
+    example: "1-3",
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(PAGE_RANGES_PATTERN, {
+    message: "pageRanges must look like '1-5, 8, 11-13'",
+  })
+  pageRanges?: string;
+
+  @ApiPropertyOptional({
+    description: "Print background graphics",
+    default: true,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  printBackground?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Give any CSS @page size declared in the page priority over format, width and height",
+    default: false,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  preferCSSPageSize?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Print a header and footer on every page. Set to false to disable them entirely.",
+    default: true,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  displayHeaderFooter?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      "Named server-side header/footer preset. Defaults to the configured preset when no custom template is given.",
+    enum: HEADER_FOOTER_PRESET_NAMES,
+  })
+  @IsOptional()
+  @IsIn(HEADER_FOOTER_PRESET_NAMES)
+  headerFooterPreset?: HeaderFooterPreset;
+
+  @ApiPropertyOptional({
+    description:
+      "Custom header HTML. Supports the {{pageNumber}}, {{totalPages}}, {{date}}, {{time}}, {{title}} and {{url}} placeholders. Styles must be inline.",
+    example:
+      '<div style="font-size: 9px; width: 100%; text-align: center;">{{title}}</div>',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20000)
+  headerTemplate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Custom footer HTML. Supports the same placeholders as headerTemplate.",
+    example:
+      '<div style="font-size: 9px; width: 100%; text-align: center;">Page {{pageNumber}} of {{totalPages}}</div>',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(20000)
+  footerTemplate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Watermark stamped onto the generated pages. Overrides the server-wide watermark configuration.",
+    type: WatermarkOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(WatermarkOptionsDto))
+  @ValidateNested()
+  @Type(() => WatermarkOptionsDto)
+  watermark?: WatermarkOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Readiness conditions to wait for before rendering, on top of the page load. All of them must be met.",
+    type: WaitForOptionsDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(WaitForOptionsDto))
+  @ValidateNested()
+  @Type(() => WaitForOptionsDto)
+  waitFor?: WaitForOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Which subresources the page may load, on top of the server default. Main document navigations are never blocked.",
+    type: ResourcePolicyDto,
+  })
+  @IsOptional()
+  @Transform(parseJsonAs(ResourcePolicyDto))
+  @ValidateNested()
+  @Type(() => ResourcePolicyDto)
+  resources?: ResourcePolicyDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Installed font families the document needs, see GET /fonts. The conversion fails with FONT_NOT_FOUND when one is missing.",
+    type: [String],
+    example: ["Corporate Sans", "Noto Sans JP"],
+  })
+  @IsOptional()
+  @Transform(toList)
+  @IsArray()
+  @ArrayMaxSize(MAX_REQUESTED_FONTS)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  fonts?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      "BCP 47 locale of the page: Accept-Language, navigator.language, Intl formatting and header/footer dates. Defaults to PDF_LOCALE.",
+    example: "de-DE",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(35)
+  @IsLocaleTag()
+  locale?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "IANA timezone the page runs in and header/footer dates are shown in. Defaults to PDF_TIMEZONE or the server timezone.",
+    example: "Europe/Berlin",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(64)
+  @IsTimezone()
+  timezone?: string;
+}
@@ -0,0 +1,66 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from "class-validator";
+import {
+  MAX_RESOURCE_POLICY_PATTERNS,
+  RESOURCE_TYPES,
+  ResourceType,
+} from "../constants/pdf.constants";
+
+const URL_PATTERN_DESCRIPTION =
+  "Patterns without a slash match host names, where a bare domain also matches its subdomains; patterns with a slash match the whole URL. * matches any characters.";
+
+export class ResourcePolicyDto {
+  @ApiPropertyOptional({
+    description:
+      "Resource types to load even when the server default blocks them",
+    enum: RESOURCE_TYPES,
+    isArray: true,
+    example: ["font"],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(RESOURCE_TYPES, { each: true })
+  allowTypes?: ResourceType[];
+
+  @ApiPropertyOptional({
+    description: "Resource types to block",
+    enum: RESOURCE_TYPES,
+    isArray: true,
+    example: ["media"],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(RESOURCE_TYPES, { each: true })
+  blockTypes?: ResourceType[];
+
+  @ApiPropertyOptional({
+    description: `URLs to load whatever their type. ${URL_PATTERN_DESCRIPTION}`,
+    type: [String],
+    example: ["fonts.gstatic.com", "https://cdn.example.com/fonts/*"],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_RESOURCE_POLICY_PATTERNS)
+  @IsString({ each: true })
+  @MaxLength(500, { each: true })
+  allowUrls?: string[];
+
+  @ApiPropertyOptional({
+    description: `URLs to block whatever their type. ${URL_PATTERN_DESCRIPTION}`,
+    type: [String],
+    example: ["doubleclick.net", "google-analytics.com", "*.hotjar.com"],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_RESOURCE_POLICY_PATTERNS)
+  @IsString({ each: true })
+  @MaxLength(500, { each: true })
+  blockUrls?: string[];
+}
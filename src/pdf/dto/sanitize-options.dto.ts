@@ -0,0 +1,26 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import { IsBoolean, IsIn, IsOptional } from "class-validator";
+import { SANITIZE_MODES, SanitizeMode } from "../constants/pdf.constants";
+import { toBoolean } from "./form-field.transforms";
+
+export class SanitizeOptionsDto {
+  @ApiPropertyOptional({
+    description:
+      "off renders the HTML as is, scripts removes scripts, frames, embedded objects, event handler attributes and javascript: URLs, strict keeps only an allow-list of tags, attributes and URL schemes. The server default and the API key's setting are minimums; the strictest mode wins.",
+    enum: SANITIZE_MODES,
+    example: "scripts",
+  })
+  @IsOptional()
+  @IsIn(SANITIZE_MODES)
+  mode?: SanitizeMode;
+
+  @ApiPropertyOptional({
+    description: "Set to false to render the page with JavaScript disabled",
+    default: true,
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  javascript?: boolean;
+}
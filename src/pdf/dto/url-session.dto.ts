@@ -0,0 +1,62 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from "class-validator";
+import {
+  HTTP_HEADER_NAME_PATTERN,
+  MAX_URL_SESSION_VALUE_LENGTH,
+} from "../constants/pdf.constants";
+
+export class CookieDto {
+  @ApiProperty({ description: "Cookie name", example: "session" })
+  @IsString()
+  @Matches(HTTP_HEADER_NAME_PATTERN, {
+    message: "cookie name must be a valid token",
+  })
+  @MaxLength(256)
+  name: string;
+
+  @ApiProperty({ description: "Cookie value", example: "d41d8cd98f00b204" })
+  @IsString()
+  @Matches(/^[^;\r\n]*$/, {
+    message: "cookie value must not contain semicolons or line breaks",
+  })
+  @MaxLength(MAX_URL_SESSION_VALUE_LENGTH)
+  value: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Domain the cookie is sent to, with a leading dot for subdomains. Defaults to the host of the URL.",
+    example: ".example.com",
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\.?[a-zA-Z0-9.-]+$/, { message: "domain must be a host name" })
+  @MaxLength(253)
+  domain?: string;
+
+  @ApiPropertyOptional({ description: "Cookie path", default: "/" })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\/[^;\r\n]*$/, { message: "path must start with /" })
+  @MaxLength(1024)
+  path?: string;
+}
+
+export class BasicAuthDto {
+  @ApiProperty({ description: "User name", example: "reports" })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[^:]*$/, { message: "username must not contain a colon" })
+  @MaxLength(256)
+  username: string;
+
+  @ApiProperty({ description: "Password" })
+  @IsString()
+  @MaxLength(256)
+  password: string;
+}
@@ -1,6 +1,48 @@
-import { ApiProperty } from "@nestjs/swagger";
-import { Transform } from "class-transformer";
-import { IsNotEmpty, IsString, IsUrl } from "class-validator";
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform, Type } from "class-transformer";
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  ValidateBy,
+  ValidateNested,
+} from "class-validator";
+import {
+  FORBIDDEN_REQUEST_HEADERS,
+  HTTP_HEADER_NAME_PATTERN,
+  MAX_URL_SESSION_ENTRIES,
+  MAX_URL_SESSION_VALUE_LENGTH,
+} from "../constants/pdf.constants";
+import { PdfOptionsDto } from "./pdf-options.dto";
+import { BasicAuthDto, CookieDto } from "./url-session.dto";
+
+// An object of at most MAX_URL_SESSION_ENTRIES string values of limited
+// length, whose keys and values pass the given checks
+const IsStringRecord = (
+  isEntry: (key: string, value: string) => boolean,
+  description: string
+) =>
+  ValidateBy({
+    name: "isStringRecord",
+    validator: {
+      validate: (value: unknown) =>
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.keys(value).length <= MAX_URL_SESSION_ENTRIES &&
+        Object.entries(value).every(
+          ([key, field]) =>
+            typeof field === "string" &&
+            field.length <= MAX_URL_SESSION_VALUE_LENGTH &&
+            isEntry(key, field)
+        ),
+      defaultMessage: (args) =>
+        `${args?.property} must be an object of at most ${MAX_URL_SESSION_ENTRIES} ${description} of up to ${MAX_URL_SESSION_VALUE_LENGTH} characters`,
+    },
+  });
 
 export class UrlDto {
   @ApiProperty({
@@ -42,4 +84,66 @@ export class UrlDto {
     return value;
   })
   url: string;
+
+  @ApiPropertyOptional({
+    description: "PDF layout options",
+    type: PdfOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  options?: PdfOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Cookies set in the browser before navigating, e.g. a session cookie for pages behind a login",
+    type: [CookieDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_URL_SESSION_ENTRIES)
+  @ValidateNested({ each: true })
+  @Type(() => CookieDto)
+  cookies?: CookieDto[];
+
+  @ApiPropertyOptional({
+    description:
+      "Extra HTTP headers sent with every request to the origin of the URL, but not to other origins",
+    type: "object",
+    additionalProperties: { type: "string" },
+    example: { Authorization: "Bearer eyJhbGciOi..." },
+  })
+  @IsOptional()
+  @IsStringRecord(
+    (name, value) =>
+      HTTP_HEADER_NAME_PATTERN.test(name) &&
+      !FORBIDDEN_REQUEST_HEADERS.includes(name.toLowerCase()) &&
+      !/[\r\n]/.test(value),
+    "allowed header names with single-line values"
+  )
+  headers?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    description:
+      "HTTP basic auth credentials, sent to the origin of the URL only",
+    type: BasicAuthDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BasicAuthDto)
+  basicAuth?: BasicAuthDto;
+
+  @ApiPropertyOptional({
+    description:
+      "localStorage entries for the origin of the URL, written before the page's scripts run",
+    type: "object",
+    additionalProperties: { type: "string" },
+    example: { token: "eyJhbGciOi..." },
+  })
+  @IsOptional()
+  @IsStringRecord(
+    (key) => key.length > 0 && key.length <= 256,
+    "keys with string values"
+  )
+  localStorage?: Record<string, string>;
 }
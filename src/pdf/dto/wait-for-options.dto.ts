@@ -0,0 +1,96 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import {
+  DEFAULT_WAIT_FOR_TIMEOUT,
+  MAX_WAIT_FOR_DELAY,
+  MAX_WAIT_FOR_TIMEOUT,
+  WAIT_FOR_EVENT_PATTERN,
+} from "../constants/pdf.constants";
+import { toNumber } from "./form-field.transforms";
+
+export class WaitForOptionsDto {
+  @ApiPropertyOptional({
+    description: "Wait until an element matching this CSS selector exists",
+    example: "#chart svg",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  selector?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Wait until no visible element matches this CSS selector, e.g. a loading spinner",
+    example: ".spinner",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  hiddenSelector?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Wait until this JavaScript expression evaluates to a truthy value in the page",
+    example: "window.charts && window.charts.every((chart) => chart.rendered)",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  expression?: string;
+
+  @ApiPropertyOptional({
+    description: "Wait until the page sets window.status to this value",
+    example: "ready",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  windowStatus?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Wait until the page dispatches a DOM event of this type, on any target",
+    example: "charts-rendered",
+  })
+  @IsOptional()
+  @Matches(WAIT_FOR_EVENT_PATTERN, {
+    message: "event must be an event type of letters, digits, _ . : or -",
+  })
+  event?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Fixed delay in milliseconds, waited after the other conditions are met",
+    minimum: 0,
+    maximum: MAX_WAIT_FOR_DELAY,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_WAIT_FOR_DELAY)
+  delay?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Limit in milliseconds for the conditions, the delay and rendering together, counted once the page has loaded",
+    minimum: 1,
+    maximum: MAX_WAIT_FOR_TIMEOUT,
+    default: DEFAULT_WAIT_FOR_TIMEOUT,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_WAIT_FOR_TIMEOUT)
+  timeout?: number;
+}
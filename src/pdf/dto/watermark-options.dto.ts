@@ -0,0 +1,133 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Transform } from "class-transformer";
+import {
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import {
+  HEX_COLOR_PATTERN,
+  WATERMARK_PAGES_PATTERN,
+  WATERMARK_POSITIONS,
+  WatermarkPosition,
+} from "../constants/pdf.constants";
+import { toBoolean, toNumber } from "./form-field.transforms";
+
+export class WatermarkOptionsDto {
+  @ApiPropertyOptional({
+    description:
+      "Apply the watermark. Defaults to true when text or image is given, otherwise to the server configuration.",
+  })
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: "Watermark text",
+    example: "CONFIDENTIAL",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  text?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Base64 encoded PNG or JPEG image (a data URL is accepted). Takes precedence over text. On file uploads, send the image as the watermarkImage field instead.",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(7 * 1024 * 1024)
+  image?: string;
+
+  @ApiPropertyOptional({
+    description: "Where the watermark is placed on the page",
+    enum: WATERMARK_POSITIONS,
+    default: "bottom-right",
+  })
+  @IsOptional()
+  @IsIn(WATERMARK_POSITIONS)
+  position?: WatermarkPosition;
+
+  @ApiPropertyOptional({
+    description:
+      "Rotation in degrees, counter-clockwise. Diagonal and tiled watermarks follow the page diagonal by default.",
+    minimum: -360,
+    maximum: 360,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(-360)
+  @Max(360)
+  rotation?: number;
+
+  @ApiPropertyOptional({
+    description: "Opacity between 0 (invisible) and 1 (opaque)",
+    minimum: 0,
+    maximum: 1,
+    default: 0.3,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  opacity?: number;
+
+  @ApiPropertyOptional({
+    description: "Font size of text watermarks in points",
+    minimum: 4,
+    maximum: 300,
+    default: 24,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(4)
+  @Max(300)
+  fontSize?: number;
+
+  @ApiPropertyOptional({
+    description: "Text colour as a hex value",
+    example: "#ff0000",
+    default: "#666666",
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(HEX_COLOR_PATTERN, { message: "color must be a hex colour" })
+  color?: string;
+
+  @ApiPropertyOptional({
+    description:
+      "Image width as a fraction of the page width (image watermarks only)",
+    minimum: 0.01,
+    maximum: 1,
+    default: 0.3,
+  })
+  @IsOptional()
+  @Transform(toNumber)
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  imageScale?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Pages to stamp: all, first, last, odd, even or 1-based ranges such as '1-3, 5'",
+    default: "all",
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(WATERMARK_PAGES_PATTERN, {
+    message: "pages must be all, first, last, odd, even or a page range",
+  })
+  pages?: string;
+}
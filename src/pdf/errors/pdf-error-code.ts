@@ -0,0 +1,74 @@
+import { HttpStatus } from "@nestjs/common";
+
+/** Stable, machine readable error codes returned in every error response. */
+export enum PdfErrorCode {
+  INVALID_REQUEST = "INVALID_REQUEST",
+  UNAUTHORIZED = "UNAUTHORIZED",
+  FORBIDDEN = "FORBIDDEN",
+  URL_BLOCKED = "URL_BLOCKED",
+  NOT_FOUND = "NOT_FOUND",
+  PAYLOAD_TOO_LARGE = "PAYLOAD_TOO_LARGE",
+  RATE_LIMITED = "RATE_LIMITED",
+  RENDER_FAILED = "RENDER_FAILED",
+  TEMPLATE_RENDER_FAILED = "TEMPLATE_RENDER_FAILED",
+  WATERMARK_FAILED = "WATERMARK_FAILED",
+  FONT_NOT_FOUND = "FONT_NOT_FOUND",
+  DNS_RESOLUTION_FAILED = "DNS_RESOLUTION_FAILED",
+  CONNECTION_FAILED = "CONNECTION_FAILED",
+  NAVIGATION_FAILED = "NAVIGATION_FAILED",
+  UPSTREAM_HTTP_ERROR = "UPSTREAM_HTTP_ERROR",
+  NAVIGATION_TIMEOUT = "NAVIGATION_TIMEOUT",
+  RENDER_TIMEOUT = "RENDER_TIMEOUT",
+  WAIT_TIMEOUT = "WAIT_TIMEOUT",
+  BROWSER_CRASHED = "BROWSER_CRASHED",
+  SERVICE_UNAVAILABLE = "SERVICE_UNAVAILABLE",
+  INTERNAL_ERROR = "INTERNAL_ERROR",
+}
+
+/**
+ * HTTP status of each code: 400 for requests that can never succeed, 422 for
+ * valid requests whose content fails to render, 502 when the target site
+ * fails, 504 on timeouts and 503 when the service itself cannot take work.
+ */
+export const PDF_ERROR_STATUS: Record<PdfErrorCode, HttpStatus> = {
+  [PdfErrorCode.INVALID_REQUEST]: HttpStatus.BAD_REQUEST,
+  [PdfErrorCode.UNAUTHORIZED]: HttpStatus.UNAUTHORIZED,
+  [PdfErrorCode.FORBIDDEN]: HttpStatus.FORBIDDEN,
+  [PdfErrorCode.URL_BLOCKED]: HttpStatus.FORBIDDEN,
+  [PdfErrorCode.NOT_FOUND]: HttpStatus.NOT_FOUND,
+  [PdfErrorCode.PAYLOAD_TOO_LARGE]: HttpStatus.PAYLOAD_TOO_LARGE,
+  [PdfErrorCode.RATE_LIMITED]: HttpStatus.TOO_MANY_REQUESTS,
+  [PdfErrorCode.RENDER_FAILED]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [PdfErrorCode.TEMPLATE_RENDER_FAILED]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [PdfErrorCode.WATERMARK_FAILED]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [PdfErrorCode.FONT_NOT_FOUND]: HttpStatus.UNPROCESSABLE_ENTITY,
+  [PdfErrorCode.DNS_RESOLUTION_FAILED]: HttpStatus.BAD_GATEWAY,
+  [PdfErrorCode.CONNECTION_FAILED]: HttpStatus.BAD_GATEWAY,
+  [PdfErrorCode.NAVIGATION_FAILED]: HttpStatus.BAD_GATEWAY,
+  [PdfErrorCode.UPSTREAM_HTTP_ERROR]: HttpStatus.BAD_GATEWAY,
+  [PdfErrorCode.NAVIGATION_TIMEOUT]: HttpStatus.GATEWAY_TIMEOUT,
+  [PdfErrorCode.RENDER_TIMEOUT]: HttpStatus.GATEWAY_TIMEOUT,
+  [PdfErrorCode.WAIT_TIMEOUT]: HttpStatus.GATEWAY_TIMEOUT,
+  [PdfErrorCode.BROWSER_CRASHED]: HttpStatus.SERVICE_UNAVAILABLE,
+  [PdfErrorCode.SERVICE_UNAVAILABLE]: HttpStatus.SERVICE_UNAVAILABLE,
+  [PdfErrorCode.INTERNAL_ERROR]: HttpStatus.INTERNAL_SERVER_ERROR,
+};
+
+const STATUS_CODES: Partial<Record<number, PdfErrorCode>> = {
+  [HttpStatus.UNAUTHORIZED]: PdfErrorCode.UNAUTHORIZED,
+  [HttpStatus.FORBIDDEN]: PdfErrorCode.FORBIDDEN,
+  [HttpStatus.NOT_FOUND]: PdfErrorCode.NOT_FOUND,
+  [HttpStatus.PAYLOAD_TOO_LARGE]: PdfErrorCode.PAYLOAD_TOO_LARGE,
+  [HttpStatus.UNPROCESSABLE_ENTITY]: PdfErrorCode.RENDER_FAILED,
+  [HttpStatus.TOO_MANY_REQUESTS]: PdfErrorCode.RATE_LIMITED,
+  [HttpStatus.SERVICE_UNAVAILABLE]: PdfErrorCode.SERVICE_UNAVAILABLE,
+  [HttpStatus.GATEWAY_TIMEOUT]: PdfErrorCode.RENDER_TIMEOUT,
+};
+
+/** Code for an HTTP exception that carries no PdfError. */
+export function errorCodeForStatus(status: number): PdfErrorCode {
+  return (
+    STATUS_CODES[status] ??
+    (status < 500 ? PdfErrorCode.INVALID_REQUEST : PdfErrorCode.INTERNAL_ERROR)
+  );
+}
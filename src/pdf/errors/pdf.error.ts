@@ -1,9 +1,126 @@
-import { PdfErrorContext } from "../interfaces/pdf-error.interface";
+import { HttpException } from "@nestjs/common";
+import {
+  PdfErrorContext,
+  PdfErrorDetails,
+} from "../interfaces/pdf-error.interface";
+import {
+  PDF_ERROR_STATUS,
+  PdfErrorCode,
+  errorCodeForStatus,
+} from "./pdf-error-code";
+
+const NETWORK_ERROR_CODES: [RegExp, PdfErrorCode][] = [
+  [
+    /net::ERR_NAME_(NOT_RESOLVED|RESOLUTION_FAILED)/,
+    PdfErrorCode.DNS_RESOLUTION_FAILED,
+  ],
+  [/net::ERR_(CONNECTION_)?TIMED_OUT/, PdfErrorCode.NAVIGATION_TIMEOUT],
+  [
+    /net::ERR_(CONNECTION_|EMPTY_RESPONSE|SSL_|CERT_)|socket hang up/,
+    PdfErrorCode.CONNECTION_FAILED,
+  ],
+];
+
+// Messages puppeteer uses once the browser or the page's target is gone
+const BROWSER_CRASH_PATTERN =
+  /Target closed|Session closed|Page crashed|browser has disconnected|Connection closed/i;
+
+const STAGE_CODES: Record<string, PdfErrorCode> = {
+  url_policy: PdfErrorCode.URL_BLOCKED,
+  navigation: PdfErrorCode.NAVIGATION_FAILED,
+  content: PdfErrorCode.RENDER_FAILED,
+  pdf_generation: PdfErrorCode.RENDER_FAILED,
+  screenshot: PdfErrorCode.RENDER_FAILED,
+  template_render: PdfErrorCode.TEMPLATE_RENDER_FAILED,
+  watermark: PdfErrorCode.WATERMARK_FAILED,
+  wait_for: PdfErrorCode.RENDER_FAILED,
+};
+
+function classify(message: string, context: PdfErrorContext): PdfErrorCode {
+  const cause = context.cause;
+  const causeMessage = cause instanceof Error ? cause.message : "";
+  const text = `${message} ${causeMessage}`;
+
+  if (context.stage === "url_policy") {
+    return PdfErrorCode.URL_BLOCKED;
+  }
+  for (const [pattern, code] of NETWORK_ERROR_CODES) {
+    if (pattern.test(text)) {
+      return code;
+    }
+  }
+  if (BROWSER_CRASH_PATTERN.test(text)) {
+    return PdfErrorCode.BROWSER_CRASHED;
+  }
+  if (
+    (cause instanceof Error && cause.name === "TimeoutError") ||
+    /\d+ ?ms exceeded/i.test(text)
+  ) {
+    return context.stage === "navigation"
+      ? PdfErrorCode.NAVIGATION_TIMEOUT
+      : PdfErrorCode.RENDER_TIMEOUT;
+  }
+  if (context.stage === "navigation" && context.httpStatus) {
+    return PdfErrorCode.UPSTREAM_HTTP_ERROR;
+  }
+  return STAGE_CODES[context.stage ?? ""] ?? PdfErrorCode.INTERNAL_ERROR;
+}
 
 export class PdfError extends Error {
-  constructor(message: string, public readonly context: PdfErrorContext = {}) {
+  readonly code: PdfErrorCode;
+
+  constructor(
+    message: string,
+    public readonly context: PdfErrorContext = {}
+  ) {
     super(message);
     this.name = "PdfError";
+    this.code = context.code ?? classify(message, context);
+  }
+
+  get status(): number {
+    return PDF_ERROR_STATUS[this.code];
+  }
+
+  /**
+   * Finds the PdfError behind an error, including one wrapped as the cause of
+   * an HTTP exception thrown by PdfService.
+   */
+  static unwrap(error: unknown): PdfError | undefined {
+    if (error instanceof PdfError) {
+      return error;
+    }
+    const cause =
+      error instanceof Error ? (error as { cause?: unknown }).cause : undefined;
+    return cause instanceof PdfError ? cause : undefined;
+  }
+
+  /** Error code of any error, derived from the status of HTTP exceptions. */
+  static codeOf(error: unknown): PdfErrorCode {
+    const pdfError = PdfError.unwrap(error);
+    if (pdfError) {
+      return pdfError.code;
+    }
+    return error instanceof HttpException
+      ? errorCodeForStatus(error.getStatus())
+      : PdfErrorCode.INTERNAL_ERROR;
+  }
+
+  /** Serialisable summary of any error, with PdfError context when present. */
+  static describe(error: unknown): PdfErrorDetails {
+    const message = error instanceof Error ? error.message : String(error);
+    const pdfError = PdfError.unwrap(error);
+    if (!pdfError) {
+      return { code: PdfError.codeOf(error), message };
+    }
+
+    const { cause: _cause, ...context } = pdfError.context;
+    return { message, ...context, code: pdfError.code };
+  }
+
+  /** HTTP exception with the status of the error code and this as cause. */
+  toHttpException(): HttpException {
+    return new HttpException(this.message, this.status, { cause: this });
   }
 
   toString(): string {
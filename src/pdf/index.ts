@@ -1,8 +1,43 @@
+export * from "./bundles/asset-bundle";
+export * from "./constants/pdf.constants";
 export * from "./controllers/pdf.controller";
+export * from "./dto/batch.dto";
+export * from "./dto/html-file.dto";
 export * from "./dto/html-text.dto";
+export * from "./dto/image-options.dto";
+export * from "./dto/image-request.dto";
+export * from "./dto/pdf-options.dto";
+export * from "./dto/sanitize-options.dto";
+export * from "./dto/url-session.dto";
 export * from "./dto/url.dto";
+export * from "./dto/wait-for-options.dto";
+export * from "./dto/watermark-options.dto";
+export * from "./errors/pdf-error-code";
 export * from "./errors/pdf.error";
+export * from "./interfaces/batch-result.interface";
+export * from "./interfaces/browser-pool.interface";
+export * from "./interfaces/bundle-file.interface";
+export * from "./interfaces/html-file-uploads.interface";
+export * from "./interfaces/pdf-cache.interface";
 export * from "./interfaces/pdf-error.interface";
+export * from "./interfaces/request-handler.interface";
+export * from "./interfaces/sanitize.interface";
+export * from "./interfaces/url-policy.interface";
+export * from "./interfaces/url-session.interface";
 export * from "./pdf.module";
+export * from "./services/asset-bundle.service";
+export * from "./services/batch.service";
 export * from "./services/browser-pool.service";
+export * from "./services/header-footer.service";
+export * from "./services/html-sanitizer.service";
+export * from "./services/pdf-cache.service";
 export * from "./services/pdf.service";
+export * from "./services/url-policy.service";
+export * from "./services/watermark.service";
+export * from "./stores/disk-cache.store";
+export * from "./stores/memory-cache.store";
+export * from "./templates/header-footer.templates";
+export * from "./utils/retry.util";
+export * from "./utils/sanitize-report.util";
+export * from "./utils/url-session.util";
+export * from "./utils/wait-for.util";
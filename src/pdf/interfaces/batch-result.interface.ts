@@ -0,0 +1,20 @@
+import { PdfErrorDetails } from "./pdf-error.interface";
+import { SanitizeReport } from "./sanitize.interface";
+
+export interface BatchItemResult {
+  index: number;
+  filename: string;
+  status: "succeeded" | "failed";
+  durationMs: number;
+  byteSize?: number;
+  error?: PdfErrorDetails;
+  sanitizeReport?: SanitizeReport;
+  pdf?: Buffer;
+}
+
+export interface BatchReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: Omit<BatchItemResult, "pdf">[];
+}
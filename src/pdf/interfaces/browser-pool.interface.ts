@@ -0,0 +1,29 @@
+import { BrowserPoolMetrics } from "../../health/interfaces/browser-pool-metrics.interface";
+import { QueuePriority } from "../constants/pdf.constants";
+
+export interface BrowserPoolStatus extends BrowserPoolMetrics {
+  isInitialized: boolean;
+  draining: boolean;
+  maxBrowsers: number;
+  maxPagesPerBrowser: number;
+  maxConcurrentRequests: number;
+  pagePoolSize: number;
+  pageMaxAge: number;
+  browserMaxAge: number;
+  queueMaxLength: number;
+  queueTimeout: number;
+  queuedByPriority: Record<QueuePriority, number>;
+}
+
+export interface BrowserInstanceStats {
+  id: string;
+  pid: number | null;
+  isHealthy: boolean;
+  connected: boolean;
+  activePages: number;
+  pooledPages: number;
+  createdAt: string;
+  ageMs: number;
+  lastUsed: string;
+  idleMs: number;
+}
@@ -0,0 +1,5 @@
+export interface BundleFile {
+  /** Path relative to the bundle root, using forward slashes */
+  path: string;
+  content: Buffer;
+}
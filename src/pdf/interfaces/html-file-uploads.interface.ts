@@ -0,0 +1,6 @@
+export interface HtmlFileUploads {
+  file?: Express.Multer.File[];
+  bundle?: Express.Multer.File[];
+  assets?: Express.Multer.File[];
+  watermarkImage?: Express.Multer.File[];
+}
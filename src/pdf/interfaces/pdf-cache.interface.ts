@@ -0,0 +1,39 @@
+import { PdfOptionsDto } from "../dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../dto/sanitize-options.dto";
+import { BlockedRequests } from "./resource-policy.interface";
+import { SanitizeReport } from "./sanitize.interface";
+
+export const PDF_CACHE_STORE = Symbol("PDF_CACHE_STORE");
+
+export interface PdfCacheEntry {
+  pdf: Buffer;
+  etag: string;
+  createdAt: number;
+  expiresAt: number;
+  sanitizeReport?: SanitizeReport;
+  blockedRequests?: BlockedRequests;
+}
+
+export interface PdfCacheStore {
+  get(key: string): Promise<PdfCacheEntry | null>;
+  set(key: string, entry: PdfCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/** What a cached PDF was rendered from; uploaded files count as HTML. */
+export interface CacheableConversion {
+  type: "html" | "url";
+  input: string;
+  options?: PdfOptionsDto;
+  sanitize?: SanitizeOptionsDto;
+}
+
+// "refresh" renders again and replaces the entry, "bypass" skips the cache
+export type PdfCacheMode = "use" | "refresh" | "bypass";
+
+export interface PdfCacheResult {
+  pdf: Buffer;
+  status: "hit" | "miss" | "bypass" | "off";
+  etag?: string;
+  expiresAt?: number;
+}
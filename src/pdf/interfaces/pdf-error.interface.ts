@@ -1,8 +1,18 @@
+import { PdfErrorCode } from "../errors/pdf-error-code";
+
 export interface PdfErrorContext {
+  code?: PdfErrorCode;
   url?: string;
   stage?: string;
   httpStatus?: number;
   httpStatusText?: string;
   contentType?: string;
+  // The waitFor condition that was still pending
+  waitCondition?: string;
   cause?: unknown;
 }
+
+export interface PdfErrorDetails extends Omit<PdfErrorContext, "cause"> {
+  code: PdfErrorCode;
+  message: string;
+}
@@ -0,0 +1,9 @@
+import { HTTPRequest } from "puppeteer";
+
+/**
+ * Intercepts a page request before the default pool behaviour. Returns true
+ * once it has responded to, aborted or continued the request itself.
+ */
+export type RequestHandler = (
+  request: HTTPRequest
+) => Promise<boolean> | boolean;
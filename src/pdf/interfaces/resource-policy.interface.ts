@@ -0,0 +1,16 @@
+/**
+ * Which subresources a page may load. URL rules take precedence over type
+ * rules and allow rules over block rules.
+ */
+export interface ResourcePolicy {
+  allowTypes?: string[];
+  blockTypes?: string[];
+  allowUrls?: string[];
+  blockUrls?: string[];
+}
+
+/** Requests a conversion's resource policy aborted, by resource type. */
+export interface BlockedRequests {
+  total: number;
+  byType: Record<string, number>;
+}
@@ -0,0 +1,19 @@
+import { SanitizeMode } from "../constants/pdf.constants";
+
+/** The effective policy of one conversion. */
+export interface SanitizePolicy {
+  mode: SanitizeMode;
+  javascript: boolean;
+}
+
+/** What sanitization removed, keyed by tag and attribute name. */
+export interface SanitizeReport extends SanitizePolicy {
+  removedTags: Record<string, number>;
+  removedAttributes: Record<string, number>;
+  removedUrls: number;
+}
+
+export interface SanitizeResult {
+  html: string;
+  report: SanitizeReport;
+}
@@ -0,0 +1,5 @@
+export interface UrlPolicyDecision {
+  allowed: boolean;
+  /** Why the URL was blocked */
+  reason?: string;
+}
@@ -0,0 +1,17 @@
+export interface UrlCookie {
+  name: string;
+  value: string;
+  // Defaults to the host of the converted URL
+  domain?: string;
+  path?: string;
+}
+
+/** Credentials and state a URL conversion starts with. */
+export interface UrlSession {
+  cookies?: UrlCookie[];
+  // Sent to the origin of the converted URL only
+  headers?: Record<string, string>;
+  basicAuth?: { username: string; password: string };
+  // Seeded into the origin of the converted URL before its scripts run
+  localStorage?: Record<string, string>;
+}
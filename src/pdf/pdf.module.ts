@@ -1,22 +1,69 @@
-import { Module } from "@nestjs/common";
-import { APP_GUARD } from "@nestjs/core";
+import { Module, forwardRef } from "@nestjs/common";
+import { APP_FILTER, APP_GUARD } from "@nestjs/core";
 import { ThrottlerGuard } from "@nestjs/throttler";
-import { ConfigModule } from "../config";
-import { HealthModule } from "../health";
+import { AuthModule } from "../auth";
+import { ApiExceptionFilter } from "../common";
+import { ConfigModule, ConfigService } from "../config";
+import { FontsModule } from "../fonts/fonts.module";
+import { HealthModule } from "../health/health.module";
 import { PdfController } from "./controllers/pdf.controller";
+import { PDF_CACHE_STORE } from "./interfaces/pdf-cache.interface";
+import { AssetBundleService } from "./services/asset-bundle.service";
+import { BatchService } from "./services/batch.service";
 import { BrowserPoolService } from "./services/browser-pool.service";
+import { HeaderFooterService } from "./services/header-footer.service";
+import { HtmlSanitizerService } from "./services/html-sanitizer.service";
+import { PdfCacheService } from "./services/pdf-cache.service";
 import { PdfService } from "./services/pdf.service";
+import { UrlPolicyService } from "./services/url-policy.service";
+import { WatermarkService } from "./services/watermark.service";
+import { DiskCacheStore } from "./stores/disk-cache.store";
+import { MemoryCacheStore } from "./stores/memory-cache.store";
 
 @Module({
-  imports: [ConfigModule, HealthModule],
+  // HealthModule imports this module back for the browser pool health check
+  imports: [
+    ConfigModule,
+    forwardRef(() => HealthModule),
+    AuthModule,
+    FontsModule,
+  ],
   controllers: [PdfController],
   providers: [
     PdfService,
     BrowserPoolService,
+    AssetBundleService,
+    BatchService,
+    HeaderFooterService,
+    WatermarkService,
+    UrlPolicyService,
+    HtmlSanitizerService,
+    PdfCacheService,
+    {
+      provide: PDF_CACHE_STORE,
+      useFactory: async (configService: ConfigService) => {
+        const maxSize = configService.pdfCacheMaxSize;
+        if (
+          configService.pdfCacheEnabled &&
+          configService.pdfCacheStore === "disk"
+        ) {
+          const store = new DiskCacheStore(configService.pdfCacheDir, maxSize);
+          await store.load();
+          return store;
+        }
+        return new MemoryCacheStore(maxSize);
+      },
+      inject: [ConfigService],
+    },
     {
       provide: APP_GUARD,
       useClass: ThrottlerGuard,
     },
+    {
+      provide: APP_FILTER,
+      useClass: ApiExceptionFilter,
+    },
   ],
+  exports: [PdfService, BrowserPoolService, UrlPolicyService],
 })
 export class PdfModule {}
@@ -0,0 +1,175 @@
+import { BadRequestException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { existsSync } from "fs";
+import * as JSZip from "jszip";
+import { HTTPRequest } from "puppeteer";
+import { AssetBundle } from "../../bundles/asset-bundle";
+import { AssetBundleService } from "../asset-bundle.service";
+
+const createRequest = (url: string) =>
+  ({
+    url: () => url,
+    respond: jest.fn().mockResolvedValue(undefined),
+  }) as unknown as HTTPRequest & { respond: jest.Mock };
+
+describe("AssetBundleService", () => {
+  let service: AssetBundleService;
+  const bundles: AssetBundle[] = [];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AssetBundleService],
+    }).compile();
+
+    service = module.get<AssetBundleService>(AssetBundleService);
+  });
+
+  afterEach(async () => {
+    await Promise.all(bundles.splice(0).map((bundle) => bundle.dispose()));
+  });
+
+  const track = (bundle: AssetBundle) => {
+    bundles.push(bundle);
+    return bundle;
+  };
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should extract a ZIP bundle and pick the shallowest index.html", async () => {
+    const zip = new JSZip();
+    zip.file("site/index.html", "<img src='img/logo.png'>");
+    zip.file("site/img/logo.png", "png");
+    zip.file("site/docs/index.html", "nested");
+    zip.file("__MACOSX/site/._index.html", "metadata");
+    const archive = await zip.generateAsync({ type: "nodebuffer" });
+
+    const bundle = track(
+      await service.fromUploads({
+        bundle: [{ buffer: archive } as Express.Multer.File],
+      })
+    );
+
+    expect(bundle.entryPath).toBe("site/index.html");
+    expect(bundle.entryUrl).toBe(`${bundle.origin}/site/index.html`);
+    await expect(bundle.readEntry()).resolves.toContain("img/logo.png");
+  });
+
+  describe("zip bombs", () => {
+    const createBomb = async () => {
+      const zip = new JSZip();
+      zip.file("index.html", "<p>bomb</p>");
+      zip.file("zeros.bin", Buffer.alloc(51 * 1024 * 1024));
+      return zip.generateAsync({
+        type: "nodebuffer",
+        compression: "DEFLATE",
+        compressionOptions: { level: 9 },
+      });
+    };
+
+    it("should reject entries whose declared size is too large", async () => {
+      const archive = await createBomb();
+      expect(archive.length).toBeLessThan(1024 * 1024);
+
+      await expect(service.extractZip(archive)).rejects.toThrow(
+        "Bundle exceeds 50MB when extracted"
+      );
+    });
+
+    it("should stop inflating entries that lie about their size", async () => {
+      const archive = await createBomb();
+      // Declare 1 KB in the local header and central directory of zeros.bin
+      const name = Buffer.from("zeros.bin");
+      for (const [signature, offset] of [
+        [0x04034b50, 22],
+        [0x02014b50, 24],
+      ]) {
+        let position = -1;
+        while ((position = archive.indexOf(name, position + 1)) !== -1) {
+          const header = position - (signature === 0x04034b50 ? 30 : 46);
+          if (header >= 0 && archive.readUInt32LE(header) === signature) {
+            archive.writeUInt32LE(1024, header + offset);
+          }
+        }
+      }
+
+      await expect(service.extractZip(archive)).rejects.toThrow(
+        "Bundle exceeds 50MB when extracted"
+      );
+    });
+  });
+
+  it("should use the uploaded HTML file as entry for loose assets", async () => {
+    const bundle = track(
+      await service.fromUploads({
+        file: [
+          {
+            originalname: "report.html",
+            buffer: Buffer.from("<link href='css/site.css'>"),
+          } as Express.Multer.File,
+        ],
+        assets: [
+          {
+            originalname: "css/site.css",
+            buffer: Buffer.from("body{}"),
+          } as Express.Multer.File,
+        ],
+      })
+    );
+
+    expect(bundle.entryPath).toBe("report.html");
+  });
+
+  it("should reject paths outside the bundle and ambiguous entries", async () => {
+    await expect(
+      service.create([{ path: "../evil.html", content: Buffer.from("") }])
+    ).rejects.toThrow(BadRequestException);
+
+    await expect(
+      service.create([
+        { path: "a.html", content: Buffer.from("") },
+        { path: "b.html", content: Buffer.from("") },
+      ])
+    ).rejects.toThrow("set entry");
+
+    await expect(
+      service.create([{ path: "a.html", content: Buffer.from("") }], "b.html")
+    ).rejects.toThrow("Entry file b.html not found");
+  });
+
+  it("should serve bundle files and ignore other origins", async () => {
+    const bundle = track(
+      await service.create([
+        { path: "index.html", content: Buffer.from("<p>hi</p>") },
+        { path: "img/logo.png", content: Buffer.from("png") },
+      ])
+    );
+
+    const asset = createRequest(`${bundle.origin}/img/logo.png`);
+    await expect(bundle.respond(asset)).resolves.toBe(true);
+    expect(asset.respond).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 200, contentType: "image/png" })
+    );
+
+    const escape = createRequest(`${bundle.origin}/..%2F..%2Fetc%2Fpasswd`);
+    await expect(bundle.respond(escape)).resolves.toBe(true);
+    expect(escape.respond).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 404 })
+    );
+
+    const external = createRequest("https://example.com/logo.png");
+    await expect(bundle.respond(external)).resolves.toBe(false);
+    expect(external.respond).not.toHaveBeenCalled();
+  });
+
+  it("should remove the extracted files on dispose", async () => {
+    const bundle = await service.create([
+      { path: "index.html", content: Buffer.from("<p>hi</p>") },
+    ]);
+
+    await bundle.dispose();
+
+    expect(existsSync(bundle.dir)).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import * as JSZip from "jszip";
+import { PDFDocument } from "pdf-lib";
+import { PdfError } from "../../errors/pdf.error";
+import { BatchService } from "../batch.service";
+import { BrowserPoolService } from "../browser-pool.service";
+import { PdfService } from "../pdf.service";
+
+describe("BatchService", () => {
+  let service: BatchService;
+  let pdfService: PdfService;
+
+  const createPdf = async (pageCount: number): Promise<Buffer> => {
+    const document = await PDFDocument.create();
+    for (let i = 0; i < pageCount; i++) {
+      document.addPage();
+    }
+    return Buffer.from(await document.save());
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BatchService,
+        {
+          provide: PdfService,
+          useValue: {
+            convertHtmlToPdf: jest.fn(),
+            convertUrlToPdf: jest.fn(),
+          },
+        },
+        {
+          provide: BrowserPoolService,
+          useValue: {
+            getBrowserStatus: jest
+              .fn()
+              .mockReturnValue({ maxConcurrentRequests: 2 }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BatchService>(BatchService);
+    pdfService = module.get<PdfService>(PdfService);
+  });
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should report failed items without failing the batch", async () => {
+    jest
+      .spyOn(pdfService, "convertHtmlToPdf")
+      .mockResolvedValue(await createPdf(1));
+    const pdfError = new PdfError("Navigation failed: HTTP 404 - Not Found", {
+      stage: "navigation",
+      url: "https://example.com/missing",
+      httpStatus: 404,
+    });
+    jest
+      .spyOn(pdfService, "convertUrlToPdf")
+      .mockRejectedValue(pdfError.toHttpException());
+
+    const results = await service.convert([
+      { html: "<h1>One</h1>", filename: "one.pdf" },
+      { url: "https://example.com/missing" },
+    ]);
+    const report = service.buildReport(results);
+
+    expect(report).toEqual(
+      expect.objectContaining({ total: 2, succeeded: 1, failed: 1 })
+    );
+    expect(report.items[0].filename).toBe("one.pdf");
+    expect(report.items[1].filename).toBe("document-2.pdf");
+    expect(report.items[1].error).toEqual(
+      expect.objectContaining({ stage: "navigation", httpStatus: 404 })
+    );
+    expect(report.items[0]).not.toHaveProperty("pdf");
+  });
+
+  it("should keep ZIP entry names unique", async () => {
+    jest
+      .spyOn(pdfService, "convertHtmlToPdf")
+      .mockResolvedValue(await createPdf(1));
+
+    const results = await service.convert([
+      { html: "<h1>One</h1>", filename: "report" },
+      { html: "<h1>Two</h1>", filename: "report.pdf" },
+    ]);
+    const zip = await JSZip.loadAsync(await service.buildZip(results));
+
+    expect(Object.keys(zip.files).sort()).toEqual([
+      "report-2.pdf",
+      "report.json",
+      "report.pdf",
+    ]);
+  });
+
+  it("should merge successful items into one PDF", async () => {
+    jest
+      .spyOn(pdfService, "convertHtmlToPdf")
+      .mockResolvedValueOnce(await createPdf(2))
+      .mockResolvedValueOnce(await createPdf(3));
+
+    const results = await service.convert([
+      { html: "<h1>One</h1>" },
+      { html: "<h1>Two</h1>" },
+    ]);
+    const merged = await PDFDocument.load(
+      await service.buildMergedPdf(results)
+    );
+
+    expect(merged.getPageCount()).toBe(5);
+  });
+});
@@ -0,0 +1,628 @@
+import { ConflictException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { Page } from "puppeteer";
+import { ApiKey } from "../../../auth";
+import { RequestContext, ServiceBusyException } from "../../../common";
+import { ConfigService } from "../../../config";
+import { PrometheusService } from "../../../health";
+import { BrowserPoolService } from "../browser-pool.service";
+import { UrlPolicyService } from "../url-policy.service";
+
+jest.mock("puppeteer", () => ({ launch: jest.fn() }));
+
+describe("BrowserPoolService", () => {
+  const createService = async (config: Partial<ConfigService> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BrowserPoolService,
+        PrometheusService,
+        { provide: UrlPolicyService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: {
+            maxBrowsers: 2,
+            maxPagesPerBrowser: 4,
+            maxConcurrentRequests: 6,
+            pagePoolSize: 4,
+            pageMaxAge: 60000,
+            browserMaxAge: 120000,
+            queueMaxLength: 10,
+            queueTimeout: 30000,
+            queueRetryAfter: 5,
+            shutdownGracePeriod: 1000,
+            maxConcurrentJobs: 2,
+            puppeteerArgs: ["--no-sandbox"],
+            pdfLocale: "en-US",
+            ...config,
+          },
+        },
+      ],
+    }).compile();
+
+    return module;
+  };
+
+  it("should take its limits from the configuration", async () => {
+    const module = await createService();
+
+    const status = module.get(BrowserPoolService).getBrowserStatus();
+
+    expect(status).toMatchObject({
+      isInitialized: false,
+      maxBrowsers: 2,
+      maxPagesPerBrowser: 4,
+      maxConcurrentRequests: 6,
+      pagePoolSize: 4,
+      pageMaxAge: 60000,
+      browserMaxAge: 120000,
+      queueSize: 0,
+      queueWaitMs: 0,
+    });
+  });
+
+  it("should export the pool state as gauges", async () => {
+    const module = await createService();
+
+    const metrics = await module.get(PrometheusService).getMetrics();
+
+    expect(metrics).toContain("browser_pool_browsers 0");
+    expect(metrics).toContain("browser_pool_queue_depth 0");
+    expect(metrics).toContain("browser_pool_queue_wait_seconds 0");
+  });
+
+  it.each([
+    [{ maxBrowsers: 0 }, "MAX_BROWSERS must be an integer of at least 1"],
+    [{ pageMaxAge: NaN }, "PAGE_MAX_AGE must be an integer of at least 1"],
+    [{ queueTimeout: 0 }, "QUEUE_TIMEOUT must be an integer of at least 1"],
+    [{ pagePoolSize: 9 }, "PAGE_POOL_SIZE (9) exceeds the 8 pages"],
+    [
+      { maxConcurrentRequests: 12 },
+      "MAX_CONCURRENT_REQUESTS (12) exceeds the 8 pages",
+    ],
+    [{ resourceBlockTypes: ["fonts"] }, "Invalid RESOURCE_BLOCK_TYPES fonts"],
+    [{ pdfLocale: "en_US" }, "PDF_LOCALE must be a BCP 47 language tag"],
+    [{ pdfTimezone: "Mars/Base" }, "PDF_TIMEZONE must be an IANA timezone"],
+  ])("should reject invalid settings %j", async (config, message) => {
+    await expect(createService(config)).rejects.toThrow(message);
+  });
+
+  describe("request queue", () => {
+    let service: BrowserPoolService;
+
+    const fakePage = () => ({ isClosed: () => true }) as unknown as Page;
+    const withPriority = <T>(
+      priority: "low" | "normal" | "high" | undefined,
+      callback: () => T,
+      apiKey: Partial<ApiKey> = { id: "acme", priority: "high" }
+    ) =>
+      RequestContext.run(
+        { requestId: "test", priority, apiKey: apiKey as ApiKey },
+        callback
+      );
+
+    beforeEach(async () => {
+      const module = await createService({
+        maxConcurrentRequests: 1,
+        queueMaxLength: 2,
+        queueTimeout: 1000,
+      });
+      service = module.get(BrowserPoolService);
+      jest
+        .spyOn(service as any, "createNewPage")
+        .mockImplementation(async () => fakePage());
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should hold a slot until the page is closed and serve by priority", async () => {
+      const first = await service.getPage();
+      const served: string[] = [];
+      const waiting = (["low", "high"] as const).map((priority) =>
+        withPriority(priority, () =>
+          service.getPage().then((page) => {
+            served.push(priority);
+            return page;
+          })
+        )
+      );
+
+      expect(service.getBrowserStatus()).toMatchObject({
+        activeRequests: 1,
+        queueSize: 2,
+        queuedByPriority: { low: 1, normal: 0, high: 1 },
+      });
+
+      await service.closePage(first);
+      await service.closePage(await waiting[1]);
+      await service.closePage(await waiting[0]);
+
+      expect(served).toEqual(["high", "low"]);
+      expect(service.getBrowserStatus().activeRequests).toBe(0);
+    });
+
+    it("should not let X-Priority raise a request above its key's tier", async () => {
+      const first = await service.getPage();
+      withPriority("high", () => service.getPage(), {
+        id: "acme",
+        priority: "low",
+      }).catch(() => undefined);
+
+      expect(service.getBrowserStatus().queuedByPriority.low).toBe(1);
+      await service.closePage(first);
+    });
+
+    it("should reject with a 503 and Retry-After once the wait deadline passes", async () => {
+      jest.useFakeTimers();
+      await service.getPage();
+      const waiting = service.getPage();
+
+      jest.advanceTimersByTime(1000);
+
+      await expect(waiting).rejects.toBeInstanceOf(ServiceBusyException);
+      await expect(waiting).rejects.toMatchObject({ retryAfter: 5 });
+      expect(service.getBrowserStatus().queueSize).toBe(0);
+    });
+
+    it("should shed the lowest priority request when the queue is full", async () => {
+      await service.getPage();
+      const low = withPriority("low", () => service.getPage());
+      withPriority("normal", () => service.getPage()).catch(() => undefined);
+
+      await expect(
+        withPriority("low", () => service.getPage())
+      ).rejects.toThrow("Too many conversions are queued");
+
+      withPriority("high", () => service.getPage()).catch(() => undefined);
+
+      await expect(low).rejects.toThrow("dropped from the queue");
+      expect(service.getBrowserStatus().queuedByPriority).toEqual({
+        low: 0,
+        normal: 1,
+        high: 1,
+      });
+    });
+
+    it("should refuse new pages while draining and let queued work finish", async () => {
+      const first = await service.getPage();
+      const queued = service.getPage();
+
+      service.drain();
+      await expect(service.getPage()).rejects.toThrow(ServiceBusyException);
+      expect(service.getBrowserStatus().draining).toBe(true);
+
+      await service.closePage(first);
+      await service.closePage(await queued);
+      service.resume();
+
+      await expect(service.getPage()).resolves.toBeDefined();
+    });
+
+    it("should let running, queued and job work finish before closing on shutdown", async () => {
+      const closeAll = jest
+        .spyOn(service as any, "closeAllBrowsers")
+        .mockResolvedValue(undefined);
+      const first = await service.getPage();
+      const queued = service.getPage();
+      let pendingJobs = 1;
+      service.registerPendingWork(() => pendingJobs);
+
+      const shutdown = service.beforeApplicationShutdown("SIGTERM");
+      await expect(service.getPage()).rejects.toThrow(ServiceBusyException);
+      const job = RequestContext.run({ requestId: "job", jobId: "job" }, () =>
+        service.getPage()
+      );
+
+      await service.closePage(first);
+      await service.closePage(await queued);
+      await service.closePage(await job);
+      expect(closeAll).not.toHaveBeenCalled();
+      pendingJobs = 0;
+      await shutdown;
+
+      expect(closeAll).toHaveBeenCalled();
+      await expect(service.getPage()).rejects.toThrow(
+        "The server shut down before the conversion could run"
+      );
+    });
+
+    it("should reject what is left once the shutdown grace period is over", async () => {
+      const module = await createService({
+        maxConcurrentRequests: 1,
+        shutdownGracePeriod: 50,
+      });
+      service = module.get(BrowserPoolService);
+      jest
+        .spyOn(service as any, "createNewPage")
+        .mockImplementation(async () => fakePage());
+      const closeAll = jest
+        .spyOn(service as any, "closeAllBrowsers")
+        .mockResolvedValue(undefined);
+      await service.getPage();
+      const queued = service.getPage();
+
+      await service.beforeApplicationShutdown();
+
+      await expect(queued).rejects.toThrow(
+        "The server shut down before the conversion could run"
+      );
+      expect(service.getBrowserStatus().queueSize).toBe(0);
+      expect(closeAll).toHaveBeenCalled();
+    });
+  });
+
+  describe("administration", () => {
+    let service: BrowserPoolService;
+    const browser = {
+      isConnected: () => true,
+      process: () => ({ pid: 4242 }),
+    };
+
+    beforeEach(async () => {
+      const module = await createService();
+      service = module.get(BrowserPoolService);
+      (service as any).browsers.push({
+        browser,
+        id: "browser_0",
+        activePages: 2,
+        createdAt: Date.now() - 5000,
+        lastUsed: Date.now() - 1000,
+        isHealthy: true,
+      });
+      (service as any).pagePool.push({
+        page: { browser: () => browser, isClosed: () => true },
+        createdAt: Date.now(),
+        lastUsed: Date.now(),
+        id: "page_0",
+        isLocked: false,
+      });
+    });
+
+    it("should report per-browser statistics", () => {
+      const [stats] = service.getBrowserStats();
+
+      expect(stats).toMatchObject({
+        id: "browser_0",
+        pid: 4242,
+        isHealthy: true,
+        connected: true,
+        activePages: 2,
+        pooledPages: 1,
+      });
+      expect(stats.ageMs).toBeGreaterThanOrEqual(5000);
+      expect(stats.idleMs).toBeGreaterThanOrEqual(1000);
+    });
+
+    it("should recycle a browser by id and drop its pooled pages", async () => {
+      const replace = jest
+        .spyOn(service as any, "replaceUnhealthyBrowser")
+        .mockResolvedValue(undefined);
+
+      await expect(service.recycleBrowser("browser_9")).resolves.toBe(false);
+      await expect(service.recycleBrowser("browser_0")).resolves.toBe(true);
+
+      expect(replace).toHaveBeenCalledTimes(1);
+      expect(service.getBrowserStatus().pagePoolActive).toBe(0);
+      expect(service.isDraining).toBe(false);
+    });
+
+    it("should wait for running conversions before recycling", async () => {
+      const replace = jest
+        .spyOn(service as any, "replaceUnhealthyBrowser")
+        .mockResolvedValue(undefined);
+      (service as any).activeRequests = 1;
+
+      const recycled = service.recycleBrowser("browser_0");
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(service.isDraining).toBe(true);
+      expect(replace).not.toHaveBeenCalled();
+
+      (service as any).releaseSlot();
+      await expect(recycled).resolves.toBe(true);
+      expect(replace).toHaveBeenCalledTimes(1);
+      expect(service.isDraining).toBe(false);
+    });
+
+    it("should refuse to restart while conversions outlast the grace period", async () => {
+      const module = await createService({ shutdownGracePeriod: 200 });
+      const busyService = module.get(BrowserPoolService);
+      const close = jest.spyOn(busyService as any, "closeAllBrowsers");
+      (busyService as any).activeRequests = 1;
+
+      await expect(busyService.restartBrowsers()).rejects.toThrow(
+        ConflictException
+      );
+      expect(close).not.toHaveBeenCalled();
+      expect(busyService.isDraining).toBe(false);
+    });
+  });
+
+  describe("URL sessions", () => {
+    let service: BrowserPoolService;
+    let page: Page;
+    const context = {
+      newPage: jest.fn(),
+      setCookie: jest.fn(),
+      close: jest.fn(),
+    };
+    const instance = {
+      id: "browser_1",
+      activePages: 0,
+      isHealthy: true,
+      browser: { createBrowserContext: jest.fn().mockResolvedValue(context) },
+    };
+    const request = (url: string) => ({
+      url: () => url,
+      headers: () => ({ accept: "*/*" }),
+      resourceType: () => "document",
+      continue: jest.fn(),
+      abort: jest.fn(),
+    });
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      const module = await createService();
+      service = module.get(BrowserPoolService);
+      (service as any).urlPolicyService = {
+        evaluate: async () => ({ allowed: true }),
+      };
+      instance.activePages = 0;
+      (service as any).browsers = [instance];
+      jest.spyOn(service as any, "configurePage").mockResolvedValue(undefined);
+      context.newPage.mockResolvedValue({
+        isClosed: () => false,
+        evaluateOnNewDocument: jest.fn().mockResolvedValue({ identifier: "1" }),
+        evaluate: jest.fn(),
+      });
+
+      page = await service.getPage({ isolated: true });
+      await service.applyUrlSession(page, "https://app.example.com/report", {
+        cookies: [{ name: "session", value: "s3cret" }],
+        headers: { "X-Tenant": "acme" },
+        basicAuth: { username: "reports", password: "pa55" },
+        localStorage: { token: "t0ken" },
+      });
+    });
+
+    it("should send headers and credentials to the URL's origin only", async () => {
+      const own = request("https://app.example.com/api/data");
+      const other = request("https://cdn.example.net/chart.js");
+
+      await (service as any).handleRequest(page, own);
+      await (service as any).handleRequest(page, other);
+
+      expect(own.continue).toHaveBeenCalledWith({
+        headers: {
+          accept: "*/*",
+          "X-Tenant": "acme",
+          Authorization: `Basic ${Buffer.from("reports:pa55").toString("base64")}`,
+        },
+      });
+      expect(other.continue).toHaveBeenCalledWith();
+      expect(context.setCookie).toHaveBeenCalledWith({
+        name: "session",
+        value: "s3cret",
+        domain: "app.example.com",
+        path: "/",
+      });
+      expect(page.evaluateOnNewDocument).toHaveBeenCalledWith(
+        expect.any(Function),
+        JSON.stringify({
+          origin: "https://app.example.com",
+          items: { token: "t0ken" },
+        })
+      );
+    });
+
+    it("should render in a private context that closes with the page", async () => {
+      expect(instance.browser.createBrowserContext).toHaveBeenCalled();
+      expect(instance.activePages).toBe(1);
+      expect((service as any).pagePool).toHaveLength(0);
+
+      await service.closePage(page);
+
+      expect(context.close).toHaveBeenCalled();
+      expect(instance.activePages).toBe(0);
+      expect((service as any).activeRequests).toBe(0);
+    });
+
+    it("should refuse sessions on shared pages", async () => {
+      const shared = { evaluateOnNewDocument: jest.fn() } as unknown as Page;
+      context.setCookie.mockClear();
+
+      await expect(
+        service.applyUrlSession(shared, "https://app.example.com/", {
+          cookies: [{ name: "session", value: "s3cret" }],
+        })
+      ).rejects.toThrow("URL sessions require an isolated page");
+      expect(context.setCookie).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resource policy", () => {
+    let service: BrowserPoolService;
+    const mainFrame = { isDetached: () => false };
+    const page = {
+      mainFrame: () => mainFrame,
+    } as unknown as Page;
+    const request = (
+      url: string,
+      resourceType: string,
+      frame: unknown = { isDetached: () => false }
+    ) => ({
+      url: () => url,
+      resourceType: () => resourceType,
+      isNavigationRequest: () => resourceType === "document",
+      frame: () => frame,
+      continue: jest.fn(),
+      abort: jest.fn(),
+    });
+    const load = async (...requests: ReturnType<typeof request>[]) => {
+      for (const item of requests) {
+        await (service as any).handleRequest(page, item);
+      }
+    };
+
+    beforeEach(async () => {
+      const module = await createService({
+        resourceBlockTypes: ["media"],
+        resourceBlockUrls: ["doubleclick.net"],
+      });
+      service = module.get(BrowserPoolService);
+      (service as any).urlPolicyService = {
+        evaluate: async () => ({ allowed: true }),
+      };
+    });
+
+    it("should load fonts and block the default types and URLs", async () => {
+      const font = request("https://fonts.gstatic.com/s/inter.woff2", "font");
+      const video = request("https://example.com/intro.mp4", "media");
+      const ad = request("https://ad.doubleclick.net/pixel.gif", "image");
+
+      await load(font, video, ad);
+
+      expect(font.continue).toHaveBeenCalled();
+      expect(video.abort).toHaveBeenCalledWith("blockedbyclient");
+      expect(ad.abort).toHaveBeenCalledWith("blockedbyclient");
+      expect(service.takeBlockedRequests(page)).toEqual({
+        total: 2,
+        byType: { media: 1, image: 1 },
+      });
+      expect(service.takeBlockedRequests(page)).toEqual({
+        total: 0,
+        byType: {},
+      });
+    });
+
+    it("should let the request's rules override the default", async () => {
+      service.setResourcePolicy(page, {
+        allowTypes: ["media"],
+        blockTypes: ["font"],
+        allowUrls: ["https://cdn.example.com/fonts/*"],
+        blockUrls: ["*.analytics.example.com"],
+      });
+      const video = request("https://example.com/intro.mp4", "media");
+      const font = request("https://fonts.gstatic.com/s/inter.woff2", "font");
+      const brandFont = request(
+        "https://cdn.example.com/fonts/brand.woff2",
+        "font"
+      );
+      const tracker = request(
+        "https://eu.analytics.example.com/t.js",
+        "script"
+      );
+      const site = request("https://analytics.example.com/", "script");
+
+      await load(video, font, brandFont, tracker, site);
+
+      expect(video.continue).toHaveBeenCalled();
+      expect(font.abort).toHaveBeenCalled();
+      expect(brandFont.continue).toHaveBeenCalled();
+      expect(tracker.abort).toHaveBeenCalled();
+      expect(site.continue).toHaveBeenCalled();
+      expect(service.takeBlockedRequests(page).byType).toEqual({
+        font: 1,
+        script: 1,
+      });
+    });
+
+    it("should never block the page's own document", async () => {
+      service.setResourcePolicy(page, { blockUrls: ["example.com"] });
+      const document = request("https://example.com/", "document", mainFrame);
+      const frame = request("https://example.com/embed", "document");
+
+      await load(document, frame);
+
+      expect(document.continue).toHaveBeenCalled();
+      expect(frame.abort).toHaveBeenCalled();
+    });
+  });
+
+  describe("locale", () => {
+    let service: BrowserPoolService;
+    const cdp = { send: jest.fn() };
+    const page = {
+      isClosed: () => false,
+      browser: () => ({ isConnected: () => true }),
+      mainFrame: () => ({ isDetached: () => false }),
+      isJavaScriptEnabled: () => true,
+      setBypassCSP: jest.fn(),
+      setUserAgent: jest.fn(),
+      setExtraHTTPHeaders: jest.fn(),
+      setJavaScriptEnabled: jest.fn(),
+      setViewport: jest.fn(),
+      setRequestInterception: jest.fn(),
+      emulateTimezone: jest.fn(),
+      evaluateOnNewDocument: jest.fn().mockResolvedValue({ identifier: "1" }),
+      removeScriptToEvaluateOnNewDocument: jest.fn(),
+      createCDPSession: jest.fn().mockResolvedValue(cdp),
+      evaluate: jest.fn(),
+      goto: jest.fn(),
+      on: jest.fn(),
+    } as unknown as jest.Mocked<Page>;
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      const module = await createService({ pdfTimezone: "UTC" });
+      service = module.get(BrowserPoolService);
+      await (service as any).configurePage(page);
+    });
+
+    it("should start pages in the configured locale and timezone", () => {
+      expect(page.setExtraHTTPHeaders).toHaveBeenCalledWith(
+        expect.objectContaining({ "Accept-Language": "en-US,en;q=0.9" })
+      );
+      expect(page.evaluateOnNewDocument).toHaveBeenCalledWith(
+        expect.any(Function),
+        '["en-US","en"]'
+      );
+      expect(cdp.send).toHaveBeenCalledWith("Emulation.setLocaleOverride", {
+        locale: "en-US",
+      });
+      expect(page.emulateTimezone).toHaveBeenCalledWith("UTC");
+    });
+
+    it("should switch a conversion's locale and restore the default on reuse", async () => {
+      jest.clearAllMocks();
+
+      await service.setLocale(page, "de-DE", "Asia/Tokyo");
+
+      expect(page.setExtraHTTPHeaders).toHaveBeenCalledWith(
+        expect.objectContaining({ "Accept-Language": "de-DE,de;q=0.9" })
+      );
+      expect(page.evaluateOnNewDocument).toHaveBeenCalledWith(
+        expect.any(Function),
+        '["de-DE","de"]'
+      );
+      expect(cdp.send).toHaveBeenCalledWith("Emulation.setLocaleOverride", {
+        locale: "de-DE",
+      });
+      expect(page.emulateTimezone).toHaveBeenCalledWith("Asia/Tokyo");
+
+      await (service as any).resetPageForReuse(page);
+
+      expect(page.removeScriptToEvaluateOnNewDocument).toHaveBeenCalledWith(
+        "1"
+      );
+      expect(page.setExtraHTTPHeaders).toHaveBeenLastCalledWith(
+        expect.objectContaining({ "Accept-Language": "en-US,en;q=0.9" })
+      );
+      expect(cdp.send).toHaveBeenLastCalledWith("Emulation.setLocaleOverride", {
+        locale: "en-US",
+      });
+      expect(page.emulateTimezone).toHaveBeenLastCalledWith("UTC");
+    });
+
+    it("should leave pages alone when the conversion uses the defaults", async () => {
+      jest.clearAllMocks();
+
+      await service.setLocale(page, "en-US", "UTC");
+      await (service as any).resetPageForReuse(page);
+
+      expect(page.setExtraHTTPHeaders).not.toHaveBeenCalled();
+      expect(cdp.send).not.toHaveBeenCalled();
+      expect(page.emulateTimezone).not.toHaveBeenCalled();
+    });
+  });
+});
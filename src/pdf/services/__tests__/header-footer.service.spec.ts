@@ -0,0 +1,86 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ConfigService } from "../../../config";
+import { HeaderFooterService } from "../header-footer.service";
+
+describe("HeaderFooterService", () => {
+  let service: HeaderFooterService;
+  const now = new Date(2024, 0, 15, 9, 30);
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HeaderFooterService,
+        {
+          provide: ConfigService,
+          useValue: {
+            pdfWatermarkText: "Acme Corp",
+            pdfWatermarkColor: "#123456",
+            pdfHeaderFooterPreset: "banner",
+            pdfLocale: "en-US",
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HeaderFooterService>(HeaderFooterService);
+  });
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should use the configured banner preset by default", () => {
+    const result = service.resolve({}, now);
+
+    expect(result.displayHeaderFooter).toBe(true);
+    expect(result.headerTemplate).toContain("Acme Corp");
+    expect(result.headerTemplate).toContain("January 15, 2024");
+    expect(result.footerTemplate).toContain('<span class="pageNumber"></span>');
+  });
+
+  it("should disable header and footer entirely", () => {
+    expect(service.resolve({ displayHeaderFooter: false }, now)).toEqual({
+      displayHeaderFooter: false,
+    });
+  });
+
+  it("should render placeholders in custom templates", () => {
+    const result = service.resolve(
+      {
+        footerTemplate:
+          "<div>{{title}} - {{ pageNumber }}/{{totalPages}} - {{date}} {{unknown}}</div>",
+      },
+      now
+    );
+
+    expect(result.footerTemplate).toBe(
+      '<div><span class="title"></span> - <span class="pageNumber"></span>/<span class="totalPages"></span> - January 15, 2024 {{unknown}}</div>'
+    );
+    // Only the footer was customised, so the banner header is not used
+    expect(result.headerTemplate).toBe("<span></span>");
+  });
+
+  it("should format dates in the requested locale and timezone", () => {
+    const result = service.resolve(
+      {
+        footerTemplate: "<div>{{date}} {{time}}</div>",
+        locale: "de-DE",
+        timezone: "Asia/Tokyo",
+      },
+      new Date(Date.UTC(2024, 0, 15, 23, 30))
+    );
+
+    expect(result.footerTemplate).toBe("<div>16. Januar 2024 08:30</div>");
+  });
+
+  it("should combine a named preset with a custom template", () => {
+    const result = service.resolve(
+      { headerFooterPreset: "title-date", headerTemplate: "<div>Custom</div>" },
+      now
+    );
+
+    expect(result.headerTemplate).toBe("<div>Custom</div>");
+    expect(result.footerTemplate).toContain('<span class="url"></span>');
+    expect(result.footerTemplate).not.toContain("Acme Corp");
+  });
+});
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ApiKey } from "../../../auth";
+import { ConfigService } from "../../../config";
+import { HtmlSanitizerService } from "../html-sanitizer.service";
+
+describe("HtmlSanitizerService", () => {
+  const createService = async (config: Partial<ConfigService> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HtmlSanitizerService,
+        {
+          provide: ConfigService,
+          useValue: {
+            htmlSanitizeMode: "off",
+            htmlJavascriptEnabled: true,
+            htmlSanitizeAllowedTags: [],
+            htmlSanitizeAllowedAttributes: [],
+            htmlSanitizeAllowedSchemes: [],
+            ...config,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<HtmlSanitizerService>(HtmlSanitizerService);
+  };
+
+  const html = `<!DOCTYPE html>
+<html><head><style>h1 { color: red; }</style></head>
+<body onload="track()">
+<h1 class="title" onclick="steal()">Invoice</h1>
+<script>alert(1)</script>
+<a href=" java\tscript:alert(1)">pay</a>
+<img src="data:image/png;base64,AAAA" onerror="x()">
+<iframe src="https://example.com"></iframe>
+<marquee data-id="1">moving</marquee>
+</body></html>`;
+
+  it("should leave the HTML untouched when off", async () => {
+    const service = await createService();
+
+    const result = service.sanitize(html, { mode: "off", javascript: true });
+
+    expect(result.html).toBe(html);
+    expect(result.report.removedTags).toEqual({});
+  });
+
+  it("should strip scripts, frames, event handlers and javascript: URLs", async () => {
+    const service = await createService();
+
+    const { html: output, report } = service.sanitize(html, {
+      mode: "scripts",
+      javascript: true,
+    });
+
+    expect(output).toMatch(/^<!DOCTYPE html>/);
+    expect(output).not.toMatch(/script|onload|onclick|onerror|iframe/);
+    expect(output).toContain('<img src="data:image/png;base64,AAAA" />');
+    expect(output).toContain("<marquee");
+    expect(report).toEqual({
+      mode: "scripts",
+      javascript: true,
+      removedTags: { script: 1, iframe: 1 },
+      removedAttributes: { onload: 1, onclick: 1, onerror: 1 },
+      removedUrls: 1,
+    });
+  });
+
+  it("should keep only allow-listed tags and attributes in strict mode", async () => {
+    const service = await createService();
+
+    const { html: output, report } = service.sanitize(html, {
+      mode: "strict",
+      javascript: true,
+    });
+
+    expect(output).toContain('<h1 class="title">Invoice</h1>');
+    expect(output).toContain("<style>h1 { color: red; }</style>");
+    expect(output).toContain("moving");
+    expect(output).not.toMatch(/marquee|script|alert|iframe/);
+    expect(report.removedTags).toEqual({ script: 1, iframe: 1, marquee: 1 });
+    expect(report.removedAttributes).toEqual({
+      onload: 1,
+      onclick: 1,
+      onerror: 1,
+    });
+  });
+
+  it("should apply configured allow-lists in strict mode", async () => {
+    const service = await createService({
+      htmlSanitizeAllowedTags: ["p", "a"],
+      htmlSanitizeAllowedAttributes: ["href"],
+      htmlSanitizeAllowedSchemes: ["https"],
+    });
+
+    const { html: output, report } = service.sanitize(
+      '<p class="x"><a href="http://example.com">a</a><a href="https://example.com">b</a></p>',
+      { mode: "strict", javascript: true }
+    );
+
+    expect(output).toBe('<p><a>a</a><a href="https://example.com">b</a></p>');
+    expect(report.removedAttributes).toEqual({ class: 1 });
+    expect(report.removedUrls).toBe(1);
+  });
+
+  it("should pick the strictest mode of server, API key and request", async () => {
+    const service = await createService({ htmlSanitizeMode: "scripts" });
+    const apiKey = { id: "acme", javascript: false } as ApiKey;
+
+    expect(service.resolve()).toEqual({ mode: "scripts", javascript: true });
+    expect(service.resolve({ mode: "off" })).toEqual({
+      mode: "scripts",
+      javascript: true,
+    });
+    expect(service.resolve({ mode: "strict" }, apiKey)).toEqual({
+      mode: "strict",
+      javascript: false,
+    });
+    expect(
+      service.resolve({ javascript: true }, { ...apiKey, sanitize: "strict" })
+    ).toEqual({ mode: "strict", javascript: false });
+  });
+
+  it("should refuse to start with an unknown default mode", async () => {
+    await expect(
+      createService({ htmlSanitizeMode: "paranoid" })
+    ).rejects.toThrow("Invalid HTML_SANITIZE_MODE paranoid");
+  });
+});
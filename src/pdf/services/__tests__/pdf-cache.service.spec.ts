@@ -0,0 +1,269 @@
+import { Test } from "@nestjs/testing";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { UsageService } from "../../../auth";
+import { RequestContext } from "../../../common";
+import { ConfigService } from "../../../config";
+import { FontService } from "../../../fonts/services/font.service";
+import { PrometheusService } from "../../../health";
+import {
+  PDF_CACHE_STORE,
+  PdfCacheStore,
+} from "../../interfaces/pdf-cache.interface";
+import { DiskCacheStore } from "../../stores/disk-cache.store";
+import { MemoryCacheStore } from "../../stores/memory-cache.store";
+import { HeaderFooterService } from "../header-footer.service";
+import { HtmlSanitizerService } from "../html-sanitizer.service";
+import { PdfCacheService } from "../pdf-cache.service";
+
+describe("PdfCacheService", () => {
+  let usageService: { recordConversion: jest.Mock };
+  let prometheusService: PrometheusService;
+  let fontService: FontService;
+
+  const createService = async (
+    config: Partial<ConfigService> = {},
+    store: PdfCacheStore = new MemoryCacheStore(1024)
+  ) => {
+    usageService = { recordConversion: jest.fn() };
+    const module = await Test.createTestingModule({
+      providers: [
+        PdfCacheService,
+        PrometheusService,
+        { provide: UsageService, useValue: usageService },
+        {
+          provide: HtmlSanitizerService,
+          useValue: {
+            resolve: () => ({ mode: "off", javascript: true }),
+          },
+        },
+        HeaderFooterService,
+        {
+          provide: FontService,
+          useFactory: () => new FontService({} as ConfigService),
+        },
+        { provide: PDF_CACHE_STORE, useValue: store },
+        {
+          provide: ConfigService,
+          useValue: { pdfCacheEnabled: true, pdfCacheTtl: 60000, ...config },
+        },
+      ],
+    }).compile();
+
+    prometheusService = module.get(PrometheusService);
+    fontService = module.get(FontService);
+    return module.get(PdfCacheService);
+  };
+
+  const html = { type: "html" as const, input: "<h1>Report</h1>" };
+
+  it("should render once and serve repeats from the cache", async () => {
+    const service = await createService();
+    const convert = jest.fn().mockResolvedValue(Buffer.from("%PDF-1"));
+
+    const miss = await service.getOrConvert(html, "use", convert);
+    const hit = await service.getOrConvert(html, "use", convert);
+
+    expect(convert).toHaveBeenCalledTimes(1);
+    expect(miss).toMatchObject({ status: "miss", etag: expect.any(String) });
+    expect(hit).toEqual({ ...miss, status: "hit" });
+    expect(usageService.recordConversion).toHaveBeenCalledWith(miss.pdf, "pdf");
+    const metrics = await prometheusService.getMetrics();
+    expect(metrics).toContain('pdf_cache_lookups_total{result="hit"} 1');
+    expect(metrics).toContain('pdf_cache_lookups_total{result="miss"} 1');
+  });
+
+  it("should key by normalized options and input", async () => {
+    const service = await createService();
+
+    expect(
+      service.key({
+        ...html,
+        options: { scale: 1, format: "A4", margin: { top: "1cm" } },
+      })
+    ).toBe(
+      service.key({
+        ...html,
+        options: { margin: { top: "1cm" }, format: "A4", scale: 1 },
+        sanitize: undefined,
+      })
+    );
+    expect(service.key({ type: "url", input: "https://EXAMPLE.com" })).toBe(
+      service.key({ type: "url", input: "https://example.com/" })
+    );
+    expect(service.key({ ...html, options: { format: "A3" } })).not.toBe(
+      service.key(html)
+    );
+    expect(service.key({ type: "url", input: html.input })).not.toBe(
+      service.key(html)
+    );
+  });
+
+  it("should change keys with fonts, header templates and server defaults", async () => {
+    const service = await createService();
+    const before = service.key(html);
+
+    fontService.register(
+      "Inter",
+      Buffer.from([0x00, 0x01, 0x00, 0x00]),
+      "Inter.ttf"
+    );
+    const withFont = service.key(html);
+    expect(withFont).not.toBe(before);
+    fontService.remove("Inter");
+    expect(service.key(html)).toBe(before);
+
+    const withFooter = await createService({
+      pdfHeaderFooterPreset: "page-numbers",
+    });
+    expect(withFooter.key(html)).not.toBe(before);
+
+    const watermarked = await createService({ pdfWatermarkEnabled: true });
+    expect(watermarked.key(html)).not.toBe(before);
+  });
+
+  it("should keep keys while the date in the default header changes", async () => {
+    const service = await createService();
+    jest.useFakeTimers({ now: new Date("2024-01-15T10:00:00Z") });
+    try {
+      const before = service.key(html);
+
+      jest.setSystemTime(new Date("2024-01-16T10:05:00Z"));
+      expect(service.key(html)).toBe(before);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("should render again for refresh and skip the cache for bypass", async () => {
+    const service = await createService();
+    const convert = jest
+      .fn()
+      .mockResolvedValueOnce(Buffer.from("%PDF-1"))
+      .mockResolvedValueOnce(Buffer.from("%PDF-2"))
+      .mockResolvedValueOnce(Buffer.from("%PDF-3"));
+
+    await service.getOrConvert(html, "use", convert);
+    const refreshed = await service.getOrConvert(html, "refresh", convert);
+    const bypassed = await service.getOrConvert(html, "bypass", convert);
+    const cached = await service.getOrConvert(html, "use", convert);
+
+    expect(refreshed).toMatchObject({ status: "miss" });
+    expect(bypassed).toEqual({ pdf: Buffer.from("%PDF-3"), status: "bypass" });
+    expect(cached).toMatchObject({
+      status: "hit",
+      pdf: Buffer.from("%PDF-2"),
+    });
+  });
+
+  it("should share one render between identical concurrent requests", async () => {
+    const service = await createService();
+    let finish: (pdf: Buffer) => void = () => undefined;
+    const convert = jest.fn(
+      () => new Promise<Buffer>((resolve) => (finish = resolve))
+    );
+
+    const first = service.getOrConvert(html, "use", convert);
+    await new Promise((resolve) => setImmediate(resolve));
+    const second = service.getOrConvert(html, "use", convert);
+    finish(Buffer.from("%PDF-1"));
+
+    await expect(first).resolves.toMatchObject({ status: "miss" });
+    await expect(second).resolves.toMatchObject({ status: "hit" });
+    expect(convert).toHaveBeenCalledTimes(1);
+  });
+
+  it("should restore the sanitize report of a cached PDF", async () => {
+    const service = await createService();
+    const report = {
+      mode: "strict" as const,
+      javascript: false,
+      removedTags: { script: 1 },
+      removedAttributes: {},
+      removedUrls: 0,
+    };
+
+    await RequestContext.run({ requestId: "first" }, () =>
+      service.getOrConvert(html, "use", async () => {
+        RequestContext.current()!.sanitizeReport = report;
+        return Buffer.from("%PDF-1");
+      })
+    );
+    const context = { requestId: "second" };
+    await RequestContext.run(context, () =>
+      service.getOrConvert(html, "use", jest.fn())
+    );
+
+    expect(context).toMatchObject({ sanitizeReport: report });
+  });
+
+  it("should convert every time while disabled", async () => {
+    const service = await createService({ pdfCacheEnabled: false });
+    const convert = jest.fn().mockResolvedValue(Buffer.from("%PDF-1"));
+
+    await service.getOrConvert(html, "use", convert);
+    const result = await service.getOrConvert(html, "use", convert);
+
+    expect(result).toEqual({ pdf: Buffer.from("%PDF-1"), status: "off" });
+    expect(convert).toHaveBeenCalledTimes(2);
+  });
+
+  it("should evict the least recently used PDFs beyond the size limit", async () => {
+    const store = new MemoryCacheStore(10);
+    const entry = (pdf: string) => ({
+      pdf: Buffer.from(pdf),
+      etag: `"${pdf}"`,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + 60000,
+    });
+
+    await store.set("a", entry("aaaa"));
+    await store.set("b", entry("bbbb"));
+    await store.get("a");
+    await store.set("c", entry("cccc"));
+
+    expect(await store.get("a")).not.toBeNull();
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+  });
+
+  describe("DiskCacheStore", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(join(tmpdir(), "pdf-cache-"));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("should keep cached PDFs across restarts and drop expired ones", async () => {
+      const store = new DiskCacheStore(directory, 1024);
+      await store.load();
+      const now = Date.now();
+      await store.set("aa", {
+        pdf: Buffer.from("%PDF-1"),
+        etag: '"1"',
+        createdAt: now,
+        expiresAt: now + 60000,
+      });
+      await store.set("bb", {
+        pdf: Buffer.from("%PDF-2"),
+        etag: '"2"',
+        createdAt: now,
+        expiresAt: now - 1,
+      });
+
+      const restarted = new DiskCacheStore(directory, 1024);
+      await restarted.load();
+
+      await expect(restarted.get("aa")).resolves.toMatchObject({
+        pdf: Buffer.from("%PDF-1"),
+        etag: '"1"',
+      });
+      await expect(restarted.get("bb")).resolves.toBeNull();
+    });
+  });
+});
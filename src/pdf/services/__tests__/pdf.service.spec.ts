@@ -0,0 +1,141 @@
+import { ArgumentsHost, HttpException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { UsageService } from "../../../auth";
+import { ApiExceptionFilter } from "../../../common/filters/api-exception.filter";
+import { ConfigService } from "../../../config";
+import { FontService } from "../../../fonts/services/font.service";
+import { PrometheusService } from "../../../health/services/prometheus.service";
+import {
+  DEFAULT_PDF_FORMAT,
+  DEFAULT_PDF_MARGIN,
+  DEFAULT_PDF_SCALE,
+} from "../../constants/pdf.constants";
+import { PdfOptionsDto } from "../../dto/pdf-options.dto";
+import { PdfErrorCode } from "../../errors/pdf-error-code";
+import { BrowserPoolService } from "../browser-pool.service";
+import { HeaderFooterService } from "../header-footer.service";
+import { HtmlSanitizerService } from "../html-sanitizer.service";
+import { PdfService } from "../pdf.service";
+import { UrlPolicyService } from "../url-policy.service";
+import { WatermarkService } from "../watermark.service";
+
+jest.mock("puppeteer", () => ({ launch: jest.fn() }));
+
+describe("PdfService", () => {
+  let service: PdfService;
+  const page = { goto: jest.fn() };
+  const browserPoolService = {
+    getPage: jest.fn().mockResolvedValue(page),
+    closePage: jest.fn(),
+    setResourcePolicy: jest.fn(),
+    setLocale: jest.fn(),
+    takePolicyViolation: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PdfService,
+        PrometheusService,
+        { provide: ConfigService, useValue: {} },
+        { provide: BrowserPoolService, useValue: browserPoolService },
+        { provide: UrlPolicyService, useValue: { assertAllowed: jest.fn() } },
+        { provide: HeaderFooterService, useValue: {} },
+        { provide: WatermarkService, useValue: {} },
+        { provide: UsageService, useValue: {} },
+        { provide: HtmlSanitizerService, useValue: {} },
+        {
+          provide: FontService,
+          useValue: { empty: true, assertInstalled: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get(PdfService);
+  });
+
+  describe("buildPdfOptions", () => {
+    const build = (options: PdfOptionsDto) =>
+      (service as any).buildPdfOptions(options);
+
+    it("should fill in the defaults", () => {
+      expect(build({})).toEqual({
+        format: DEFAULT_PDF_FORMAT,
+        landscape: false,
+        scale: DEFAULT_PDF_SCALE,
+        pageRanges: "",
+        printBackground: true,
+        preferCSSPageSize: false,
+        margin: DEFAULT_PDF_MARGIN,
+      });
+    });
+
+    it("should map the requested layout", () => {
+      expect(
+        build({
+          format: "Letter",
+          orientation: "landscape",
+          scale: 1.2,
+          pageRanges: "1-3",
+          printBackground: false,
+          preferCSSPageSize: true,
+          margin: { top: "0", left: "15mm" },
+        })
+      ).toEqual({
+        format: "Letter",
+        landscape: true,
+        scale: 1.2,
+        pageRanges: "1-3",
+        printBackground: false,
+        preferCSSPageSize: true,
+        margin: { ...DEFAULT_PDF_MARGIN, top: "0", left: "15mm" },
+      });
+    });
+
+    it("should use a custom size instead of the format", () => {
+      const options = build({ format: "A3", width: "8.5in", height: "11in" });
+
+      expect(options).toMatchObject({ width: "8.5in", height: "11in" });
+      expect(options.format).toBeUndefined();
+    });
+  });
+
+  describe("upstream HTTP errors", () => {
+    const send = (exception: unknown) => {
+      const response = {
+        headersSent: false,
+        getHeader: jest.fn(),
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn(),
+      };
+      new ApiExceptionFilter().catch(exception, {
+        switchToHttp: () => ({ getResponse: () => response }),
+      } as unknown as ArgumentsHost);
+      return response.json.mock.calls[0][0];
+    };
+
+    it("should report the page's status once, without retrying", async () => {
+      page.goto.mockResolvedValue({
+        status: () => 404,
+        statusText: () => "Not Found",
+        headers: () => ({ "content-type": "text/html" }),
+      });
+
+      const error = await service
+        .convertUrlToPdf("https://example.com/missing")
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect(page.goto).toHaveBeenCalledTimes(1);
+      expect(send(error)).toMatchObject({
+        statusCode: 502,
+        code: PdfErrorCode.UPSTREAM_HTTP_ERROR,
+        stage: "navigation",
+        url: "https://example.com/missing",
+        httpStatus: 404,
+      });
+      expect(browserPoolService.closePage).toHaveBeenCalledWith(page);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { lookup } from "dns/promises";
+import { ConfigService } from "../../../config";
+import { PdfError } from "../../errors/pdf.error";
+import { UrlPolicyService } from "../url-policy.service";
+
+jest.mock("dns/promises", () => ({ lookup: jest.fn() }));
+
+describe("UrlPolicyService", () => {
+  const lookupMock = lookup as unknown as jest.Mock;
+
+  const createService = async (config: Partial<ConfigService> = {}) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UrlPolicyService,
+        {
+          provide: ConfigService,
+          useValue: {
+            urlPolicyEnabled: true,
+            urlBlockPrivateNetworks: true,
+            urlAllowHosts: [],
+            urlDenyHosts: [],
+            urlAllowCidrs: [],
+            urlDenyCidrs: [],
+            urlAllowPorts: [],
+            urlDenyPorts: [],
+            ...config,
+          },
+        },
+      ],
+    }).compile();
+
+    return module.get<UrlPolicyService>(UrlPolicyService);
+  };
+
+  beforeEach(() => {
+    lookupMock.mockReset();
+    lookupMock.mockResolvedValue([{ address: "93.184.215.14", family: 4 }]);
+  });
+
+  it("should allow public addresses and local schemes", async () => {
+    const service = await createService();
+
+    await expect(service.evaluate("https://example.com/")).resolves.toEqual({
+      allowed: true,
+    });
+    await expect(service.evaluate("data:text/plain,hi")).resolves.toEqual({
+      allowed: true,
+    });
+  });
+
+  it.each([
+    "http://127.0.0.1/",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://10.1.2.3:8080/",
+    "http://192.168.0.10/",
+    "http://[::1]/",
+    "http://[::ffff:10.0.0.1]/",
+    "http://0x7f.1/",
+  ])("should block the private address in %s", async (url) => {
+    const service = await createService();
+
+    const decision = await service.evaluate(url);
+
+    expect(decision.allowed).toBe(false);
+  });
+
+  it("should block host names resolving to private addresses", async () => {
+    lookupMock.mockResolvedValue([{ address: "172.16.5.4", family: 4 }]);
+    const service = await createService();
+
+    const decision = await service.evaluate("https://internal.example.com/");
+
+    expect(decision).toEqual({
+      allowed: false,
+      reason: expect.stringContaining("internal.example.com resolves to"),
+    });
+  });
+
+  it("should reject non-web schemes", async () => {
+    const service = await createService();
+
+    await expect(service.evaluate("file:///etc/passwd")).resolves.toEqual({
+      allowed: false,
+      reason: "The file: scheme is not allowed",
+    });
+  });
+
+  it("should apply host allow and deny lists", async () => {
+    const service = await createService({
+      urlAllowHosts: ["*.example.com", "example.org"],
+      urlDenyHosts: ["admin.example.com"],
+    });
+
+    expect((await service.evaluate("https://docs.example.com")).allowed).toBe(
+      true
+    );
+    expect((await service.evaluate("https://example.org")).allowed).toBe(true);
+    expect((await service.evaluate("https://admin.example.com")).allowed).toBe(
+      false
+    );
+    expect((await service.evaluate("https://example.net")).allowed).toBe(false);
+  });
+
+  it("should apply port and CIDR lists", async () => {
+    const service = await createService({
+      urlAllowPorts: [80, 443],
+      urlAllowCidrs: ["10.20.0.0/16"],
+      urlDenyCidrs: ["93.184.215.0/24"],
+    });
+
+    expect((await service.evaluate("http://10.20.1.1/")).allowed).toBe(true);
+    expect((await service.evaluate("http://10.21.1.1/")).allowed).toBe(false);
+    expect((await service.evaluate("https://example.com/")).allowed).toBe(
+      false
+    );
+    expect((await service.evaluate("http://8.8.8.8:8080/")).allowed).toBe(
+      false
+    );
+  });
+
+  it("should allow everything on the web when disabled", async () => {
+    const service = await createService({ urlPolicyEnabled: false });
+
+    expect((await service.evaluate("http://127.0.0.1/")).allowed).toBe(true);
+    expect((await service.evaluate("file:///etc/passwd")).allowed).toBe(false);
+  });
+
+  it("should throw a url_policy PdfError from assertAllowed", async () => {
+    const service = await createService();
+
+    await expect(
+      service.assertAllowed("http://169.254.169.254/")
+    ).rejects.toThrow(PdfError);
+    await expect(
+      service.assertAllowed("http://169.254.169.254/")
+    ).rejects.toMatchObject({
+      context: { stage: "url_policy", url: "http://169.254.169.254/" },
+    });
+  });
+
+  it("should refuse to start with an invalid CIDR", async () => {
+    await expect(
+      createService({ urlDenyCidrs: ["not-a-network/8"] })
+    ).rejects.toThrow("Invalid CIDR not-a-network/8 in URL_DENY_CIDRS");
+  });
+});
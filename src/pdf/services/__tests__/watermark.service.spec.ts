@@ -0,0 +1,95 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { PDFDocument } from "pdf-lib";
+import { ConfigService } from "../../../config";
+import { PdfError } from "../../errors/pdf.error";
+import { WatermarkService } from "../watermark.service";
+
+describe("WatermarkService", () => {
+  let service: WatermarkService;
+  let config: Record<string, unknown>;
+
+  const createPdf = async (pageCount: number): Promise<Buffer> => {
+    const document = await PDFDocument.create();
+    for (let i = 0; i < pageCount; i++) {
+      document.addPage([595, 842]);
+    }
+    return Buffer.from(await document.save());
+  };
+
+  beforeEach(async () => {
+    config = {
+      pdfWatermarkEnabled: false,
+      pdfWatermarkText: "Generated by HTML2PDF",
+      pdfWatermarkOpacity: 0.3,
+      pdfWatermarkFontSize: 24,
+      pdfWatermarkColor: "#666666",
+      pdfWatermarkPosition: "bottom-right",
+      pdfWatermarkRotation: undefined,
+      pdfWatermarkPages: "all",
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WatermarkService,
+        { provide: ConfigService, useValue: config },
+      ],
+    }).compile();
+
+    service = module.get<WatermarkService>(WatermarkService);
+  });
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should leave the PDF untouched when no watermark is configured", async () => {
+    const pdf = await createPdf(1);
+    await expect(service.apply(pdf)).resolves.toBe(pdf);
+  });
+
+  it("should stamp a text watermark given per request", async () => {
+    const pdf = await createPdf(2);
+    const result = await service.apply(pdf, {
+      text: "DRAFT",
+      position: "diagonal",
+    });
+
+    expect(result).not.toBe(pdf);
+    const document = await PDFDocument.load(result);
+    expect(document.getPageCount()).toBe(2);
+  });
+
+  it("should use the global configuration when enabled", async () => {
+    config.pdfWatermarkEnabled = true;
+    const pdf = await createPdf(1);
+
+    const result = await service.apply(pdf);
+
+    expect(result).not.toBe(pdf);
+  });
+
+  it("should allow a request to switch off the global watermark", async () => {
+    config.pdfWatermarkEnabled = true;
+    const pdf = await createPdf(1);
+
+    await expect(service.apply(pdf, { enabled: false })).resolves.toBe(pdf);
+  });
+
+  it("should only visit the document's pages of a page range", () => {
+    const selectPages = (pages: string, pageCount: number): number[] =>
+      (service as any).selectPages(pages, pageCount);
+
+    expect(selectPages("2-9999999999", 3)).toEqual([1, 2]);
+    expect(selectPages("0-1,3,9999999999", 3)).toEqual([0, 2]);
+  });
+
+  it("should reject images that are neither PNG nor JPEG", async () => {
+    const pdf = await createPdf(1);
+
+    await expect(
+      service.apply(pdf, {
+        image: Buffer.from("GIF89a").toString("base64"),
+      })
+    ).rejects.toThrow(PdfError);
+  });
+});
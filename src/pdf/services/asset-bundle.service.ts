@@ -0,0 +1,205 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import * as JSZip from "jszip";
+import { tmpdir } from "os";
+import { dirname, join, posix } from "path";
+import { Readable } from "stream";
+import { AssetBundle } from "../bundles/asset-bundle";
+import {
+  DEFAULT_BUNDLE_ENTRY,
+  MAX_BUNDLE_FILES,
+  MAX_BUNDLE_SIZE,
+} from "../constants/pdf.constants";
+import { BundleFile } from "../interfaces/bundle-file.interface";
+import { HtmlFileUploads } from "../interfaces/html-file-uploads.interface";
+
+@Injectable()
+export class AssetBundleService {
+  private readonly logger = new Logger(AssetBundleService.name);
+
+  /**
+   * Builds a bundle from the html-file upload fields: an optional ZIP bundle,
+   * loose asset files (whose filenames may contain subdirectories) and an
+   * optional HTML file, which becomes the entry document when present.
+   */
+  async fromUploads(
+    uploads: HtmlFileUploads,
+    entry?: string
+  ): Promise<AssetBundle> {
+    const archive = uploads.bundle?.[0];
+    const files = archive ? await this.extractZip(archive.buffer) : [];
+
+    for (const asset of uploads.assets ?? []) {
+      files.push({ path: asset.originalname, content: asset.buffer });
+    }
+
+    const entryFile = uploads.file?.[0];
+    if (entryFile) {
+      const entryPath = posix.basename(entryFile.originalname);
+      files.push({ path: entryPath, content: entryFile.buffer });
+      return this.create(files, entryPath);
+    }
+
+    return this.create(files, entry);
+  }
+
+  /** Reads the files of a ZIP archive, skipping directories and macOS metadata. */
+  async extractZip(archive: Buffer): Promise<BundleFile[]> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(archive);
+    } catch (error) {
+      throw new BadRequestException("Bundle is not a valid ZIP archive", {
+        cause: error,
+      });
+    }
+
+    const entries = Object.values(zip.files).filter(
+      (entry) => !entry.dir && !entry.name.startsWith("__MACOSX/")
+    );
+    this.checkFileCount(entries.length);
+
+    const files: BundleFile[] = [];
+    let totalSize = 0;
+    for (const entry of entries) {
+      // The declared size rejects honest archives without inflating them,
+      // the running count catches entries that lie about it
+      this.checkTotalSize(totalSize + this.declaredSize(entry));
+      const content = await this.inflate(entry, MAX_BUNDLE_SIZE - totalSize);
+      totalSize += content.length;
+      files.push({ path: entry.name, content });
+    }
+    return files;
+  }
+
+  /**
+   * Writes the files to a fresh temporary directory. The entry document is
+   * the given path, or else the shallowest index.html, or else the only HTML
+   * file in the bundle.
+   */
+  async create(files: BundleFile[], entry?: string): Promise<AssetBundle> {
+    this.checkFileCount(files.length);
+    this.checkTotalSize(
+      files.reduce((total, file) => total + file.content.length, 0)
+    );
+
+    const normalized = files.map((file) => ({
+      path: this.normalizePath(file.path),
+      content: file.content,
+    }));
+    const entryPath = this.findEntry(
+      normalized.map((file) => file.path),
+      entry
+    );
+
+    const dir = await mkdtemp(join(tmpdir(), "html2pdf-bundle-"));
+    try {
+      for (const file of normalized) {
+        const filePath = join(dir, ...file.path.split("/"));
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, file.content);
+      }
+    } catch (error) {
+      await rm(dir, { recursive: true, force: true });
+      throw error;
+    }
+
+    this.logger.debug(
+      `Extracted bundle of ${normalized.length} files to ${dir} (entry: ${entryPath})`
+    );
+    return new AssetBundle(dir, entryPath);
+  }
+
+  private normalizePath(path: string): string {
+    const normalized = posix.normalize(path.replace(/\\/g, "/"));
+    if (
+      normalized.startsWith("../") ||
+      normalized === ".." ||
+      posix.isAbsolute(normalized)
+    ) {
+      throw new BadRequestException(
+        `Bundle file path ${path} points outside the bundle`
+      );
+    }
+    return normalized;
+  }
+
+  private findEntry(paths: string[], entry?: string): string {
+    if (entry) {
+      const entryPath = this.normalizePath(entry);
+      if (!paths.includes(entryPath)) {
+        throw new BadRequestException(
+          `Entry file ${entry} not found in the bundle`
+        );
+      }
+      return entryPath;
+    }
+
+    const depth = (path: string) => path.split("/").length;
+    const [index] = paths
+      .filter((path) => posix.basename(path) === DEFAULT_BUNDLE_ENTRY)
+      .sort((a, b) => depth(a) - depth(b));
+    if (index) {
+      return index;
+    }
+
+    const htmlFiles = paths.filter((path) => /\.html?$/i.test(path));
+    if (htmlFiles.length === 1) {
+      return htmlFiles[0];
+    }
+
+    throw new BadRequestException(
+      htmlFiles.length === 0
+        ? "Bundle does not contain an HTML file"
+        : "Bundle contains several HTML files; set entry to choose one"
+    );
+  }
+
+  private declaredSize(entry: JSZip.JSZipObject): number {
+    // Uncompressed size from the central directory, not part of the typings
+    const data = (entry as unknown as { _data?: { uncompressedSize?: number } })
+      ._data;
+    return data?.uncompressedSize ?? 0;
+  }
+
+  /** Inflates an entry chunk by chunk, giving up once it exceeds limit bytes. */
+  private inflate(entry: JSZip.JSZipObject, limit: number): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const stream = entry.nodeStream("nodebuffer") as Readable;
+      stream
+        .on("data", (chunk: Buffer) => {
+          size += chunk.length;
+          if (size > limit) {
+            stream.destroy();
+            reject(this.tooLarge());
+            return;
+          }
+          chunks.push(chunk);
+        })
+        .on("error", reject)
+        .on("end", () => resolve(Buffer.concat(chunks)));
+    });
+  }
+
+  private checkFileCount(count: number): void {
+    if (count > MAX_BUNDLE_FILES) {
+      throw new BadRequestException(
+        `Bundle contains more than ${MAX_BUNDLE_FILES} files`
+      );
+    }
+  }
+
+  private checkTotalSize(size: number): void {
+    if (size > MAX_BUNDLE_SIZE) {
+      throw this.tooLarge();
+    }
+  }
+
+  private tooLarge(): BadRequestException {
+    return new BadRequestException(
+      `Bundle exceeds ${MAX_BUNDLE_SIZE / 1024 / 1024}MB when extracted`
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { BadRequestException, Injectable, Logger } from "@nestjs/common";
+import * as JSZip from "jszip";
+import { PDFDocument } from "pdf-lib";
+import { RequestContext } from "../../common/context/request-context";
+import { BatchItemDto } from "../dto/batch.dto";
+import { PdfError } from "../errors/pdf.error";
+import {
+  BatchItemResult,
+  BatchReport,
+} from "../interfaces/batch-result.interface";
+import { BrowserPoolService } from "./browser-pool.service";
+import { PdfService } from "./pdf.service";
+
+@Injectable()
+export class BatchService {
+  private readonly logger = new Logger(BatchService.name);
+
+  constructor(
+    private readonly pdfService: PdfService,
+    private readonly browserPoolService: BrowserPoolService
+  ) {}
+
+  async convert(items: BatchItemDto[]): Promise<BatchItemResult[]> {
+    const filenames = this.assignFilenames(items);
+    const results: BatchItemResult[] = new Array(items.length);
+
+    // Never fan out wider than the browser pool accepts concurrent requests
+    const concurrency = Math.max(
+      1,
+      Math.min(
+        items.length,
+        this.browserPoolService.getBrowserStatus().maxConcurrentRequests
+      )
+    );
+    let nextIndex = 0;
+
+    const worker = async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        // Each item keeps its own sanitization report
+        results[index] = await RequestContext.fork(() =>
+          this.convertItem(items[index], index, filenames[index])
+        );
+      }
+    };
+
+    this.logger.debug(
+      `Converting batch of ${items.length} items with concurrency ${concurrency}`
+    );
+    await Promise.all(Array.from({ length: concurrency }, worker));
+    return results;
+  }
+
+  buildReport(results: BatchItemResult[]): BatchReport {
+    const succeeded = results.filter(
+      (result) => result.status === "succeeded"
+    ).length;
+
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      items: results.map(({ pdf: _pdf, ...item }) => item),
+    };
+  }
+
+  async buildZip(results: BatchItemResult[]): Promise<Buffer> {
+    const zip = new JSZip();
+    for (const result of results) {
+      if (result.pdf) {
+        zip.file(result.filename, result.pdf);
+      }
+    }
+    zip.file("report.json", JSON.stringify(this.buildReport(results), null, 2));
+
+    return zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+    });
+  }
+
+  async buildMergedPdf(results: BatchItemResult[]): Promise<Buffer> {
+    const successful = results.filter((result) => result.pdf);
+    if (successful.length === 0) {
+      throw new BadRequestException("All batch items failed to convert");
+    }
+
+    const merged = await PDFDocument.create();
+    for (const result of successful) {
+      const document = await PDFDocument.load(result.pdf as Buffer);
+      const pages = await merged.copyPages(document, document.getPageIndices());
+      pages.forEach((page) => merged.addPage(page));
+    }
+
+    return Buffer.from(await merged.save());
+  }
+
+  private async convertItem(
+    item: BatchItemDto,
+    index: number,
+    filename: string
+  ): Promise<BatchItemResult> {
+    const startedAt = Date.now();
+
+    try {
+      if (item.html !== undefined && item.url !== undefined) {
+        throw new BadRequestException("Provide either html or url, not both");
+      }
+
+      const pdf =
+        item.url !== undefined
+          ? await this.pdfService.convertUrlToPdf(item.url, item.options)
+          : await this.pdfService.convertHtmlToPdf(
+              item.html ?? "",
+              item.options,
+              item.sanitize
+            );
+
+      return {
+        index,
+        filename,
+        status: "succeeded",
+        durationMs: Date.now() - startedAt,
+        byteSize: pdf.length,
+        sanitizeReport: RequestContext.current()?.sanitizeReport,
+        pdf,
+      };
+    } catch (error: unknown) {
+      this.logger.warn(
+        `Batch item ${index} failed: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      return {
+        index,
+        filename,
+        status: "failed",
+        durationMs: Date.now() - startedAt,
+        error: PdfError.describe(error),
+        sanitizeReport: RequestContext.current()?.sanitizeReport,
+      };
+    }
+  }
+
+  private assignFilenames(items: BatchItemDto[]): string[] {
+    const used = new Set<string>();
+
+    return items.map((item, index) => {
+      const base = (item.filename ?? `document-${index + 1}`).replace(
+        /\.pdf$/i,
+        ""
+      );
+      let filename = `${base}.pdf`;
+      // Keep ZIP entries unique when callers reuse a name
+      for (let suffix = 2; used.has(filename.toLowerCase()); suffix++) {
+        filename = `${base}-${suffix}.pdf`;
+      }
+      used.add(filename.toLowerCase());
+      return filename;
+    });
+  }
+}
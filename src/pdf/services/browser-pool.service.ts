@@ -1,11 +1,54 @@
 import {
+  BeforeApplicationShutdown,
+  ConflictException,
   Injectable,
   Logger,
-  OnModuleDestroy,
   OnModuleInit,
+  ServiceUnavailableException,
 } from "@nestjs/common";
 import * as puppeteer from "puppeteer";
-import { Browser, Page } from "puppeteer";
+import {
+  Browser,
+  BrowserContext,
+  CDPSession,
+  HTTPRequest,
+  Page,
+} from "puppeteer";
+import { RequestContext, ServiceBusyException } from "../../common";
+import { ConfigService } from "../../config";
+import { PrometheusService } from "../../health/services/prometheus.service";
+import {
+  BROWSER_LAUNCH_ARGS,
+  DEFAULT_QUEUE_PRIORITY,
+  QUEUE_PRIORITIES,
+  QueuePriority,
+  RESOURCE_TYPES,
+} from "../constants/pdf.constants";
+import { PdfErrorCode } from "../errors/pdf-error-code";
+import { PdfError } from "../errors/pdf.error";
+import {
+  BrowserInstanceStats,
+  BrowserPoolStatus,
+} from "../interfaces/browser-pool.interface";
+import { RequestHandler } from "../interfaces/request-handler.interface";
+import {
+  BlockedRequests,
+  ResourcePolicy,
+} from "../interfaces/resource-policy.interface";
+import { UrlSession } from "../interfaces/url-session.interface";
+import {
+  acceptLanguage,
+  isValidLocale,
+  isValidTimezone,
+  navigatorLanguages,
+  overrideLanguages,
+} from "../utils/locale.util";
+import {
+  ResourceFilter,
+  createResourceFilter,
+} from "../utils/resource-policy.util";
+import { seedLocalStorage, sessionHeaders } from "../utils/url-session.util";
+import { UrlPolicyService } from "./url-policy.service";
 
 interface PagePoolItem {
   page: Page;
@@ -25,48 +68,211 @@ interface BrowserInstance {
 }
 
 interface PendingRequest {
-  resolve: (page: Page) => void;
+  resolve: () => void;
   reject: (error: Error) => void;
   timestamp: number;
-  priority: number;
+  priority: QueuePriority;
+  timeout: NodeJS.Timeout;
 }
 
+const rank = (priority: QueuePriority) => QUEUE_PRIORITIES.indexOf(priority);
+
 @Injectable()
-export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
+export class BrowserPoolService
+  implements OnModuleInit, BeforeApplicationShutdown
+{
   private readonly logger = new Logger(BrowserPoolService.name);
 
   // Multiple browser instances for load balancing
   private readonly browsers: BrowserInstance[] = [];
-  private readonly maxBrowsers = 3; // Maximum number of browser instances
-  private readonly maxPagesPerBrowser = 8; // Reduced per browser since we have multiple
-  private readonly browserMaxAge = 10 * 60 * 1000; // 10 minutes browser lifetime
+  private readonly maxBrowsers: number;
+  private readonly maxPagesPerBrowser: number;
+  private readonly browserMaxAge: number;
+  private readonly launchArgs: string[];
 
-  // Concurrency management
-  private readonly maxConcurrentRequests = 10; // Maximum concurrent PDF requests
+  // Concurrency management; a page holds its slot until it is closed
+  private readonly maxConcurrentRequests: number;
   private activeRequests = 0;
+  private readonly leasedPages = new Set<Page>();
+
+  // Requests waiting for a slot, highest priority first
   private readonly requestQueue: PendingRequest[] = [];
+  private readonly queueMaxLength: number;
+  private readonly queueTimeout: number;
+  private readonly queueRetryAfter: number;
+  // While draining no new pages are handed out, leased and queued work finishes
+  private draining = false;
+  // Set once the shutdown grace period is over and the browsers are closing
+  private shutDown = false;
+  // Work accepted elsewhere that will still need pages, such as queued jobs
+  private readonly pendingWorkSources: (() => number)[] = [];
+  private readonly idlePollInterval = 100;
 
   // Page pool configuration
-  private readonly pagePoolSize = 8; // Increased pool size
-  private readonly maxPageAge = 5 * 60 * 1000; // 5 minutes in milliseconds
+  private readonly pagePoolSize: number;
+  private readonly maxPageAge: number;
   private readonly pagePool: PagePoolItem[] = [];
 
+  // Per-conversion request handlers, dropped when the page is reset
+  private readonly requestHandlers = new WeakMap<Page, RequestHandler[]>();
+  // Main frame navigations blocked by the URL policy, until collected
+  private readonly policyViolations = new WeakMap<Page, PdfError>();
+  // Identifiers of per-conversion evaluateOnNewDocument scripts
+  private readonly documentScripts = new WeakMap<Page, string[]>();
+  // Pages rendering in a private browser context, which closes with them
+  private readonly isolatedPages = new WeakMap<
+    Page,
+    { context: BrowserContext; instance: BrowserInstance }
+  >();
+  // Resource policy of the current conversion and what it blocked so far
+  private readonly defaultResourcePolicy: ResourcePolicy;
+  private readonly defaultResourceFilter: ResourceFilter;
+  private readonly resourceFilters = new WeakMap<Page, ResourceFilter>();
+  private readonly blockedRequests = new WeakMap<Page, BlockedRequests>();
+  // Sessions holding each page's Intl locale override, and the pages whose
+  // conversion changed locale or timezone
+  private readonly defaultLocale: string;
+  private readonly defaultTimezone: string | undefined;
+  private readonly localeSessions = new WeakMap<Page, CDPSession>();
+  private readonly localizedPages = new WeakSet<Page>();
+
   // Cleanup intervals
   private poolCleanupInterval: NodeJS.Timeout | null = null;
   private browserHealthCheckInterval: NodeJS.Timeout | null = null;
 
+  constructor(
+    private readonly urlPolicyService: UrlPolicyService,
+    private readonly configService: ConfigService,
+    private readonly prometheusService: PrometheusService
+  ) {
+    this.maxBrowsers = configService.maxBrowsers;
+    this.maxPagesPerBrowser = configService.maxPagesPerBrowser;
+    this.maxConcurrentRequests = configService.maxConcurrentRequests;
+    this.pagePoolSize = configService.pagePoolSize;
+    this.maxPageAge = configService.pageMaxAge;
+    this.browserMaxAge = configService.browserMaxAge;
+    this.queueMaxLength = configService.queueMaxLength;
+    this.queueTimeout = configService.queueTimeout;
+    this.queueRetryAfter = configService.queueRetryAfter;
+    this.defaultResourcePolicy = {
+      allowTypes: configService.resourceAllowTypes,
+      blockTypes: configService.resourceBlockTypes,
+      allowUrls: configService.resourceAllowUrls,
+      blockUrls: configService.resourceBlockUrls,
+    };
+    this.defaultLocale = configService.pdfLocale;
+    this.defaultTimezone = configService.pdfTimezone;
+    this.validateConfig();
+    this.defaultResourceFilter = createResourceFilter([
+      this.defaultResourcePolicy,
+    ]);
+
+    this.launchArgs = [
+      ...new Set([...configService.puppeteerArgs, ...BROWSER_LAUNCH_ARGS]),
+    ];
+    this.prometheusService.registerBrowserPool(() => this.getBrowserStatus());
+  }
+
   async onModuleInit() {
     await this.initializeBrowsers();
     this.startPagePoolCleanup();
     this.startBrowserHealthCheck();
   }
 
-  async onModuleDestroy() {
+  /**
+   * Drains the pool when the application shuts down: new conversions get a
+   * 503 while running and queued ones, accepted jobs included, have
+   * SHUTDOWN_GRACE_PERIOD to finish. Anything left after that is rejected
+   * and the browsers are closed.
+   */
+  async beforeApplicationShutdown(signal?: string) {
+    this.drain();
+    const gracePeriod = this.configService.shutdownGracePeriod;
+    this.logger.log(
+      `Shutting down${signal ? ` on ${signal}` : ""}, waiting up to ${gracePeriod} ms for conversions to finish`
+    );
+
+    if (!(await this.waitForIdle(gracePeriod))) {
+      this.logger.warn(
+        `Shutdown grace period over with ${this.activeRequests} conversions running and ${this.requestQueue.length} queued, aborting them`
+      );
+    }
+    this.shutDown = true;
+    for (const pendingRequest of [...this.requestQueue]) {
+      this.removeFromQueue(pendingRequest);
+      pendingRequest.reject(this.shutDownError());
+    }
+
     this.stopPagePoolCleanup();
     this.stopBrowserHealthCheck();
     await this.closeAllBrowsers();
   }
 
+  private validateConfig(): void {
+    const settings: [string, number, number][] = [
+      ["MAX_BROWSERS", this.maxBrowsers, 1],
+      ["MAX_PAGES_PER_BROWSER", this.maxPagesPerBrowser, 1],
+      ["MAX_CONCURRENT_REQUESTS", this.maxConcurrentRequests, 1],
+      ["PAGE_POOL_SIZE", this.pagePoolSize, 0],
+      ["PAGE_MAX_AGE", this.maxPageAge, 1],
+      ["BROWSER_MAX_AGE", this.browserMaxAge, 1],
+      ["QUEUE_MAX_LENGTH", this.queueMaxLength, 0],
+      ["QUEUE_TIMEOUT", this.queueTimeout, 1],
+      ["QUEUE_RETRY_AFTER", this.queueRetryAfter, 1],
+      ["SHUTDOWN_GRACE_PERIOD", this.configService.shutdownGracePeriod, 0],
+    ];
+    for (const [name, value, min] of settings) {
+      if (!Number.isInteger(value) || value < min) {
+        throw new Error(`${name} must be an integer of at least ${min}`);
+      }
+    }
+
+    const resourceTypes: [string, string[] | undefined][] = [
+      ["RESOURCE_ALLOW_TYPES", this.defaultResourcePolicy.allowTypes],
+      ["RESOURCE_BLOCK_TYPES", this.defaultResourcePolicy.blockTypes],
+    ];
+    for (const [name, types = []] of resourceTypes) {
+      const invalid = types.filter(
+        (type) => !(RESOURCE_TYPES as readonly string[]).includes(type)
+      );
+      if (invalid.length > 0) {
+        throw new Error(
+          `Invalid ${name} ${invalid.join(", ")}, expected ${RESOURCE_TYPES.join(", ")}`
+        );
+      }
+    }
+
+    if (!isValidLocale(this.defaultLocale)) {
+      throw new Error(
+        `PDF_LOCALE must be a BCP 47 language tag, got ${this.defaultLocale}`
+      );
+    }
+    if (this.defaultTimezone && !isValidTimezone(this.defaultTimezone)) {
+      throw new Error(
+        `PDF_TIMEZONE must be an IANA timezone, got ${this.defaultTimezone}`
+      );
+    }
+
+    const capacity = this.maxBrowsers * this.maxPagesPerBrowser;
+    if (this.pagePoolSize > capacity) {
+      throw new Error(
+        `PAGE_POOL_SIZE (${this.pagePoolSize}) exceeds the ${capacity} pages MAX_BROWSERS and MAX_PAGES_PER_BROWSER allow`
+      );
+    }
+    if (this.maxConcurrentRequests > capacity) {
+      throw new Error(
+        `MAX_CONCURRENT_REQUESTS (${this.maxConcurrentRequests}) exceeds the ${capacity} pages MAX_BROWSERS and MAX_PAGES_PER_BROWSER allow`
+      );
+    }
+
+    const maxConcurrentJobs = this.configService.maxConcurrentJobs;
+    if (maxConcurrentJobs > this.maxConcurrentRequests) {
+      this.logger.warn(
+        `MAX_CONCURRENT_JOBS (${maxConcurrentJobs}) is above MAX_CONCURRENT_REQUESTS (${this.maxConcurrentRequests}), extra jobs will wait for a page`
+      );
+    }
+  }
+
   private async initializeBrowsers(): Promise<void> {
     if (this.browsers.length > 0) {
       return;
@@ -96,53 +302,8 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
       const browser = await puppeteer.launch({
         headless: true,
         channel: "chrome",
-        executablePath: process.env.CHROME_PATH || undefined,
-        args: [
-          "--no-sandbox",
-          "--disable-setuid-sandbox",
-          "--disable-web-security",
-          "--disable-features=IsolateOrigins",
-          "--disable-site-isolation-trials",
-          "--disable-dev-shm-usage",
-          "--no-zygote",
-          "--single-process",
-          "--disable-gpu",
-          "--window-size=1920,1080",
-          "--hide-scrollbars",
-          "--disable-blink-features=AutomationControlled",
-          "--disable-features=IsolateOrigins",
-          "--disable-site-isolation-trials",
-          "--autoplay-policy=user-gesture-required",
-          "--disable-background-networking",
-          "--disable-background-timer-throttling",
-          "--disable-backgrounding-occluded-windows",
-          "--disable-breakpad",
-          "--disable-client-side-phishing-detection",
-          "--disable-component-update",
-          "--disable-default-apps",
-          "--disable-domain-reliability",
-          "--disable-extensions",
-          "--disable-features=AudioServiceOutOfProcess",
-          "--disable-hang-monitor",
-          "--disable-ipc-flooding-protection",
-          "--disable-notifications",
-          "--disable-offer-store-unmasked-wallet-cards",
-          "--disable-popup-blocking",
-          "--disable-print-preview",
-          "--disable-prompt-on-repost",
-          "--disable-renderer-backgrounding",
-          "--disable-speech-api",
-          "--disable-sync",
-          "--ignore-gpu-blacklist",
-          "--metrics-recording-only",
-          "--mute-audio",
-          "--no-default-browser-check",
-          "--no-first-run",
-          "--no-pings",
-          "--password-store=basic",
-          "--use-gl=swiftshader",
-          "--use-mock-keychain",
-        ],
+        executablePath: this.configService.puppeteerExecPath,
+        args: this.launchArgs,
         defaultViewport: {
           width: 1920,
           height: 1080,
@@ -194,60 +355,173 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  async getPage(): Promise<Page> {
-    // Check concurrency limits
-    if (this.activeRequests >= this.maxConcurrentRequests) {
-      return new Promise((resolve, reject) => {
-        const pendingRequest: PendingRequest = {
-          resolve,
-          reject,
-          timestamp: Date.now(),
-          priority: 1, // Default priority
-        };
-        this.requestQueue.push(pendingRequest);
-        this.logger.debug(
-          `Request queued due to concurrency limit (queue size: ${this.requestQueue.length})`
-        );
-      });
+  /**
+   * Leases a page for one conversion. When all request slots are taken the
+   * call waits in the queue by priority and fails with a 503 once the queue
+   * is full or the wait exceeds QUEUE_TIMEOUT. An isolated page gets its own
+   * browser context, so cookies and storage set on it are never shared with
+   * other conversions and go away when the page is closed.
+   */
+  async getPage(options: { isolated?: boolean } = {}): Promise<Page> {
+    // Jobs were accepted before the drain started and may still run
+    if (!RequestContext.current()?.jobId) {
+      this.assertAccepting();
+    } else if (this.shutDown) {
+      throw this.shutDownError();
     }
-
-    this.activeRequests++;
+    await this.acquireSlot(this.requestPriority());
 
     try {
+      if (options.isolated) {
+        const page = await this.createIsolatedPage();
+        this.leasedPages.add(page);
+        return page;
+      }
+
       // Try to get a page from the pool first
-      const pooledPage = this.getPooledPage();
-      if (pooledPage) {
+      let page = this.getPooledPage();
+      if (page) {
         this.logger.debug(
           `Reusing pooled page (pool size: ${this.pagePool.length})`
         );
-        return pooledPage;
+      } else {
+        // If no pooled page available, create a new one
+        this.logger.debug("No pooled page available, creating new page");
+        page = await this.createNewPage();
       }
+      this.leasedPages.add(page);
+      return page;
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+  }
 
-      // If no pooled page available, create a new one
-      this.logger.debug("No pooled page available, creating new page");
-      return await this.createNewPage();
-    } finally {
-      this.activeRequests--;
-      this.processNextQueuedRequest();
+  // X-Priority may lower a request's priority, never raise it above the tier
+  // of its API key
+  private requestPriority(): QueuePriority {
+    const context = RequestContext.current();
+    const tier = context?.apiKey?.priority ?? DEFAULT_QUEUE_PRIORITY;
+    const requested = context?.priority ?? tier;
+    return rank(requested) < rank(tier) ? requested : tier;
+  }
+
+  private acquireSlot(priority: QueuePriority): Promise<void> {
+    if (
+      this.activeRequests < this.maxConcurrentRequests &&
+      this.requestQueue.length === 0
+    ) {
+      this.activeRequests++;
+      this.prometheusService.observeQueueWait(priority, 0);
+      return Promise.resolve();
     }
+
+    if (this.requestQueue.length >= this.queueMaxLength) {
+      // Shed the newest of the lowest priority requests to make room, unless
+      // the new request ranks no higher
+      const lowest = this.requestQueue[this.requestQueue.length - 1];
+      if (!lowest || rank(lowest.priority) >= rank(priority)) {
+        this.prometheusService.recordQueueRejection(priority, "full");
+        return Promise.reject(
+          this.busy("Too many conversions are queued, try again later")
+        );
+      }
+      this.removeFromQueue(lowest);
+      this.prometheusService.recordQueueRejection(lowest.priority, "shed");
+      lowest.reject(
+        this.busy(
+          "The conversion was dropped from the queue for higher priority work"
+        )
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const pendingRequest: PendingRequest = {
+        resolve,
+        reject,
+        timestamp: Date.now(),
+        priority,
+        timeout: setTimeout(() => {
+          this.removeFromQueue(pendingRequest);
+          this.prometheusService.recordQueueRejection(priority, "timeout");
+          reject(
+            this.busy(
+              `No browser page became available within ${this.queueTimeout} ms`
+            )
+          );
+        }, this.queueTimeout),
+      };
+
+      // First come, first served within a priority
+      const index = this.requestQueue.findIndex(
+        (queued) => rank(queued.priority) < rank(priority)
+      );
+      this.requestQueue.splice(
+        index === -1 ? this.requestQueue.length : index,
+        0,
+        pendingRequest
+      );
+      this.logger.debug(
+        `Request queued due to concurrency limit (priority: ${priority}, queue size: ${this.requestQueue.length})`
+      );
+    });
+  }
+
+  private releaseSlot(): void {
+    this.activeRequests = Math.max(0, this.activeRequests - 1);
+    this.processNextQueuedRequest();
   }
 
   private processNextQueuedRequest(): void {
-    if (
+    while (
       this.requestQueue.length > 0 &&
       this.activeRequests < this.maxConcurrentRequests
     ) {
       const nextRequest = this.requestQueue.shift();
-      if (nextRequest) {
-        this.logger.debug(
-          `Processing queued request (queue size: ${this.requestQueue.length})`
-        );
-        // Process the queued request asynchronously
-        this.getPage().then(nextRequest.resolve).catch(nextRequest.reject);
+      if (!nextRequest) {
+        break;
       }
+      clearTimeout(nextRequest.timeout);
+      this.activeRequests++;
+      this.prometheusService.observeQueueWait(
+        nextRequest.priority,
+        (Date.now() - nextRequest.timestamp) / 1000
+      );
+      this.logger.debug(
+        `Processing queued request (queue size: ${this.requestQueue.length})`
+      );
+      nextRequest.resolve();
     }
   }
 
+  private removeFromQueue(pendingRequest: PendingRequest): void {
+    clearTimeout(pendingRequest.timeout);
+    const index = this.requestQueue.indexOf(pendingRequest);
+    if (index > -1) {
+      this.requestQueue.splice(index, 1);
+    }
+  }
+
+  /** Throws a 503 while the pool is draining or shut down. */
+  assertAccepting(): void {
+    if (this.shutDown) {
+      throw this.shutDownError();
+    }
+    if (this.draining) {
+      throw this.busy("The browser pool is draining, try again later");
+    }
+  }
+
+  private shutDownError(): ServiceUnavailableException {
+    return new ServiceUnavailableException(
+      "The server shut down before the conversion could run"
+    );
+  }
+
+  private busy(message: string): ServiceBusyException {
+    return new ServiceBusyException(message, this.queueRetryAfter);
+  }
+
   private getPooledPage(): Page | null {
     const now = Date.now();
 
@@ -306,7 +580,9 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
     // Find the best browser instance using load balancing
     const bestBrowser = this.selectBestBrowser();
     if (!bestBrowser) {
-      throw new Error("No healthy browser instances available");
+      throw new PdfError("No healthy browser instances available", {
+        code: PdfErrorCode.SERVICE_UNAVAILABLE,
+      });
     }
 
     // Check if we've reached the maximum number of pages for this browser
@@ -354,6 +630,36 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  private async createIsolatedPage(): Promise<Page> {
+    const instance = this.selectBestBrowser();
+    if (!instance) {
+      throw new PdfError("No healthy browser instances available", {
+        code: PdfErrorCode.SERVICE_UNAVAILABLE,
+      });
+    }
+
+    const context = await instance.browser.createBrowserContext();
+    try {
+      const page = await context.newPage();
+      instance.activePages++;
+      instance.lastUsed = Date.now();
+      this.isolatedPages.set(page, { context, instance });
+      await this.configurePage(page);
+
+      this.logger.debug(
+        `Created isolated page in browser ${instance.id} (active pages: ${instance.activePages})`
+      );
+      return page;
+    } catch (error) {
+      await context.close().catch(() => undefined);
+      this.logger.error(
+        `Failed to create isolated page in browser ${instance.id}`,
+        error
+      );
+      throw error;
+    }
+  }
+
   private selectBestBrowser(): BrowserInstance | null {
     const healthyBrowsers = this.browsers.filter(
       (browser) => browser.isHealthy
@@ -400,13 +706,7 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
       await page.setUserAgent(
         "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/118.0.0.0 Safari/537.36"
       );
-      await page.setExtraHTTPHeaders({
-        "Accept-Language": "en-US,en;q=0.9",
-        Accept:
-          "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-        "Accept-Encoding": "gzip, deflate, br",
-        Connection: "keep-alive",
-      });
+      await page.setExtraHTTPHeaders(this.extraHeaders(this.defaultLocale));
       await page.setJavaScriptEnabled(true);
       await page.setViewport({
         width: 1920,
@@ -420,9 +720,6 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
         Object.defineProperty(navigator, "webdriver", {
           get: () => undefined,
         });
-        Object.defineProperty(navigator, "languages", {
-          get: () => ["en-US", "en"],
-        });
         Object.defineProperty(navigator, "plugins", {
           get: () => [
             {
@@ -454,20 +751,26 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
           get: () => undefined,
         });
       });
+      await page.evaluateOnNewDocument(
+        overrideLanguages,
+        JSON.stringify(navigatorLanguages(this.defaultLocale))
+      );
+
+      const session = await page.createCDPSession();
+      await session.send("Emulation.setLocaleOverride", {
+        locale: this.defaultLocale,
+      });
+      this.localeSessions.set(page, session);
+      if (this.defaultTimezone) {
+        await page.emulateTimezone(this.defaultTimezone);
+      }
 
       // Enable request interception
       await page.setRequestInterception(true);
 
       // Handle request interception
       page.on("request", (request) => {
-        const resourceType = request.resourceType();
-
-        // Only block media and font resources to keep page loading fast
-        if (["media", "font"].includes(resourceType)) {
-          request.abort();
-        } else {
-          request.continue();
-        }
+        void this.handleRequest(page, request);
       });
 
       // Set up page cleanup on close
@@ -492,12 +795,215 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  private extraHeaders(locale: string): Record<string, string> {
+    return {
+      "Accept-Language": acceptLanguage(locale),
+      Accept:
+        "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+      "Accept-Encoding": "gzip, deflate, br",
+      Connection: "keep-alive",
+    };
+  }
+
+  /** Adds a request handler for the current conversion on this page. */
+  addRequestHandler(page: Page, handler: RequestHandler): void {
+    const handlers = this.requestHandlers.get(page) ?? [];
+    handlers.push(handler);
+    this.requestHandlers.set(page, handlers);
+  }
+
+  /**
+   * Runs a script in the page's current document and in every document it
+   * navigates to during the current conversion.
+   */
+  async addDocumentScript(
+    page: Page,
+    script: (arg: string) => void,
+    arg: string
+  ): Promise<void> {
+    const { identifier } = await page.evaluateOnNewDocument(script, arg);
+    this.documentScripts.set(page, [
+      ...(this.documentScripts.get(page) ?? []),
+      identifier,
+    ]);
+    await page.evaluate(script, arg);
+  }
+
+  /**
+   * Starts a URL conversion with the caller's cookies, headers, basic auth
+   * and localStorage seed. Headers and credentials only go to the origin of
+   * the URL. The page must be isolated: cookies, storage and cached
+   * responses stay in its private context and are dropped with it.
+   */
+  async applyUrlSession(
+    page: Page,
+    url: string,
+    session: UrlSession
+  ): Promise<void> {
+    const isolated = this.isolatedPages.get(page);
+    if (!isolated) {
+      throw new Error("URL sessions require an isolated page");
+    }
+    const target = new URL(url);
+
+    const headers = sessionHeaders(session);
+    if (Object.keys(headers).length > 0) {
+      this.addRequestHandler(page, async (request) => {
+        if (new URL(request.url()).origin !== target.origin) {
+          return false;
+        }
+        await request.continue({
+          headers: { ...request.headers(), ...headers },
+        });
+        return true;
+      });
+    }
+
+    if (session.cookies?.length) {
+      const cookies = session.cookies.map((cookie) => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain ?? target.hostname,
+        path: cookie.path ?? "/",
+      }));
+      await isolated.context.setCookie(...cookies);
+    }
+
+    if (session.localStorage) {
+      await this.addDocumentScript(
+        page,
+        seedLocalStorage,
+        JSON.stringify({ origin: target.origin, items: session.localStorage })
+      );
+    }
+  }
+
+  /**
+   * Sets the resource policy of the current conversion on this page. Its
+   * rules take precedence over the server default, which applies on its own
+   * to pages without a policy.
+   */
+  setResourcePolicy(page: Page, policy: ResourcePolicy = {}): void {
+    this.resourceFilters.set(
+      page,
+      createResourceFilter([policy, this.defaultResourcePolicy])
+    );
+  }
+
+  /**
+   * Sets the locale and timezone of the current conversion on this page:
+   * Accept-Language, navigator.language(s), Intl and Date formatting, and
+   * the timezone Date runs in. Omitted values keep the server default.
+   */
+  async setLocale(
+    page: Page,
+    locale?: string,
+    timezone?: string
+  ): Promise<void> {
+    if (locale && locale !== this.defaultLocale) {
+      this.localizedPages.add(page);
+      await page.setExtraHTTPHeaders(this.extraHeaders(locale));
+      await this.addDocumentScript(
+        page,
+        overrideLanguages,
+        JSON.stringify(navigatorLanguages(locale))
+      );
+      await this.localeSessions
+        .get(page)
+        ?.send("Emulation.setLocaleOverride", { locale });
+    }
+    if (timezone && timezone !== this.defaultTimezone) {
+      this.localizedPages.add(page);
+      await page.emulateTimezone(timezone);
+    }
+  }
+
+  /** Returns and clears the counts of requests the resource policy blocked. */
+  takeBlockedRequests(page: Page): BlockedRequests {
+    const blocked = this.blockedRequests.get(page) ?? { total: 0, byType: {} };
+    this.blockedRequests.delete(page);
+    return blocked;
+  }
+
+  /** Returns and clears the URL policy violation that stopped a navigation. */
+  takePolicyViolation(page: Page): PdfError | undefined {
+    const violation = this.policyViolations.get(page);
+    this.policyViolations.delete(page);
+    return violation;
+  }
+
+  private async handleRequest(page: Page, request: HTTPRequest): Promise<void> {
+    try {
+      // The URL policy applies to navigations, redirects and subresources
+      const decision = await this.urlPolicyService.evaluate(request.url());
+      if (!decision.allowed) {
+        this.logger.warn(
+          `Blocked ${request.resourceType()} request to ${request.url()}: ${decision.reason}`
+        );
+        if (
+          request.isNavigationRequest() &&
+          request.frame() === page.mainFrame()
+        ) {
+          this.policyViolations.set(
+            page,
+            this.urlPolicyService.violation(request.url(), decision.reason)
+          );
+        }
+        await request.abort("blockedbyclient");
+        return;
+      }
+
+      // The page's own document always loads, whatever the resource policy
+      const resourceType = request.resourceType();
+      const filter =
+        this.resourceFilters.get(page) ?? this.defaultResourceFilter;
+      if (
+        filter(resourceType, request.url()) &&
+        !(request.isNavigationRequest() && request.frame() === page.mainFrame())
+      ) {
+        const blocked = this.blockedRequests.get(page) ?? {
+          total: 0,
+          byType: {},
+        };
+        blocked.total++;
+        blocked.byType[resourceType] = (blocked.byType[resourceType] ?? 0) + 1;
+        this.blockedRequests.set(page, blocked);
+        await request.abort("blockedbyclient");
+        return;
+      }
+
+      for (const handler of this.requestHandlers.get(page) ?? []) {
+        if (await handler(request)) {
+          return;
+        }
+      }
+
+      await request.continue();
+    } catch (error) {
+      this.logger.warn(`Failed to handle request ${request.url()}: ${error}`);
+      if (!request.isInterceptResolutionHandled()) {
+        await request.abort().catch(() => undefined);
+      }
+    }
+  }
+
   async closePage(page: Page): Promise<void> {
     try {
       // Check if this page is in our pool
       const pageItem = this.pagePool.find((item) => item.page === page);
+      const isolated = this.isolatedPages.get(page);
 
-      if (pageItem) {
+      if (isolated) {
+        this.isolatedPages.delete(page);
+        await isolated.context.close();
+        isolated.instance.activePages = Math.max(
+          0,
+          isolated.instance.activePages - 1
+        );
+        this.logger.debug(
+          `Isolated page closed in browser ${isolated.instance.id} (active pages: ${isolated.instance.activePages})`
+        );
+      } else if (pageItem) {
         // Return page to pool instead of closing it
         await this.returnPageToPool(pageItem);
       } else {
@@ -521,6 +1027,11 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
       }
     } catch (error) {
       this.logger.error("Error closing page", error);
+    } finally {
+      // Pages are only leased once, closing again must not free a second slot
+      if (this.leasedPages.delete(page)) {
+        this.releaseSlot();
+      }
     }
   }
 
@@ -559,6 +1070,26 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
         throw new Error("Page is invalid or detached");
       }
 
+      this.requestHandlers.delete(page);
+      this.policyViolations.delete(page);
+      this.resourceFilters.delete(page);
+      this.blockedRequests.delete(page);
+      for (const identifier of this.documentScripts.get(page) ?? []) {
+        await page.removeScriptToEvaluateOnNewDocument(identifier);
+      }
+      this.documentScripts.delete(page);
+      if (this.localizedPages.has(page)) {
+        await page.setExtraHTTPHeaders(this.extraHeaders(this.defaultLocale));
+        await this.localeSessions
+          .get(page)
+          ?.send("Emulation.setLocaleOverride", { locale: this.defaultLocale });
+        await page.emulateTimezone(this.defaultTimezone);
+        this.localizedPages.delete(page);
+      }
+      if (!page.isJavaScriptEnabled()) {
+        await page.setJavaScriptEnabled(true);
+      }
+
       // Clear any existing content
       await page.goto("about:blank", {
         timeout: 5000,
@@ -754,23 +1285,141 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
     this.logger.log("All browser instances closed successfully");
   }
 
+  /**
+   * Closes every browser and launches a fresh set once the conversions in
+   * flight have finished, see whileDrained.
+   */
   async restartBrowsers(): Promise<void> {
-    this.logger.log("Restarting all browsers...");
-    await this.closeAllBrowsers();
-    await this.initializeBrowsers();
+    await this.whileDrained(async () => {
+      this.logger.log("Restarting all browsers...");
+      await this.closeAllBrowsers();
+      await this.initializeBrowsers();
+    });
+  }
+
+  /** Stops handing out pages to new requests until resume() is called. */
+  drain(): void {
+    if (!this.draining) {
+      this.draining = true;
+      this.logger.log(
+        `Draining browser pool (active requests: ${this.activeRequests}, queue size: ${this.requestQueue.length})`
+      );
+    }
+  }
+
+  resume(): void {
+    if (this.draining) {
+      this.draining = false;
+      this.logger.log("Browser pool resumed");
+    }
+  }
+
+  get isDraining(): boolean {
+    return this.draining;
+  }
+
+  /**
+   * Counts work that was accepted outside the pool and will still ask for
+   * pages, so a drain waits for it as well.
+   */
+  registerPendingWork(source: () => number): void {
+    this.pendingWorkSources.push(source);
+  }
+
+  /** Resolves to true once nothing holds or waits for a page, false on timeout. */
+  async waitForIdle(timeout: number): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    while (!this.isIdle()) {
+      if (Date.now() >= deadline) {
+        return false;
+      }
+      await new Promise((resolve) =>
+        setTimeout(resolve, this.idlePollInterval)
+      );
+    }
+    return true;
+  }
+
+  private isIdle(): boolean {
+    return (
+      this.activeRequests === 0 &&
+      this.requestQueue.length === 0 &&
+      this.pendingWorkSources.every((source) => source() === 0)
+    );
+  }
+
+  /**
+   * Closes one browser and launches a replacement once the conversions in
+   * flight have finished, see whileDrained. Pooled pages of the browser are
+   * dropped first. Resolves to false when no browser has the given id.
+   */
+  async recycleBrowser(id: string): Promise<boolean> {
+    if (!this.browsers.some((browser) => browser.id === id)) {
+      return false;
+    }
+
+    await this.whileDrained(async () => {
+      // The browser may have been replaced while the pool drained
+      const browserInstance = this.browsers.find(
+        (browser) => browser.id === id
+      );
+      if (!browserInstance) {
+        return;
+      }
+      this.logger.log(`Recycling browser instance ${id}`);
+      const pooledPages = this.pagePool.filter(
+        (item) => item.page.browser() === browserInstance.browser
+      );
+      for (const pageItem of pooledPages) {
+        await this.removePageFromPool(pageItem);
+      }
+      await this.replaceUnhealthyBrowser(browserInstance);
+    });
+    return true;
   }
 
-  getBrowserStatus(): {
-    isInitialized: boolean;
-    activeRequests: number;
-    maxConcurrentRequests: number;
-    browsersCount: number;
-    healthyBrowsers: number;
-    totalActivePages: number;
-    pagePoolSize: number;
-    pagePoolActive: number;
-    queueSize: number;
-  } {
+  /**
+   * Drains the pool, runs the operation once nothing holds or waits for a
+   * page and resumes, unless the pool was drained before. Throws a 409 when
+   * conversions are still running after SHUTDOWN_GRACE_PERIOD, without
+   * running the operation.
+   */
+  private async whileDrained(operation: () => Promise<void>): Promise<void> {
+    const wasDraining = this.draining;
+    this.drain();
+    try {
+      if (!(await this.waitForIdle(this.configService.shutdownGracePeriod))) {
+        throw new ConflictException(
+          `Conversions are still running after ${this.configService.shutdownGracePeriod} ms, try again later`
+        );
+      }
+      await operation();
+    } finally {
+      if (!wasDraining) {
+        this.resume();
+      }
+    }
+  }
+
+  getBrowserStats(): BrowserInstanceStats[] {
+    const now = Date.now();
+    return this.browsers.map((browserInstance) => ({
+      id: browserInstance.id,
+      pid: browserInstance.browser.process()?.pid ?? null,
+      isHealthy: browserInstance.isHealthy,
+      connected: browserInstance.browser.isConnected(),
+      activePages: browserInstance.activePages,
+      pooledPages: this.pagePool.filter(
+        (item) => item.page.browser() === browserInstance.browser
+      ).length,
+      createdAt: new Date(browserInstance.createdAt).toISOString(),
+      ageMs: now - browserInstance.createdAt,
+      lastUsed: new Date(browserInstance.lastUsed).toISOString(),
+      idleMs: now - browserInstance.lastUsed,
+    }));
+  }
+
+  getBrowserStatus(): BrowserPoolStatus {
     const totalActivePages = this.browsers.reduce(
       (sum, browser) => sum + browser.activePages,
       0
@@ -778,25 +1427,48 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
     const healthyBrowsers = this.browsers.filter(
       (browser) => browser.isHealthy
     ).length;
+    const now = Date.now();
+    const oldestQueued = this.requestQueue.reduce(
+      (oldest, request) => Math.min(oldest, request.timestamp),
+      now
+    );
 
     return {
       isInitialized: this.browsers.length > 0,
+      draining: this.draining,
       activeRequests: this.activeRequests,
       maxConcurrentRequests: this.maxConcurrentRequests,
+      maxBrowsers: this.maxBrowsers,
+      maxPagesPerBrowser: this.maxPagesPerBrowser,
       browsersCount: this.browsers.length,
       healthyBrowsers,
       totalActivePages,
       pagePoolSize: this.pagePoolSize,
       pagePoolActive: this.pagePool.length,
+      pageMaxAge: this.maxPageAge,
+      browserMaxAge: this.browserMaxAge,
       queueSize: this.requestQueue.length,
+      queueMaxLength: this.queueMaxLength,
+      queueTimeout: this.queueTimeout,
+      queuedByPriority: Object.fromEntries(
+        QUEUE_PRIORITIES.map((priority) => [
+          priority,
+          this.requestQueue.filter((request) => request.priority === priority)
+            .length,
+        ])
+      ) as Record<QueuePriority, number>,
+      queueWaitMs: now - oldestQueued,
     };
   }
 
   private startBrowserHealthCheck(): void {
-    // Run health check every 3 minutes
-    this.browserHealthCheckInterval = setInterval(() => {
-      this.performBrowserHealthCheck();
-    }, 3 * 60 * 1000);
+    // Run health check every 3 minutes, or more often for short lifetimes
+    this.browserHealthCheckInterval = setInterval(
+      () => {
+        this.performBrowserHealthCheck();
+      },
+      Math.min(3 * 60 * 1000, this.browserMaxAge)
+    );
 
     this.logger.debug("Browser health check started");
   }
@@ -844,10 +1516,13 @@ export class BrowserPoolService implements OnModuleInit, OnModuleDestroy {
   }
 
   private startPagePoolCleanup(): void {
-    // Run cleanup every 2 minutes
-    this.poolCleanupInterval = setInterval(() => {
-      this.cleanupPagePool();
-    }, 2 * 60 * 1000);
+    // Run cleanup every 2 minutes, or more often for short lifetimes
+    this.poolCleanupInterval = setInterval(
+      () => {
+        this.cleanupPagePool();
+      },
+      Math.min(2 * 60 * 1000, this.maxPageAge)
+    );
 
     this.logger.debug("Page pool cleanup started");
   }
@@ -0,0 +1,130 @@
+import { Injectable } from "@nestjs/common";
+import { PDFOptions } from "puppeteer";
+import { ConfigService } from "../../config";
+import { PdfOptionsDto } from "../dto/pdf-options.dto";
+import {
+  HEADER_FOOTER_PRESETS,
+  HeaderFooterPreset,
+  HeaderFooterTemplates,
+} from "../templates/header-footer.templates";
+
+type HeaderFooterOptions = Pick<
+  PDFOptions,
+  "displayHeaderFooter" | "headerTemplate" | "footerTemplate"
+>;
+
+// Placeholders resolved by Chrome itself while printing each page
+const CHROME_PLACEHOLDERS = ["pageNumber", "totalPages", "title", "url"];
+
+// How {{date}} and {{time}} are shown; no timeZone means the server's
+interface DateFormat {
+  locale: string;
+  timeZone?: string;
+}
+
+@Injectable()
+export class HeaderFooterService {
+  constructor(private readonly configService: ConfigService) {}
+
+  resolve(options: PdfOptionsDto, now: Date = new Date()): HeaderFooterOptions {
+    const templates = this.templates(options);
+    if (!templates) {
+      return { displayHeaderFooter: false };
+    }
+
+    const format: DateFormat = {
+      locale: options.locale ?? this.configService.pdfLocale,
+      timeZone: options.timezone ?? this.configService.pdfTimezone,
+    };
+
+    return {
+      displayHeaderFooter: true,
+      headerTemplate: this.renderPlaceholders(
+        templates.headerTemplate,
+        now,
+        format
+      ),
+      footerTemplate: this.renderPlaceholders(
+        templates.footerTemplate,
+        now,
+        format
+      ),
+    };
+  }
+
+  /**
+   * The header and footer templates of a conversion before {{date}} and
+   * {{time}} are filled in, undefined when they are turned off.
+   */
+  templates(options: PdfOptionsDto): HeaderFooterTemplates | undefined {
+    return options.displayHeaderFooter === false
+      ? undefined
+      : this.selectTemplates(options);
+  }
+
+  private selectTemplates(options: PdfOptionsDto): HeaderFooterTemplates {
+    const hasCustomTemplate =
+      options.headerTemplate !== undefined ||
+      options.footerTemplate !== undefined;
+
+    // Custom templates start from a blank slate unless a preset is named
+    // explicitly, so sending only a footer does not bring back the banner.
+    const base =
+      options.headerFooterPreset || !hasCustomTemplate
+        ? this.renderPreset(
+            options.headerFooterPreset ??
+              this.configService.pdfHeaderFooterPreset
+          )
+        : { headerTemplate: "<span></span>", footerTemplate: "<span></span>" };
+
+    return {
+      headerTemplate: options.headerTemplate ?? base.headerTemplate,
+      footerTemplate: options.footerTemplate ?? base.footerTemplate,
+    };
+  }
+
+  private renderPreset(preset: string): HeaderFooterTemplates {
+    // Unknown names can only come from configuration; fall back to the banner
+    const render =
+      HEADER_FOOTER_PRESETS[preset as HeaderFooterPreset] ??
+      HEADER_FOOTER_PRESETS.banner;
+    return render({
+      companyName: this.configService.pdfWatermarkText,
+      color: this.configService.pdfWatermarkColor,
+    });
+  }
+
+  private renderPlaceholders(
+    template: string,
+    now: Date,
+    { locale, timeZone }: DateFormat
+  ): string {
+    const date = now.toLocaleDateString(locale, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      timeZone,
+    });
+    const time = now.toLocaleTimeString(locale, {
+      hour: "2-digit",
+      minute: "2-digit",
+      timeZone,
+    });
+
+    return template.replace(
+      /\{\{\s*(\w+)\s*\}\}/g,
+      (placeholder, name: string) => {
+        if (CHROME_PLACEHOLDERS.includes(name)) {
+          return `<span class="${name}"></span>`;
+        }
+        if (name === "date") {
+          return date;
+        }
+        if (name === "time") {
+          return time;
+        }
+        return placeholder;
+      }
+    );
+  }
+}
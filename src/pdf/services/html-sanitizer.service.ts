@@ -0,0 +1,174 @@
+import { Injectable, Logger } from "@nestjs/common";
+import * as sanitizeHtml from "sanitize-html";
+import { ApiKey } from "../../auth";
+import { ConfigService } from "../../config";
+import {
+  EXECUTABLE_TAGS,
+  SANITIZE_MODES,
+  SCRIPTS_MODE_SCHEMES,
+  STRICT_ALLOWED_ATTRIBUTES,
+  STRICT_ALLOWED_SCHEMES,
+  STRICT_ALLOWED_TAGS,
+  SanitizeMode,
+  URL_ATTRIBUTES,
+} from "../constants/pdf.constants";
+import { SanitizeOptionsDto } from "../dto/sanitize-options.dto";
+import {
+  SanitizePolicy,
+  SanitizeReport,
+  SanitizeResult,
+} from "../interfaces/sanitize.interface";
+
+/**
+ * Cleans untrusted HTML before it is rendered and reports what was removed.
+ * The mode of a conversion is the strictest of the server default, the API
+ * key's setting and the request, so callers can tighten but never loosen it.
+ */
+@Injectable()
+export class HtmlSanitizerService {
+  private readonly logger = new Logger(HtmlSanitizerService.name);
+  private readonly defaultMode: SanitizeMode;
+  private readonly javascriptEnabled: boolean;
+  private readonly strictTags: string[];
+  private readonly strictAttributes: string[];
+  private readonly strictSchemes: string[];
+
+  constructor(private readonly configService: ConfigService) {
+    const mode = configService.htmlSanitizeMode;
+    if (!SANITIZE_MODES.includes(mode as SanitizeMode)) {
+      throw new Error(
+        `Invalid HTML_SANITIZE_MODE ${mode}, expected ${SANITIZE_MODES.join(", ")}`
+      );
+    }
+    this.defaultMode = mode as SanitizeMode;
+    this.javascriptEnabled = configService.htmlJavascriptEnabled;
+
+    const configured = (list: string[], defaults: string[]) =>
+      (list.length > 0 ? list : defaults).map((item) => item.toLowerCase());
+    this.strictTags = configured(
+      configService.htmlSanitizeAllowedTags,
+      STRICT_ALLOWED_TAGS
+    );
+    this.strictAttributes = configured(
+      configService.htmlSanitizeAllowedAttributes,
+      STRICT_ALLOWED_ATTRIBUTES
+    );
+    this.strictSchemes = configured(
+      configService.htmlSanitizeAllowedSchemes,
+      STRICT_ALLOWED_SCHEMES
+    );
+  }
+
+  resolve(options: SanitizeOptionsDto = {}, apiKey?: ApiKey): SanitizePolicy {
+    const rank = (mode?: SanitizeMode) =>
+      mode ? SANITIZE_MODES.indexOf(mode) : 0;
+    const mode = [options.mode, apiKey?.sanitize].reduce<SanitizeMode>(
+      (strictest, candidate) =>
+        rank(candidate) > rank(strictest)
+          ? (candidate as SanitizeMode)
+          : strictest,
+      this.defaultMode
+    );
+
+    return {
+      mode,
+      javascript:
+        this.javascriptEnabled &&
+        apiKey?.javascript !== false &&
+        options.javascript !== false,
+    };
+  }
+
+  sanitize(html: string, policy: SanitizePolicy): SanitizeResult {
+    const report: SanitizeReport = {
+      ...policy,
+      removedTags: {},
+      removedAttributes: {},
+      removedUrls: 0,
+    };
+    if (policy.mode === "off") {
+      return { html, report };
+    }
+
+    const strict = policy.mode === "strict";
+    const schemes = strict ? this.strictSchemes : SCRIPTS_MODE_SCHEMES;
+    const count = (counts: Record<string, number>, name: string) => {
+      counts[name] = (counts[name] ?? 0) + 1;
+    };
+
+    const sanitized = sanitizeHtml(html, {
+      allowedTags: strict ? this.strictTags : false,
+      allowedAttributes: false,
+      allowedSchemes: schemes,
+      allowVulnerableTags: true,
+      transformTags: {
+        "*": (tagName, attribs) => {
+          if (strict && !this.strictTags.includes(tagName)) {
+            count(report.removedTags, tagName);
+          }
+          for (const [name, value] of Object.entries(attribs)) {
+            const attribute = name.toLowerCase();
+            if (!this.isAttributeAllowed(attribute, strict)) {
+              count(report.removedAttributes, attribute);
+              delete attribs[name];
+            } else if (
+              URL_ATTRIBUTES.includes(attribute) &&
+              !this.hasAllowedSchemes(value, attribute, schemes)
+            ) {
+              report.removedUrls++;
+              delete attribs[name];
+            }
+          }
+          return { tagName, attribs };
+        },
+      },
+      // Strict mode drops these through the allow-list
+      exclusiveFilter: (frame) => {
+        if (!strict && EXECUTABLE_TAGS.includes(frame.tag)) {
+          count(report.removedTags, frame.tag);
+          return true;
+        }
+        return false;
+      },
+    });
+
+    this.logger.debug(
+      `Sanitized HTML (${policy.mode}): ${JSON.stringify(report)}`
+    );
+
+    // sanitize-html drops the doctype, without it pages render in quirks mode
+    const doctype = /^\s*(<!doctype[^>]*>)/i.exec(html)?.[1];
+    return { html: doctype ? `${doctype}\n${sanitized}` : sanitized, report };
+  }
+
+  private isAttributeAllowed(attribute: string, strict: boolean): boolean {
+    if (!strict) {
+      return !attribute.startsWith("on");
+    }
+    return this.strictAttributes.some((pattern) =>
+      pattern.endsWith("*")
+        ? attribute.startsWith(pattern.slice(0, -1))
+        : attribute === pattern
+    );
+  }
+
+  private hasAllowedSchemes(
+    value: string,
+    attribute: string,
+    schemes: string[]
+  ): boolean {
+    // srcset lists several "url descriptor" candidates
+    const urls =
+      attribute === "srcset"
+        ? value.split(",").map((candidate) => candidate.trim().split(/\s+/)[0])
+        : [value];
+
+    return urls.every((url) => {
+      // Browsers ignore control characters and whitespace inside the scheme
+      const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(
+        url.replace(/[\u0000- ]/g, "")
+      )?.[1];
+      return !scheme || schemes.includes(scheme.toLowerCase());
+    });
+  }
+}
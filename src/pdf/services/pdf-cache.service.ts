@@ -0,0 +1,207 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import { createHash } from "crypto";
+import { UsageService } from "../../auth";
+import { RequestContext } from "../../common";
+import { ConfigService } from "../../config";
+import { FontService } from "../../fonts/services/font.service";
+import { PrometheusService } from "../../health/services/prometheus.service";
+import {
+  CacheableConversion,
+  PDF_CACHE_STORE,
+  PdfCacheEntry,
+  PdfCacheMode,
+  PdfCacheResult,
+  PdfCacheStore,
+} from "../interfaces/pdf-cache.interface";
+import { HeaderFooterService } from "./header-footer.service";
+import { HtmlSanitizerService } from "./html-sanitizer.service";
+
+// JSON with sorted keys and without undefined values, so equal options hash
+// alike however the client ordered them
+const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, field) =>
+    field && typeof field === "object" && !Array.isArray(field)
+      ? Object.fromEntries(
+          Object.keys(field)
+            .sort()
+            .filter((name) => field[name] !== undefined)
+            .map((name) => [name, field[name]])
+        )
+      : field
+  );
+
+const sha256 = (data: string | Buffer) =>
+  createHash("sha256").update(data).digest("hex");
+
+/**
+ * Serves repeated conversions from a cache of rendered PDFs. Entries are
+ * keyed by a hash of the input, the options and the effective sanitization
+ * policy, expire after PDF_CACHE_TTL and are evicted least recently used
+ * first once PDF_CACHE_MAX_SIZE is reached.
+ */
+@Injectable()
+export class PdfCacheService {
+  private readonly logger = new Logger(PdfCacheService.name);
+  private readonly enabled: boolean;
+  private readonly ttl: number;
+  // Identical requests arriving together share one render
+  private readonly pending = new Map<string, Promise<PdfCacheEntry>>();
+  // Server defaults that shape every PDF, part of each key so entries from
+  // before a configuration change are not served
+  private readonly defaults: Record<string, unknown>;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prometheusService: PrometheusService,
+    private readonly htmlSanitizerService: HtmlSanitizerService,
+    private readonly usageService: UsageService,
+    private readonly headerFooterService: HeaderFooterService,
+    private readonly fontService: FontService,
+    @Inject(PDF_CACHE_STORE) private readonly store: PdfCacheStore
+  ) {
+    this.defaults = {
+      watermark: {
+        enabled: configService.pdfWatermarkEnabled,
+        text: configService.pdfWatermarkText,
+        opacity: configService.pdfWatermarkOpacity,
+        fontSize: configService.pdfWatermarkFontSize,
+        color: configService.pdfWatermarkColor,
+        position: configService.pdfWatermarkPosition,
+        rotation: configService.pdfWatermarkRotation,
+        pages: configService.pdfWatermarkPages,
+      },
+      resources: {
+        allowTypes: configService.resourceAllowTypes,
+        blockTypes: configService.resourceBlockTypes,
+        allowUrls: configService.resourceAllowUrls,
+        blockUrls: configService.resourceBlockUrls,
+      },
+      locale: configService.pdfLocale,
+      timezone: configService.pdfTimezone,
+    };
+    this.enabled = configService.pdfCacheEnabled;
+    this.ttl = configService.pdfCacheTtl;
+    if (this.enabled && (!Number.isInteger(this.ttl) || this.ttl < 1)) {
+      throw new Error("PDF_CACHE_TTL must be an integer of at least 1");
+    }
+  }
+
+  /**
+   * Hashes everything the PDF depends on: the input, the options, the
+   * effective sanitization policy, the server defaults, the installed fonts
+   * and the header and footer templates. Their {{date}} and {{time}} are left
+   * out, a cached PDF shows those of its first render until it expires.
+   */
+  key(conversion: CacheableConversion): string {
+    let input = conversion.input;
+    if (conversion.type === "url") {
+      try {
+        input = new URL(input).href;
+      } catch {
+        // Invalid URLs are rejected by the conversion itself
+      }
+    }
+
+    return sha256(
+      canonicalJson({
+        type: conversion.type,
+        input,
+        options: conversion.options ?? {},
+        defaults: this.defaults,
+        fonts: this.fontService.list(),
+        headerFooter: this.headerFooterService.templates(
+          conversion.options ?? {}
+        ),
+        sanitize:
+          conversion.type === "html"
+            ? this.htmlSanitizerService.resolve(
+                conversion.sanitize,
+                RequestContext.current()?.apiKey
+              )
+            : undefined,
+      })
+    );
+  }
+
+  /**
+   * Returns the cached PDF for the conversion, or renders it with convert and
+   * caches the result. Hits count toward the API key's usage like renders.
+   */
+  async getOrConvert(
+    conversion: CacheableConversion,
+    mode: PdfCacheMode,
+    convert: () => Promise<Buffer>
+  ): Promise<PdfCacheResult> {
+    if (!this.enabled) {
+      return { pdf: await convert(), status: "off" };
+    }
+    if (mode === "bypass") {
+      this.prometheusService.recordCacheLookup("bypass");
+      return { pdf: await convert(), status: "bypass" };
+    }
+
+    const key = this.key(conversion);
+    if (mode === "use") {
+      const cached = (await this.read(key)) ?? (await this.pending.get(key));
+      if (cached) {
+        this.prometheusService.recordCacheLookup("hit");
+        const context = RequestContext.current();
+        if (context && cached.sanitizeReport) {
+          context.sanitizeReport = cached.sanitizeReport;
+        }
+        if (context && cached.blockedRequests) {
+          context.blockedRequests = cached.blockedRequests;
+        }
+        await this.usageService.recordConversion(cached.pdf, "pdf");
+        return { ...this.describe(cached), status: "hit" };
+      }
+    }
+
+    this.prometheusService.recordCacheLookup("miss");
+    const rendering = this.render(key, convert);
+    this.pending.set(key, rendering);
+    try {
+      return { ...this.describe(await rendering), status: "miss" };
+    } finally {
+      if (this.pending.get(key) === rendering) {
+        this.pending.delete(key);
+      }
+    }
+  }
+
+  private async render(
+    key: string,
+    convert: () => Promise<Buffer>
+  ): Promise<PdfCacheEntry> {
+    const pdf = await convert();
+    const now = Date.now();
+    const entry: PdfCacheEntry = {
+      pdf,
+      etag: `"${sha256(pdf).slice(0, 32)}"`,
+      createdAt: now,
+      expiresAt: now + this.ttl,
+      sanitizeReport: RequestContext.current()?.sanitizeReport,
+      blockedRequests: RequestContext.current()?.blockedRequests,
+    };
+
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      this.logger.warn(`Failed to cache PDF ${key}: ${error}`);
+    }
+    return entry;
+  }
+
+  private async read(key: string): Promise<PdfCacheEntry | null> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.logger.warn(`Failed to read cached PDF ${key}: ${error}`);
+      return null;
+    }
+  }
+
+  private describe(entry: PdfCacheEntry): Omit<PdfCacheResult, "status"> {
+    return { pdf: entry.pdf, etag: entry.etag, expiresAt: entry.expiresAt };
+  }
+}
@@ -1,9 +1,54 @@
-import { BadRequestException, Injectable, Logger } from "@nestjs/common";
-import { Page } from "puppeteer";
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  Logger,
+} from "@nestjs/common";
+import { PDFOptions, Page, ScreenshotOptions } from "puppeteer";
+import { UsageService } from "../../auth";
+import { RequestContext } from "../../common";
 import { ConfigService } from "../../config";
-import { PrometheusService } from "../../health";
+import { FontService } from "../../fonts/services/font.service";
+import { PrometheusService } from "../../health/services/prometheus.service";
+import { AssetBundle } from "../bundles/asset-bundle";
+import {
+  DEFAULT_IMAGE_FORMAT,
+  DEFAULT_PDF_FORMAT,
+  DEFAULT_PDF_MARGIN,
+  DEFAULT_PDF_SCALE,
+} from "../constants/pdf.constants";
+import { ImageOptionsDto } from "../dto/image-options.dto";
+import { PdfOptionsDto } from "../dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../dto/sanitize-options.dto";
+import { WaitForOptionsDto } from "../dto/wait-for-options.dto";
 import { PdfError } from "../errors/pdf.error";
+import { SanitizePolicy } from "../interfaces/sanitize.interface";
+import { UrlSession } from "../interfaces/url-session.interface";
+import { retryOperation } from "../utils/retry.util";
+import {
+  recordEvent,
+  startDeadline,
+  waitForConditions,
+  withinDeadline,
+} from "../utils/wait-for.util";
 import { BrowserPoolService } from "./browser-pool.service";
+import { HeaderFooterService } from "./header-footer.service";
+import { HtmlSanitizerService } from "./html-sanitizer.service";
+import { UrlPolicyService } from "./url-policy.service";
+import { WatermarkService } from "./watermark.service";
+
+type RenderOutput = "pdf" | "image";
+
+// What PDF and image options share about preparing the page
+type PageOptions = Pick<
+  PdfOptionsDto,
+  "waitFor" | "resources" | "fonts" | "locale" | "timezone"
+>;
+
+const OUTPUT_LABELS: Record<RenderOutput, string> = {
+  pdf: "PDF",
+  image: "image",
+};
 
 @Injectable()
 export class PdfService {
@@ -20,17 +65,105 @@ export class PdfService {
   constructor(
     private readonly configService: ConfigService,
     private readonly prometheusService: PrometheusService,
-    private readonly browserPoolService: BrowserPoolService
+    private readonly browserPoolService: BrowserPoolService,
+    private readonly urlPolicyService: UrlPolicyService,
+    private readonly headerFooterService: HeaderFooterService,
+    private readonly watermarkService: WatermarkService,
+    private readonly usageService: UsageService,
+    private readonly htmlSanitizerService: HtmlSanitizerService,
+    private readonly fontService: FontService
   ) {}
 
-  async convertHtmlToPdf(html: string): Promise<Buffer> {
-    const timer = this.prometheusService.startConversion("html");
+  async convertHtmlToPdf(
+    html: string,
+    options: PdfOptionsDto = {},
+    sanitize: SanitizeOptionsDto = {}
+  ): Promise<Buffer> {
+    return this.renderHtml(
+      html,
+      "pdf",
+      (page) => this.generatePdf(page, options),
+      options,
+      sanitize
+    );
+  }
+
+  async convertHtmlToImage(
+    html: string,
+    options: ImageOptionsDto = {},
+    sanitize: SanitizeOptionsDto = {}
+  ): Promise<Buffer> {
+    return this.renderHtml(
+      html,
+      "image",
+      (page) => this.captureImage(page, options),
+      options,
+      sanitize
+    );
+  }
+
+  /** Renders the entry document of an uploaded bundle with its assets. */
+  async convertBundleToPdf(
+    bundle: AssetBundle,
+    options: PdfOptionsDto = {},
+    sanitize: SanitizeOptionsDto = {}
+  ): Promise<Buffer> {
+    const html = await bundle.readEntry();
+    return this.renderHtml(
+      html,
+      "pdf",
+      (page) => this.generatePdf(page, options),
+      options,
+      sanitize,
+      bundle
+    );
+  }
+
+  async convertUrlToPdf(
+    url: string,
+    options: PdfOptionsDto = {},
+    session?: UrlSession
+  ): Promise<Buffer> {
+    return this.renderUrl(
+      url,
+      "pdf",
+      (page) => this.generatePdf(page, options, url),
+      options,
+      session
+    );
+  }
+
+  async convertUrlToImage(
+    url: string,
+    options: ImageOptionsDto = {},
+    session?: UrlSession
+  ): Promise<Buffer> {
+    return this.renderUrl(
+      url,
+      "image",
+      (page) => this.captureImage(page, options, url),
+      options,
+      session
+    );
+  }
+
+  private async renderHtml(
+    html: string,
+    output: RenderOutput,
+    render: (page: Page) => Promise<Buffer>,
+    options: PageOptions,
+    sanitize: SanitizeOptionsDto,
+    bundle?: AssetBundle
+  ): Promise<Buffer> {
+    const type = output === "pdf" ? "html" : "html_image";
+    const key = RequestContext.current()?.apiKey?.id;
+    const timer = this.prometheusService.startConversion(type, key);
+    let status: "success" | "error" = "error";
     let page: Page | undefined;
 
     try {
       // Validate HTML string
       if (!html || typeof html !== "string") {
-        this.prometheusService.recordError("html", "Invalid HTML content");
         throw new BadRequestException("Invalid HTML content");
       }
 
@@ -40,16 +173,34 @@ export class PdfService {
       //   throw new BadRequestException("HTML content must include <html> tags");
       // }
 
+      this.fontService.assertInstalled(options.fonts);
+
+      const context = RequestContext.current();
+      const policy = this.htmlSanitizerService.resolve(
+        sanitize,
+        context?.apiKey
+      );
+      const { waitFor } = options;
+      if (
+        !policy.javascript &&
+        (waitFor?.expression || waitFor?.windowStatus || waitFor?.event)
+      ) {
+        throw new BadRequestException(
+          "waitFor expression, windowStatus and event need JavaScript, which is disabled for this conversion"
+        );
+      }
+      const sanitized = this.htmlSanitizerService.sanitize(html, policy);
+      if (context && (policy.mode !== "off" || !policy.javascript)) {
+        context.sanitizeReport = sanitized.report;
+      }
+
       this.logger.debug("Getting page from browser pool...");
       page = await this.browserPoolService.getPage();
 
       // Set content with timeout and wait for network idle
       this.logger.debug("Setting HTML content...");
       try {
-        await page.setContent(html, {
-          timeout: this.timeouts.navigation,
-          waitUntil: "networkidle0",
-        });
+        await this.loadContent(page, sanitized.html, policy, options, bundle);
       } catch (error) {
         // Check if it's a detached frame error
         if (error instanceof Error && error.message.includes("detached")) {
@@ -59,10 +210,7 @@ export class PdfService {
           // Close the invalid page and get a new one
           await this.browserPoolService.closePage(page);
           page = await this.browserPoolService.getPage();
-          await page.setContent(html, {
-            timeout: this.timeouts.navigation,
-            waitUntil: "networkidle0",
-          });
+          await this.loadContent(page, sanitized.html, policy, options, bundle);
         } else {
           throw error;
         }
@@ -70,72 +218,13 @@ export class PdfService {
 
       // Use smart waiting instead of fixed timeouts
       await this.browserPoolService.waitForPageLoad(page);
+      await this.loadFonts(page);
 
-      // Generate PDF with retry
-      this.logger.debug("Starting PDF generation");
-
-      // Get company name and generate header/footer templates
-      const companyName = this.configService.pdfWatermarkText;
-      const color = this.configService.pdfWatermarkColor;
-      const now = new Date();
-      const dateStr = now.toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      });
-      const timeStr = now.toLocaleTimeString("en-US", {
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-
-      const pdf = await this.retryOperation(
-        async () => {
-          try {
-            if (!page) {
-              throw new Error("Page is not available");
-            }
-            const result = await page.pdf({
-              format: "A4",
-              printBackground: true,
-              timeout: this.timeouts.pdfGeneration,
-              scale: 0.8,
-              displayHeaderFooter: true,
-              headerTemplate: `
-                <div style="width: 100%; font-size: 10px; padding: 5px 20px; color: ${color}; border-bottom: 2px solid ${color}; display: flex; justify-content: space-between; align-items: center; background: white; -webkit-print-color-adjust: exact;">
-                  <span style="font-weight: bold; font-size: 12px;">${companyName}</span>
-                  <span style="text-align: right;">${dateStr}<br/>${timeStr}</span>
-                </div>
-              `,
-              footerTemplate: `
-                <div style="width: 100%; font-size: 9px; padding: 5px 20px; color: ${color}; border-top: 2px solid ${color}; display: flex; justify-content: space-between; align-items: center; background: white; -webkit-print-color-adjust: exact;">
-                  <span style="font-style: italic;">© ${companyName} - All Rights Reserved</span>
-                  <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span> | Generated on ${dateStr} at ${timeStr}</span>
-                </div>
-              `,
-              margin: {
-                top: "80px",
-                right: "40px",
-                bottom: "80px",
-                left: "40px",
-              },
-            });
-            this.logger.debug("PDF generation successful");
-            return result;
-          } catch (pdfError: unknown) {
-            const errorMessage =
-              pdfError instanceof Error ? pdfError.message : String(pdfError);
-            this.logger.debug(`PDF generation failed: ${errorMessage}`);
-            throw new PdfError(`PDF generation failed: ${errorMessage}`, {
-              stage: "pdf_generation",
-              cause: pdfError,
-            });
-          }
-        },
-        2,
-        500
-      );
-
-      return Buffer.from(pdf);
+      const result = await this.renderPage(page, render, options.waitFor);
+      this.recordBlockedRequests(page);
+      status = "success";
+      await this.usageService.recordConversion(result, output);
+      return result;
     } catch (error: unknown) {
       let errorMessage: string;
       if (error instanceof Error) {
@@ -152,77 +241,272 @@ export class PdfService {
 
       // Log detailed error information
       this.logger.error({
-        message: "Failed to convert HTML to PDF",
+        message: `Failed to convert HTML to ${OUTPUT_LABELS[output]}`,
         error: errorMessage,
         errorObject: error,
       });
 
-      if (error instanceof BadRequestException) {
-        throw error;
-      }
-
-      if (error instanceof PdfError) {
-        throw new BadRequestException(error.toString());
-      }
+      this.prometheusService.recordError(type, PdfError.codeOf(error));
 
-      // Provide more specific error messages
-      if (errorMessage.includes("net::ERR_CONNECTION_TIMED_OUT")) {
-        throw new BadRequestException(
-          "Operation timed out. The content might be too large or complex."
-        );
-      } else if (errorMessage.includes("net::ERR_FAILED")) {
-        throw new BadRequestException(
-          "Failed to process HTML content. Please check if the HTML is valid."
-        );
-      } else if (errorMessage.includes("net::ERR_ABORTED")) {
-        throw new BadRequestException(
-          "Operation was aborted. Please try again with simpler HTML content."
-        );
+      // Includes 503s from a full or timed out browser pool queue
+      if (error instanceof HttpException) {
+        throw error;
       }
 
-      throw new BadRequestException(
-        `Failed to convert HTML to PDF: ${errorMessage}`
-      );
+      throw (
+        PdfError.unwrap(error) ??
+        new PdfError(
+          `Failed to convert HTML to ${OUTPUT_LABELS[output]}: ${errorMessage}`,
+          { stage: "content", cause: error }
+        )
+      ).toHttpException();
     } finally {
       if (page) {
         await this.browserPoolService.closePage(page);
       }
-      this.prometheusService.endConversion(timer, "success");
+      this.prometheusService.endConversion(timer, status, type, key);
     }
   }
 
-  private async retryOperation<T>(
-    operation: () => Promise<T>,
-    maxRetries: number = 3,
-    delay: number = 1000
-  ): Promise<T> {
-    let lastError: Error = new Error("Operation failed after all retries");
+  private async loadContent(
+    page: Page,
+    html: string,
+    policy: SanitizePolicy,
+    options: PageOptions,
+    bundle?: AssetBundle
+  ): Promise<void> {
+    if (!policy.javascript) {
+      // Restored when the page goes back to the pool
+      await page.setJavaScriptEnabled(false);
+    }
+    await this.preparePage(page, options);
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        const result = await operation();
-        return result;
-      } catch (error: unknown) {
-        const errorMessage =
-          error instanceof Error ? error.message : String(error);
-        lastError = new Error(errorMessage);
-
-        if (attempt < maxRetries) {
-          this.logger.warn(
-            `Attempt ${attempt} failed, retrying in ${delay}ms: ${errorMessage}`
-          );
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          // Increase delay for next attempt
-          delay *= 2;
+    if (!bundle) {
+      await page.setContent(html, {
+        timeout: this.timeouts.navigation,
+        waitUntil: "networkidle0",
+      });
+      return;
+    }
+
+    // Navigate to the bundle origin so relative asset URLs resolve against it
+    if (policy.mode !== "off") {
+      // Serve the sanitized entry document instead of the uploaded file
+      this.browserPoolService.addRequestHandler(page, async (request) => {
+        if (request.url() !== bundle.entryUrl) {
+          return false;
         }
+        await request.respond({
+          status: 200,
+          contentType: "text/html; charset=utf-8",
+          body: html,
+        });
+        return true;
+      });
+    }
+    this.browserPoolService.addRequestHandler(page, (request) =>
+      bundle.respond(request)
+    );
+    await page.goto(bundle.entryUrl, {
+      timeout: this.timeouts.navigation,
+      waitUntil: "networkidle0",
+    });
+  }
+
+  /** Sets up the resource policy, fonts and waitFor events of a page. */
+  private async preparePage(page: Page, options: PageOptions): Promise<void> {
+    this.browserPoolService.setResourcePolicy(page, options.resources);
+    await this.browserPoolService.setLocale(
+      page,
+      options.locale,
+      options.timezone
+    );
+    if (!this.fontService.empty) {
+      this.browserPoolService.addRequestHandler(page, (request) =>
+        this.fontService.respond(request)
+      );
+    }
+    if (options.waitFor?.event) {
+      await this.browserPoolService.addDocumentScript(
+        page,
+        recordEvent,
+        options.waitFor.event
+      );
+    }
+  }
+
+  private async prepareUrlPage(
+    page: Page,
+    url: string,
+    options: PageOptions,
+    session: UrlSession | undefined
+  ): Promise<void> {
+    if (session) {
+      await this.browserPoolService.applyUrlSession(page, url, session);
+    }
+    await this.preparePage(page, options);
+  }
+
+  /**
+   * Declares the installed fonts in the loaded page and waits until those
+   * it uses have been fetched.
+   */
+  private async loadFonts(page: Page): Promise<void> {
+    const css = this.fontService.fontFaceCss();
+    if (!css) {
+      return;
+    }
+    await page.addStyleTag({ content: css });
+    await page.evaluate(async () => {
+      await document.fonts.ready;
+    });
+  }
+
+  private recordBlockedRequests(page: Page): void {
+    const blocked = this.browserPoolService.takeBlockedRequests(page);
+    const context = RequestContext.current();
+    if (context) {
+      context.blockedRequests = blocked;
+    }
+  }
+
+  /** Renders once the waitFor conditions hold, within their timeout. */
+  private async renderPage(
+    page: Page,
+    render: (page: Page) => Promise<Buffer>,
+    waitFor: WaitForOptionsDto | undefined,
+    url?: string
+  ): Promise<Buffer> {
+    if (!waitFor) {
+      return render(page);
+    }
+    const deadline = startDeadline(waitFor, url);
+    await waitForConditions(page, waitFor, deadline);
+    return withinDeadline(render(page), deadline, "rendering");
+  }
+
+  private async generatePdf(
+    page: Page,
+    options: PdfOptionsDto,
+    url?: string
+  ): Promise<Buffer> {
+    this.logger.debug("Starting PDF generation");
+    const headerFooter = this.headerFooterService.resolve(options);
+
+    const pdf = await retryOperation(
+      async () => {
+        try {
+          const result = await page.pdf({
+            ...this.buildPdfOptions(options),
+            ...headerFooter,
+            timeout: this.timeouts.pdfGeneration,
+          });
+          this.logger.debug("PDF generation successful");
+          return result;
+        } catch (pdfError: unknown) {
+          const errorMessage =
+            pdfError instanceof Error ? pdfError.message : String(pdfError);
+          this.logger.debug(`PDF generation failed: ${errorMessage}`);
+          throw new PdfError(`PDF generation failed: ${errorMessage}`, {
+            stage: "pdf_generation",
+            url,
+            cause: pdfError,
+          });
+        }
+      },
+      2,
+      500,
+      this.logger
+    );
+
+    return this.watermarkService.apply(Buffer.from(pdf), options.watermark);
+  }
+
+  private async captureImage(
+    page: Page,
+    options: ImageOptionsDto,
+    url?: string
+  ): Promise<Buffer> {
+    this.logger.debug("Starting screenshot capture");
+    const format = options.format ?? DEFAULT_IMAGE_FORMAT;
+
+    try {
+      if (options.deviceScaleFactor !== undefined) {
+        const viewport = page.viewport() ?? { width: 1920, height: 1080 };
+        await page.setViewport({
+          ...viewport,
+          deviceScaleFactor: options.deviceScaleFactor,
+        });
+      }
+
+      const screenshotOptions: ScreenshotOptions = {
+        type: format,
+        // Puppeteer rejects a quality setting for PNG
+        quality: format === "png" ? undefined : options.quality,
+        omitBackground: options.omitBackground ?? false,
+      };
+
+      if (options.selector) {
+        const element = await page.$(options.selector);
+        if (!element) {
+          throw new Error(`No element matches selector "${options.selector}"`);
+        }
+        const image = await element.screenshot(screenshotOptions);
+        return Buffer.from(image);
       }
+
+      const image = await page.screenshot({
+        ...screenshotOptions,
+        clip: options.clip,
+        fullPage: options.clip ? false : (options.fullPage ?? true),
+      });
+      this.logger.debug("Screenshot capture successful");
+      return Buffer.from(image);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new PdfError(`Screenshot capture failed: ${errorMessage}`, {
+        stage: "screenshot",
+        url,
+        cause: error,
+      });
     }
+  }
 
-    throw lastError;
+  private buildPdfOptions(options: PdfOptionsDto): PDFOptions {
+    // A custom width/height pair takes precedence over the paper format
+    const size =
+      options.width !== undefined && options.height !== undefined
+        ? { width: options.width, height: options.height }
+        : { format: options.format ?? DEFAULT_PDF_FORMAT };
+
+    return {
+      ...size,
+      landscape: options.orientation === "landscape",
+      scale: options.scale ?? DEFAULT_PDF_SCALE,
+      pageRanges: options.pageRanges ?? "",
+      printBackground: options.printBackground ?? true,
+      preferCSSPageSize: options.preferCSSPageSize ?? false,
+      margin: {
+        top: options.margin?.top ?? DEFAULT_PDF_MARGIN.top,
+        right: options.margin?.right ?? DEFAULT_PDF_MARGIN.right,
+        bottom: options.margin?.bottom ?? DEFAULT_PDF_MARGIN.bottom,
+        left: options.margin?.left ?? DEFAULT_PDF_MARGIN.left,
+      },
+    };
   }
 
-  async convertUrlToPdf(url: string): Promise<Buffer> {
-    const timer = this.prometheusService.startConversion("url");
+  private async renderUrl(
+    url: string,
+    output: RenderOutput,
+    render: (page: Page) => Promise<Buffer>,
+    options: PageOptions,
+    session?: UrlSession
+  ): Promise<Buffer> {
+    const type = output === "pdf" ? "url" : "url_image";
+    const key = RequestContext.current()?.apiKey?.id;
+    const timer = this.prometheusService.startConversion(type, key);
+    let status: "success" | "error" = "error";
     let page: Page | undefined;
 
     try {
@@ -230,15 +514,20 @@ export class PdfService {
       try {
         new URL(url);
       } catch (urlError) {
-        this.prometheusService.recordError("url", "Invalid URL format");
         throw new BadRequestException("Invalid URL format");
       }
 
+      await this.urlPolicyService.assertAllowed(url);
+      this.fontService.assertInstalled(options.fonts);
+
       this.logger.debug("Getting page from browser pool...");
-      page = await this.browserPoolService.getPage();
+      // Session cookies and storage must not reach other conversions
+      const pageOptions = { isolated: session !== undefined };
+      page = await this.browserPoolService.getPage(pageOptions);
+      await this.prepareUrlPage(page, url, options, session);
       // Navigate to URL with retry
       this.logger.debug(`Attempting to navigate to URL: ${url}`);
-      await this.retryOperation(
+      await retryOperation(
         async () => {
           try {
             if (!page) {
@@ -281,6 +570,17 @@ export class PdfService {
 
             return response;
           } catch (navError: unknown) {
+            // A redirect to a blocked address aborts the navigation
+            const violation =
+              page && this.browserPoolService.takePolicyViolation(page);
+            if (violation) {
+              throw violation;
+            }
+            // Upstream HTTP errors already carry their status
+            if (navError instanceof PdfError) {
+              throw navError;
+            }
+
             // Check if it's a detached frame error
             if (
               navError instanceof Error &&
@@ -293,7 +593,8 @@ export class PdfService {
               if (page) {
                 await this.browserPoolService.closePage(page);
               }
-              page = await this.browserPoolService.getPage();
+              page = await this.browserPoolService.getPage(pageOptions);
+              await this.prepareUrlPage(page, url, options, session);
               // Retry navigation with new page
               const response = await page.goto(url, {
                 timeout: this.timeouts.navigation,
@@ -318,80 +619,26 @@ export class PdfService {
           }
         },
         3,
-        1000
+        1000,
+        this.logger,
+        (error) =>
+          !(error instanceof HttpException) &&
+          PdfError.unwrap(error)?.context.stage !== "url_policy" &&
+          // The same page answers the same status again
+          PdfError.unwrap(error)?.context.httpStatus === undefined
       );
 
       // Additional smart waiting for network stability
       if (page) {
         await this.browserPoolService.waitForPageLoad(page, url);
       }
+      await this.loadFonts(page);
 
-      // Generate PDF with retry
-      this.logger.debug("Starting PDF generation");
-
-      // Get company name and generate header/footer templates
-      const companyName = this.configService.pdfWatermarkText;
-      const color = this.configService.pdfWatermarkColor;
-      const now = new Date();
-      const dateStr = now.toLocaleDateString("en-US", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-      });
-      const timeStr = now.toLocaleTimeString("en-US", {
-        hour: "2-digit",
-        minute: "2-digit",
-      });
-
-      const pdf = await this.retryOperation(
-        async () => {
-          try {
-            if (!page) {
-              throw new Error("Page is not available");
-            }
-            const result = await page.pdf({
-              format: "A4",
-              printBackground: true,
-              timeout: this.timeouts.pdfGeneration,
-              scale: 0.8, // Slightly scale down to ensure content fits
-              displayHeaderFooter: true,
-              headerTemplate: `
-                <div style="width: 100%; font-size: 10px; padding: 5px 20px; color: ${color}; border-bottom: 2px solid ${color}; display: flex; justify-content: space-between; align-items: center; background: white; -webkit-print-color-adjust: exact;">
-                  <span style="font-weight: bold; font-size: 12px;">${companyName}</span>
-                  <span style="text-align: right;">${dateStr}<br/>${timeStr}</span>
-                </div>
-              `,
-              footerTemplate: `
-                <div style="width: 100%; font-size: 9px; padding: 5px 20px; color: ${color}; border-top: 2px solid ${color}; display: flex; justify-content: space-between; align-items: center; background: white; -webkit-print-color-adjust: exact;">
-                  <span style="font-style: italic;">© ${companyName} - All Rights Reserved</span>
-                  <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span> | Generated on ${dateStr} at ${timeStr}</span>
-                </div>
-              `,
-              margin: {
-                top: "80px",
-                right: "40px",
-                bottom: "80px",
-                left: "40px",
-              },
-            });
-            this.logger.debug("PDF generation successful");
-            return result;
-          } catch (pdfError: unknown) {
-            const errorMessage =
-              pdfError instanceof Error ? pdfError.message : String(pdfError);
-            this.logger.debug(`PDF generation failed: ${errorMessage}`);
-            throw new PdfError(`PDF generation failed: ${errorMessage}`, {
-              stage: "pdf_generation",
-              url,
-              cause: pdfError,
-            });
-          }
-        },
-        2,
-        500
-      );
-
-      return Buffer.from(pdf);
+      const result = await this.renderPage(page, render, options.waitFor, url);
+      this.recordBlockedRequests(page);
+      status = "success";
+      await this.usageService.recordConversion(result, output);
+      return result;
     } catch (error: unknown) {
       // Enhanced error handling
       let errorMessage: string;
@@ -409,43 +656,30 @@ export class PdfService {
 
       // Log detailed error information
       this.logger.error({
-        message: "Failed to convert URL to PDF",
+        message: `Failed to convert URL to ${OUTPUT_LABELS[output]}`,
         error: errorMessage,
         errorObject: error,
       });
 
-      if (error instanceof BadRequestException) {
-        throw error;
-      }
+      this.prometheusService.recordError(type, PdfError.codeOf(error));
 
-      // Provide more specific error messages
-      if (errorMessage.includes("net::ERR_NAME_NOT_RESOLVED")) {
-        throw new BadRequestException(
-          "Could not resolve the domain name. Please check if the URL is correct."
-        );
-      } else if (errorMessage.includes("net::ERR_CONNECTION_TIMED_OUT")) {
-        throw new BadRequestException(
-          "Connection timed out. The website might be down or blocking access."
-        );
-      } else if (errorMessage.includes("net::ERR_CONNECTION_REFUSED")) {
-        throw new BadRequestException(
-          "Connection was refused. The website might be blocking access."
-        );
-      } else if (errorMessage.includes("socket hang up")) {
-        throw new BadRequestException(
-          "Connection was unexpectedly closed. The website might be blocking automated access. Try again in a few minutes."
-        );
+      // Includes 503s from a full or timed out browser pool queue
+      if (error instanceof HttpException) {
+        throw error;
       }
 
-      this.prometheusService.recordError("url", errorMessage);
-      throw new BadRequestException(
-        `Failed to convert URL to PDF: ${errorMessage}`
-      );
+      throw (
+        PdfError.unwrap(error) ??
+        new PdfError(
+          `Failed to convert URL to ${OUTPUT_LABELS[output]}: ${errorMessage}`,
+          { url, cause: error }
+        )
+      ).toHttpException();
     } finally {
       if (page) {
         await this.browserPoolService.closePage(page);
       }
-      this.prometheusService.endConversion(timer, "success");
+      this.prometheusService.endConversion(timer, status, type, key);
     }
   }
 }
@@ -0,0 +1,221 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { ConfigService } from "../../config";
+import {
+  LOCAL_URL_SCHEMES,
+  PRIVATE_NETWORK_CIDRS,
+} from "../constants/pdf.constants";
+import { PdfError } from "../errors/pdf.error";
+import { UrlPolicyDecision } from "../interfaces/url-policy.interface";
+
+const DEFAULT_PORTS: Record<string, number> = {
+  "http:": 80,
+  "https:": 443,
+  "ws:": 80,
+  "wss:": 443,
+};
+
+/**
+ * Decides which URLs a rendered page may load. Applied to the requested URL,
+ * every redirect and every subresource, after resolving host names so a
+ * public name pointing at an internal address is caught as well.
+ */
+@Injectable()
+export class UrlPolicyService {
+  private readonly logger = new Logger(UrlPolicyService.name);
+  private readonly enabled: boolean;
+  private readonly blockPrivateNetworks: boolean;
+  private readonly allowHosts: string[];
+  private readonly denyHosts: string[];
+  private readonly allowPorts: number[];
+  private readonly denyPorts: number[];
+  private readonly allowCidrs: BlockList;
+  private readonly denyCidrs: BlockList;
+  private readonly privateNetworks: BlockList;
+
+  // Short-lived DNS cache, pages request many subresources from one host
+  private readonly dnsCache = new Map<
+    string,
+    { addresses: string[]; expiresAt: number }
+  >();
+  private readonly dnsCacheTtl = 30 * 1000;
+  private readonly dnsCacheSize = 1000;
+
+  constructor(private readonly configService: ConfigService) {
+    this.enabled = configService.urlPolicyEnabled;
+    this.blockPrivateNetworks = configService.urlBlockPrivateNetworks;
+    this.allowHosts = configService.urlAllowHosts.map((host) =>
+      host.toLowerCase()
+    );
+    this.denyHosts = configService.urlDenyHosts.map((host) =>
+      host.toLowerCase()
+    );
+    this.allowPorts = configService.urlAllowPorts;
+    this.denyPorts = configService.urlDenyPorts;
+    this.allowCidrs = this.createBlockList(
+      configService.urlAllowCidrs,
+      "URL_ALLOW_CIDRS"
+    );
+    this.denyCidrs = this.createBlockList(
+      configService.urlDenyCidrs,
+      "URL_DENY_CIDRS"
+    );
+    this.privateNetworks = this.createBlockList(
+      PRIVATE_NETWORK_CIDRS,
+      "private networks"
+    );
+
+    if (!this.enabled) {
+      this.logger.warn("URL policy is disabled, pages may reach any address");
+    }
+  }
+
+  async evaluate(rawUrl: string): Promise<UrlPolicyDecision> {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      return { allowed: false, reason: "Invalid URL" };
+    }
+
+    if (LOCAL_URL_SCHEMES.includes(url.protocol)) {
+      return { allowed: true };
+    }
+    if (!(url.protocol in DEFAULT_PORTS)) {
+      return {
+        allowed: false,
+        reason: `The ${url.protocol} scheme is not allowed`,
+      };
+    }
+    if (!this.enabled) {
+      return { allowed: true };
+    }
+
+    const port = url.port ? Number(url.port) : DEFAULT_PORTS[url.protocol];
+    if (
+      this.denyPorts.includes(port) ||
+      (this.allowPorts.length > 0 && !this.allowPorts.includes(port))
+    ) {
+      return { allowed: false, reason: `Port ${port} is not allowed` };
+    }
+
+    // IPv6 literals keep their brackets in URL.hostname
+    const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+    if (this.denyHosts.some((pattern) => this.matchesHost(host, pattern))) {
+      return { allowed: false, reason: `Host ${host} is denied` };
+    }
+    if (
+      this.allowHosts.length > 0 &&
+      !this.allowHosts.some((pattern) => this.matchesHost(host, pattern))
+    ) {
+      return {
+        allowed: false,
+        reason: `Host ${host} is not in the allow list`,
+      };
+    }
+
+    for (const address of await this.resolve(host)) {
+      const reason = this.checkAddress(address);
+      if (reason) {
+        return {
+          allowed: false,
+          reason:
+            address === host
+              ? reason
+              : `${host} resolves to ${address}: ${reason}`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /** Throws a PdfError with the url_policy stage when the URL is blocked. */
+  async assertAllowed(url: string): Promise<void> {
+    const decision = await this.evaluate(url);
+    if (!decision.allowed) {
+      throw this.violation(url, decision.reason);
+    }
+  }
+
+  violation(url: string, reason = "Blocked"): PdfError {
+    return new PdfError(`URL blocked by policy: ${reason}`, {
+      stage: "url_policy",
+      url,
+    });
+  }
+
+  private checkAddress(address: string): string | null {
+    // Check IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) as IPv4
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    const ip = mapped ? mapped[1] : address;
+    const family = isIP(ip) === 6 ? "ipv6" : "ipv4";
+
+    if (this.denyCidrs.check(ip, family)) {
+      return "address is in a denied range";
+    }
+    if (this.allowCidrs.check(ip, family)) {
+      return null;
+    }
+    if (this.blockPrivateNetworks && this.privateNetworks.check(ip, family)) {
+      return "private, loopback and link-local addresses are not allowed";
+    }
+    return null;
+  }
+
+  private async resolve(host: string): Promise<string[]> {
+    if (isIP(host)) {
+      return [host];
+    }
+
+    const cached = this.dnsCache.get(host);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.addresses;
+    }
+
+    let addresses: string[];
+    try {
+      const results = await lookup(host, { all: true, verbatim: true });
+      addresses = results.map((result) => result.address);
+    } catch {
+      // Unresolvable hosts cannot be reached; the browser reports the error
+      return [];
+    }
+
+    if (this.dnsCache.size >= this.dnsCacheSize) {
+      this.dnsCache.clear();
+    }
+    this.dnsCache.set(host, {
+      addresses,
+      expiresAt: Date.now() + this.dnsCacheTtl,
+    });
+    return addresses;
+  }
+
+  // "example.com" matches exactly, "*.example.com" matches any subdomain
+  private matchesHost(host: string, pattern: string): boolean {
+    if (pattern.startsWith("*.")) {
+      return host.endsWith(pattern.slice(1));
+    }
+    return host === pattern;
+  }
+
+  private createBlockList(cidrs: string[], source: string): BlockList {
+    const blockList = new BlockList();
+    for (const cidr of cidrs) {
+      const [network, prefix] = cidr.split("/");
+      const family = isIP(network);
+      if (!family) {
+        throw new Error(`Invalid CIDR ${cidr} in ${source}`);
+      }
+      const type = family === 6 ? "ipv6" : "ipv4";
+      if (prefix === undefined) {
+        blockList.addAddress(network, type);
+      } else {
+        blockList.addSubnet(network, Number(prefix), type);
+      }
+    }
+    return blockList;
+  }
+}
@@ -0,0 +1,302 @@
+import { Injectable, Logger } from "@nestjs/common";
+import {
+  degrees,
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  rgb,
+  StandardFonts,
+} from "pdf-lib";
+import { ConfigService } from "../../config";
+import {
+  WATERMARK_POSITIONS,
+  WatermarkPosition,
+} from "../constants/pdf.constants";
+import { WatermarkOptionsDto } from "../dto/watermark-options.dto";
+import { PdfError } from "../errors/pdf.error";
+
+interface ResolvedWatermark {
+  text?: string;
+  image?: Buffer;
+  position: WatermarkPosition;
+  rotation?: number;
+  opacity: number;
+  fontSize: number;
+  color: string;
+  imageScale: number;
+  pages: string;
+}
+
+interface Stamp {
+  width: number;
+  height: number;
+  draw: (page: PDFPage, x: number, y: number, rotation: number) => void;
+}
+
+@Injectable()
+export class WatermarkService {
+  private readonly logger = new Logger(WatermarkService.name);
+  private readonly cornerMargin = 24; // points from the page edge
+  private readonly tileGap = 60; // points between tiled stamps
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async apply(pdf: Buffer, options: WatermarkOptionsDto = {}): Promise<Buffer> {
+    const watermark = this.resolve(options);
+    if (!watermark) {
+      return pdf;
+    }
+
+    try {
+      const document = await PDFDocument.load(pdf);
+      const stamp = await this.createStamp(document, watermark);
+      const pages = document.getPages();
+
+      for (const index of this.selectPages(watermark.pages, pages.length)) {
+        this.stampPage(pages[index], stamp, watermark);
+      }
+
+      this.logger.debug(
+        `Watermark applied (${watermark.position}, pages: ${watermark.pages})`
+      );
+      return Buffer.from(await document.save());
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new PdfError(`Failed to apply watermark: ${errorMessage}`, {
+        stage: "watermark",
+        cause: error,
+      });
+    }
+  }
+
+  private resolve(options: WatermarkOptionsDto): ResolvedWatermark | null {
+    const hasOwnContent = Boolean(options.text || options.image);
+    const enabled =
+      options.enabled ??
+      (hasOwnContent || this.configService.pdfWatermarkEnabled);
+    if (!enabled) {
+      return null;
+    }
+
+    const configuredPosition = this.configService
+      .pdfWatermarkPosition as WatermarkPosition;
+
+    return {
+      text: options.text ?? this.configService.pdfWatermarkText,
+      image: options.image ? this.decodeImage(options.image) : undefined,
+      position:
+        options.position ??
+        (WATERMARK_POSITIONS.includes(configuredPosition)
+          ? configuredPosition
+          : "bottom-right"),
+      rotation: options.rotation ?? this.configService.pdfWatermarkRotation,
+      opacity: options.opacity ?? this.configService.pdfWatermarkOpacity,
+      fontSize: options.fontSize ?? this.configService.pdfWatermarkFontSize,
+      color: options.color ?? this.configService.pdfWatermarkColor,
+      imageScale: options.imageScale ?? 0.3,
+      pages: options.pages ?? this.configService.pdfWatermarkPages,
+    };
+  }
+
+  private decodeImage(image: string): Buffer {
+    const base64 = image.replace(/^data:[^;]+;base64,/, "");
+    return Buffer.from(base64, "base64");
+  }
+
+  private async createStamp(
+    document: PDFDocument,
+    watermark: ResolvedWatermark
+  ): Promise<Stamp> {
+    if (watermark.image) {
+      const image = await this.embedImage(document, watermark.image);
+      return this.createImageStamp(document, image, watermark);
+    }
+
+    const font = await document.embedFont(StandardFonts.HelveticaBold);
+    return this.createTextStamp(font, watermark);
+  }
+
+  private async embedImage(
+    document: PDFDocument,
+    image: Buffer
+  ): Promise<PDFImage> {
+    // Detect the format from the magic bytes rather than trusting a MIME type
+    if (image.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+      return document.embedPng(image);
+    }
+    if (image[0] === 0xff && image[1] === 0xd8) {
+      return document.embedJpg(image);
+    }
+    throw new Error("Watermark image must be a PNG or JPEG");
+  }
+
+  private createImageStamp(
+    document: PDFDocument,
+    image: PDFImage,
+    watermark: ResolvedWatermark
+  ): Stamp {
+    const [firstPage] = document.getPages();
+    const targetWidth = firstPage.getWidth() * watermark.imageScale;
+    const { width, height } = image.scale(targetWidth / image.width);
+
+    return {
+      width,
+      height,
+      draw: (page, x, y, rotation) =>
+        page.drawImage(image, {
+          x,
+          y,
+          width,
+          height,
+          rotate: degrees(rotation),
+          opacity: watermark.opacity,
+        }),
+    };
+  }
+
+  private createTextStamp(font: PDFFont, watermark: ResolvedWatermark): Stamp {
+    const text = watermark.text ?? "";
+    const size = watermark.fontSize;
+    const color = this.parseColor(watermark.color);
+
+    return {
+      width: font.widthOfTextAtSize(text, size),
+      height: font.heightAtSize(size, { descender: false }),
+      draw: (page, x, y, rotation) =>
+        page.drawText(text, {
+          x,
+          y,
+          size,
+          font,
+          color,
+          rotate: degrees(rotation),
+          opacity: watermark.opacity,
+        }),
+    };
+  }
+
+  private stampPage(
+    page: PDFPage,
+    stamp: Stamp,
+    watermark: ResolvedWatermark
+  ): void {
+    const { width, height } = page.getSize();
+    const diagonal = (Math.atan2(height, width) * 180) / Math.PI;
+
+    switch (watermark.position) {
+      case "diagonal":
+        this.drawCentered(
+          page,
+          stamp,
+          width / 2,
+          height / 2,
+          watermark.rotation ?? diagonal
+        );
+        break;
+      case "tiled": {
+        const stepX = stamp.width + this.tileGap;
+        const stepY = stamp.height + this.tileGap * 2;
+        for (let y = stepY / 2; y < height + stepY; y += stepY) {
+          for (let x = stepX / 2; x < width + stepX; x += stepX) {
+            this.drawCentered(
+              page,
+              stamp,
+              x,
+              y,
+              watermark.rotation ?? diagonal
+            );
+          }
+        }
+        break;
+      }
+      case "center":
+        this.drawCentered(
+          page,
+          stamp,
+          width / 2,
+          height / 2,
+          watermark.rotation ?? 0
+        );
+        break;
+      default: {
+        const [vertical, horizontal] = watermark.position.split("-");
+        const halfWidth = stamp.width / 2 + this.cornerMargin;
+        const halfHeight = stamp.height / 2 + this.cornerMargin;
+        this.drawCentered(
+          page,
+          stamp,
+          horizontal === "left" ? halfWidth : width - halfWidth,
+          vertical === "bottom" ? halfHeight : height - halfHeight,
+          watermark.rotation ?? 0
+        );
+      }
+    }
+  }
+
+  // pdf-lib rotates around the bottom-left corner of the drawn object, so the
+  // origin is shifted to make the stamp rotate around its own centre instead.
+  private drawCentered(
+    page: PDFPage,
+    stamp: Stamp,
+    centerX: number,
+    centerY: number,
+    rotation: number
+  ): void {
+    const radians = (rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const x = centerX - ((stamp.width / 2) * cos - (stamp.height / 2) * sin);
+    const y = centerY - ((stamp.width / 2) * sin + (stamp.height / 2) * cos);
+    stamp.draw(page, x, y, rotation);
+  }
+
+  private selectPages(pages: string, pageCount: number): number[] {
+    const all = Array.from({ length: pageCount }, (_, index) => index);
+
+    switch (pages.trim()) {
+      case "all":
+        return all;
+      case "first":
+        return pageCount > 0 ? [0] : [];
+      case "last":
+        return pageCount > 0 ? [pageCount - 1] : [];
+      case "odd":
+        return all.filter((index) => index % 2 === 0);
+      case "even":
+        return all.filter((index) => index % 2 === 1);
+    }
+
+    const selected = new Set<number>();
+    for (const range of pages.split(",")) {
+      const [start, end] = range.split("-").map((part) => parseInt(part, 10));
+      // Ranges may reach far past the document, only its pages are visited
+      const last = Math.min(end || start, pageCount);
+      for (let page = Math.max(start, 1); page <= last; page++) {
+        selected.add(page - 1);
+      }
+    }
+    return [...selected].sort((a, b) => a - b);
+  }
+
+  private parseColor(hex: string) {
+    const value =
+      hex.length === 4
+        ? hex
+            .slice(1)
+            .split("")
+            .map((char) => char + char)
+            .join("")
+        : hex.slice(1);
+    const number = parseInt(value, 16);
+    if (Number.isNaN(number)) {
+      return rgb(0.4, 0.4, 0.4);
+    }
+    return rgb(
+      ((number >> 16) & 0xff) / 255,
+      ((number >> 8) & 0xff) / 255,
+      (number & 0xff) / 255
+    );
+  }
+}
@@ -0,0 +1,140 @@
+import { promises as fs } from "fs";
+import { join } from "path";
+import {
+  PdfCacheEntry,
+  PdfCacheStore,
+} from "../interfaces/pdf-cache.interface";
+
+type CacheMetadata = Omit<PdfCacheEntry, "pdf"> & { size: number };
+
+/**
+ * Keeps each PDF next to a small JSON file with its metadata. The index of
+ * sizes and expiry times lives in memory and is rebuilt from the metadata
+ * files by load(), so entries survive restarts.
+ */
+export class DiskCacheStore implements PdfCacheStore {
+  // Map order doubles as the LRU order, least recently used first
+  private readonly index = new Map<
+    string,
+    { size: number; expiresAt: number }
+  >();
+  private size = 0;
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxSize: number
+  ) {}
+
+  async load(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const files = (await fs.readdir(this.directory)).filter((file) =>
+      file.endsWith(".json")
+    );
+
+    const entries: [string, CacheMetadata][] = [];
+    for (const file of files) {
+      const key = file.slice(0, -".json".length);
+      try {
+        const metadata: CacheMetadata = JSON.parse(
+          await fs.readFile(join(this.directory, file), "utf8")
+        );
+        entries.push([key, metadata]);
+      } catch {
+        await this.remove(key);
+      }
+    }
+
+    const now = Date.now();
+    entries.sort(([, a], [, b]) => a.createdAt - b.createdAt);
+    for (const [key, metadata] of entries) {
+      if (metadata.expiresAt <= now) {
+        await this.remove(key);
+      } else {
+        this.track(key, metadata.size, metadata.expiresAt);
+      }
+    }
+    await this.evict();
+  }
+
+  async get(key: string): Promise<PdfCacheEntry | null> {
+    const indexed = this.index.get(key);
+    if (!indexed) {
+      return null;
+    }
+    if (indexed.expiresAt <= Date.now()) {
+      await this.remove(key);
+      return null;
+    }
+
+    try {
+      const [pdf, metadata] = await Promise.all([
+        fs.readFile(this.pathFor(key, "pdf")),
+        fs.readFile(this.pathFor(key, "json"), "utf8"),
+      ]);
+      const { size: _size, ...entry }: CacheMetadata = JSON.parse(metadata);
+      this.index.delete(key);
+      this.index.set(key, indexed);
+      return { ...entry, pdf };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        await this.remove(key);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: PdfCacheEntry): Promise<void> {
+    await this.remove(key);
+    if (entry.pdf.length > this.maxSize) {
+      return;
+    }
+
+    const { pdf, ...rest } = entry;
+    const metadata: CacheMetadata = { ...rest, size: pdf.length };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(key, "pdf"), pdf);
+    // The metadata is written last, load() ignores PDFs without it
+    await fs.writeFile(this.pathFor(key, "json"), JSON.stringify(metadata));
+    this.track(key, pdf.length, entry.expiresAt);
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.remove(key);
+  }
+
+  private track(key: string, size: number, expiresAt: number): void {
+    this.index.set(key, { size, expiresAt });
+    this.size += size;
+  }
+
+  private async evict(): Promise<void> {
+    for (const oldest of [...this.index.keys()]) {
+      if (this.size <= this.maxSize) {
+        break;
+      }
+      await this.remove(oldest);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    const indexed = this.index.get(key);
+    if (indexed) {
+      this.index.delete(key);
+      this.size -= indexed.size;
+    }
+    await Promise.all([
+      fs.rm(this.pathFor(key, "json"), { force: true }),
+      fs.rm(this.pathFor(key, "pdf"), { force: true }),
+    ]);
+  }
+
+  private pathFor(key: string, extension: "pdf" | "json"): string {
+    // Keys are hex digests, but never let one escape the directory
+    return join(
+      this.directory,
+      `${key.replace(/[^a-f0-9]/g, "")}.${extension}`
+    );
+  }
+}
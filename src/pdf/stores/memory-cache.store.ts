@@ -0,0 +1,55 @@
+import {
+  PdfCacheEntry,
+  PdfCacheStore,
+} from "../interfaces/pdf-cache.interface";
+
+export class MemoryCacheStore implements PdfCacheStore {
+  // Map order doubles as the LRU order, least recently used first
+  private readonly entries = new Map<string, PdfCacheEntry>();
+  private size = 0;
+
+  constructor(private readonly maxSize: number) {}
+
+  async get(key: string): Promise<PdfCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: PdfCacheEntry): Promise<void> {
+    this.remove(key);
+    if (entry.pdf.length > this.maxSize) {
+      return;
+    }
+
+    this.entries.set(key, entry);
+    this.size += entry.pdf.length;
+    for (const oldest of this.entries.keys()) {
+      if (this.size <= this.maxSize) {
+        break;
+      }
+      this.remove(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.size -= entry.pdf.length;
+    }
+  }
+}
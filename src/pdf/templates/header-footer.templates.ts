@@ -0,0 +1,59 @@
+export interface HeaderFooterContext {
+  companyName: string;
+  color: string;
+}
+
+export interface HeaderFooterTemplates {
+  headerTemplate: string;
+  footerTemplate: string;
+}
+
+// Chrome renders header/footer templates with a tiny default font size and no
+// access to the page styles, so every preset carries its own inline styling.
+export const HEADER_FOOTER_PRESETS = {
+  banner: ({ companyName, color }: HeaderFooterContext) => ({
+    headerTemplate: `
+      <div style="width: 100%; font-size: 10px; padding: 5px 20px; color: ${color}; border-bottom: 2px solid ${color}; display: flex; justify-content: space-between; align-items: center; background: white; -webkit-print-color-adjust: exact;">
+        <span style="font-weight: bold; font-size: 12px;">${companyName}</span>
+        <span style="text-align: right;">{{date}}<br/>{{time}}</span>
+      </div>
+    `,
+    footerTemplate: `
+      <div style="width: 100%; font-size: 9px; padding: 5px 20px; color: ${color}; border-top: 2px solid ${color}; display: flex; justify-content: space-between; align-items: center; background: white; -webkit-print-color-adjust: exact;">
+        <span style="font-style: italic;">© ${companyName} - All Rights Reserved</span>
+        <span>Page {{pageNumber}} of {{totalPages}} | Generated on {{date}} at {{time}}</span>
+      </div>
+    `,
+  }),
+  "page-numbers": ({ color }: HeaderFooterContext) => ({
+    headerTemplate: "<span></span>",
+    footerTemplate: `
+      <div style="width: 100%; font-size: 9px; padding: 5px 20px; color: ${color}; text-align: center;">
+        {{pageNumber}} / {{totalPages}}
+      </div>
+    `,
+  }),
+  "title-date": ({ color }: HeaderFooterContext) => ({
+    headerTemplate: `
+      <div style="width: 100%; font-size: 9px; padding: 5px 20px; color: ${color}; display: flex; justify-content: space-between;">
+        <span>{{title}}</span>
+        <span>{{date}}</span>
+      </div>
+    `,
+    footerTemplate: `
+      <div style="width: 100%; font-size: 9px; padding: 5px 20px; color: ${color}; display: flex; justify-content: space-between;">
+        <span>{{url}}</span>
+        <span>Page {{pageNumber}} of {{totalPages}}</span>
+      </div>
+    `,
+  }),
+} satisfies Record<
+  string,
+  (context: HeaderFooterContext) => HeaderFooterTemplates
+>;
+
+export type HeaderFooterPreset = keyof typeof HEADER_FOOTER_PRESETS;
+
+export const HEADER_FOOTER_PRESET_NAMES = Object.keys(
+  HEADER_FOOTER_PRESETS
+) as HeaderFooterPreset[];
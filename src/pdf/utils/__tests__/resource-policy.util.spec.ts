@@ -0,0 +1,51 @@
+import {
+  compileUrlPattern,
+  createResourceFilter,
+} from "../resource-policy.util";
+
+describe("resource policy utils", () => {
+  describe("compileUrlPattern", () => {
+    it("should match host patterns against the domain and its subdomains", () => {
+      const matches = compileUrlPattern("Example.com");
+
+      expect(matches("example.com")).toBe(true);
+      expect(matches("cdn.example.com")).toBe(true);
+      expect(matches("notexample.com")).toBe(false);
+      expect(matches("example.com.evil.net")).toBe(false);
+    });
+
+    it("should expand stars to any run of characters", () => {
+      const host = compileUrlPattern("ads*.example.*");
+      const url = compileUrlPattern("https://*/track/*.gif");
+
+      expect(host("ads.example.net")).toBe(true);
+      expect(host("eu.ads-2.example.org")).toBe(true);
+      expect(host("cdn.example.net")).toBe(false);
+      expect(url("https://stats.example.com/track/pixel.gif")).toBe(true);
+      expect(url("https://stats.example.com/track/pixel.png")).toBe(false);
+      expect(url("https://stats.example.com/track/a.gif?x=1")).toBe(false);
+    });
+
+    it("should not backtrack on patterns with many stars", () => {
+      const matches = compileUrlPattern("*a*a*a*a*a*a*/");
+      const url = `https://example.com/${"a".repeat(100000)}`;
+
+      const started = Date.now();
+      expect(matches(url)).toBe(false);
+      expect(matches(`${url}/`)).toBe(true);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  it("should let the first policy with a matching rule decide", () => {
+    const filter = createResourceFilter([
+      { allowUrls: ["ads.example.com"] },
+      { blockUrls: ["example.com"], blockTypes: ["media"] },
+    ]);
+
+    expect(filter("script", "https://ads.example.com/tag.js")).toBe(false);
+    expect(filter("script", "https://www.example.com/app.js")).toBe(true);
+    expect(filter("media", "https://cdn.other.net/intro.mp4")).toBe(true);
+    expect(filter("image", "not a url")).toBe(false);
+  });
+});
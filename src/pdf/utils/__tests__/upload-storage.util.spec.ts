@@ -0,0 +1,38 @@
+import { PayloadTooLargeException } from "@nestjs/common";
+import { Request } from "express";
+import { Readable } from "stream";
+import { limitedMemoryStorage } from "../upload-storage.util";
+
+describe("limitedMemoryStorage", () => {
+  const upload = (
+    storage: ReturnType<typeof limitedMemoryStorage>,
+    req: Request,
+    content: string
+  ) =>
+    new Promise<Partial<Express.Multer.File>>((resolve, reject) =>
+      storage._handleFile(
+        req,
+        {
+          stream: Readable.from([Buffer.from(content)]),
+        } as Express.Multer.File,
+        (error, info) => (error ? reject(error) : resolve(info ?? {}))
+      )
+    );
+
+  it("should keep files in memory up to the total size of the request", async () => {
+    const storage = limitedMemoryStorage(10);
+    const req = {} as Request;
+
+    const first = await upload(storage, req, "hello");
+
+    expect(first.buffer?.toString()).toBe("hello");
+    expect(first.size).toBe(5);
+    await expect(upload(storage, req, "world!")).rejects.toThrow(
+      PayloadTooLargeException
+    );
+    // Other requests have their own budget
+    await expect(upload(storage, {} as Request, "world!")).resolves.toEqual(
+      expect.objectContaining({ size: 6 })
+    );
+  });
+});
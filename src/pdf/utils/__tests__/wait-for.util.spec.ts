@@ -0,0 +1,118 @@
+import { Page } from "puppeteer";
+import { PdfErrorCode } from "../../errors/pdf-error-code";
+import { PdfError } from "../../errors/pdf.error";
+import {
+  startDeadline,
+  waitForConditions,
+  withinDeadline,
+} from "../wait-for.util";
+
+const timeoutError = () =>
+  Object.assign(new Error("Waiting failed: 100ms exceeded"), {
+    name: "TimeoutError",
+  });
+
+describe("wait-for utils", () => {
+  const createPage = () =>
+    ({
+      waitForSelector: jest.fn().mockResolvedValue(null),
+      waitForFunction: jest.fn().mockResolvedValue(null),
+    }) as unknown as jest.Mocked<Page>;
+
+  it("should wait for every condition within the remaining time", async () => {
+    const page = createPage();
+    const waitFor = {
+      selector: "#chart",
+      hiddenSelector: ".spinner",
+      expression: "window.ready",
+      windowStatus: "ready",
+      event: "charts-rendered",
+      timeout: 5000,
+    };
+
+    await waitForConditions(page, waitFor, startDeadline(waitFor));
+
+    expect(page.waitForSelector).toHaveBeenCalledWith("#chart", {
+      timeout: expect.any(Number),
+    });
+    expect(page.waitForSelector).toHaveBeenCalledWith(".spinner", {
+      hidden: true,
+      timeout: expect.any(Number),
+    });
+    expect(page.waitForFunction).toHaveBeenCalledWith("window.ready", {
+      timeout: expect.any(Number),
+    });
+    expect(page.waitForFunction).toHaveBeenCalledTimes(3);
+    const [timeout] = page.waitForSelector.mock.calls.map(
+      ([, options]) => options?.timeout
+    );
+    expect(timeout).toBeGreaterThan(4000);
+    expect(timeout).toBeLessThanOrEqual(5000);
+  });
+
+  it("should name the condition that timed out", async () => {
+    const page = createPage();
+    page.waitForSelector.mockRejectedValue(timeoutError());
+    const waitFor = { selector: "#chart", timeout: 100 };
+
+    const error: PdfError = await waitForConditions(
+      page,
+      waitFor,
+      startDeadline(waitFor, "https://example.com")
+    ).catch((error) => error);
+
+    expect(error).toBeInstanceOf(PdfError);
+    expect(error.code).toBe(PdfErrorCode.WAIT_TIMEOUT);
+    expect(error.status).toBe(504);
+    expect(error.message).toBe(
+      'Render timeout of 100 ms exceeded waiting for selector "#chart"'
+    );
+    expect(error.context).toMatchObject({
+      stage: "wait_for",
+      url: "https://example.com",
+      waitCondition: 'selector "#chart"',
+    });
+  });
+
+  it("should report other failures as render errors", async () => {
+    const page = createPage();
+    page.waitForFunction.mockRejectedValue(
+      new Error("SyntaxError: Unexpected token")
+    );
+    const waitFor = { expression: "window.(" };
+
+    const error: PdfError = await waitForConditions(
+      page,
+      waitFor,
+      startDeadline(waitFor)
+    ).catch((error) => error);
+
+    expect(error.code).toBe(PdfErrorCode.RENDER_FAILED);
+    expect(error.context.waitCondition).toBe('expression "window.("');
+  });
+
+  it("should fail a delay that does not fit into the timeout", async () => {
+    const waitFor = { delay: 2000, timeout: 1000 };
+
+    await expect(
+      waitForConditions(createPage(), waitFor, startDeadline(waitFor))
+    ).rejects.toMatchObject({
+      code: PdfErrorCode.WAIT_TIMEOUT,
+      context: { waitCondition: "delay of 2000 ms" },
+    });
+  });
+
+  it("should stop waiting for rendering at the deadline", async () => {
+    const deadline = startDeadline({ timeout: 10 });
+
+    await expect(
+      withinDeadline(new Promise(() => undefined), deadline, "rendering")
+    ).rejects.toMatchObject({
+      code: PdfErrorCode.WAIT_TIMEOUT,
+      context: { waitCondition: "rendering" },
+    });
+    await expect(
+      withinDeadline(Promise.resolve("pdf"), startDeadline({}), "rendering")
+    ).resolves.toBe("pdf");
+  });
+});
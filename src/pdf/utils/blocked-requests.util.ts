@@ -0,0 +1,12 @@
+import { Response } from "express";
+import { RequestContext } from "../../common/context/request-context";
+import { BLOCKED_REQUESTS_HEADER } from "../constants/pdf.constants";
+
+/** Adds the counts of requests the resource policy blocked, if any. */
+export const setBlockedRequestsHeader = (res: Response): void => {
+  const blocked = RequestContext.current()?.blockedRequests;
+  if (!blocked) {
+    return;
+  }
+  res.set(BLOCKED_REQUESTS_HEADER, JSON.stringify(blocked));
+};
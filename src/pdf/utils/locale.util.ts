@@ -0,0 +1,47 @@
+/** Whether Intl knows the BCP 47 language tag, e.g. de-DE or zh-Hant-TW. */
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/** Whether Intl knows the IANA timezone, e.g. Europe/Berlin. */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** navigator.languages for a locale, followed by its bare language. */
+export function navigatorLanguages(locale: string): string[] {
+  const [language] = locale.split("-");
+  return language === locale ? [locale] : [locale, language];
+}
+
+export function acceptLanguage(locale: string): string {
+  return navigatorLanguages(locale)
+    .map((tag, index) => (index === 0 ? tag : `${tag};q=0.9`))
+    .join(",");
+}
+
+/**
+ * Page script that reports the given JSON list of languages from
+ * navigator.language and navigator.languages. The properties stay
+ * configurable so a later script can override them again.
+ */
+export function overrideLanguages(json: string): void {
+  const languages = JSON.parse(json) as string[];
+  Object.defineProperty(navigator, "language", {
+    get: () => languages[0],
+    configurable: true,
+  });
+  Object.defineProperty(navigator, "languages", {
+    get: () => languages,
+    configurable: true,
+  });
+}
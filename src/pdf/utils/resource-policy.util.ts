@@ -0,0 +1,91 @@
+import { ResourcePolicy } from "../interfaces/resource-policy.interface";
+
+/** Decides whether a request of the given type and URL is blocked. */
+export type ResourceFilter = (type: string, url: string) => boolean;
+
+type Rule = (type: string, url: URL) => boolean;
+
+/**
+ * Whether the text matches a glob split on its stars. The pieces are found
+ * left to right without backtracking, so the time stays linear whatever the
+ * pattern.
+ */
+function matchesGlob(parts: string[], text: string): boolean {
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  if (parts.length === 1) {
+    return text === first;
+  }
+  if (!text.startsWith(first)) {
+    return false;
+  }
+  let position = first.length;
+  for (const part of parts.slice(1, -1)) {
+    const index = text.indexOf(part, position);
+    if (index === -1) {
+      return false;
+    }
+    position = index + part.length;
+  }
+  return text.length - last.length >= position && text.endsWith(last);
+}
+
+/**
+ * Patterns without a slash match host names, a bare domain including its
+ * subdomains. Patterns with a slash match the whole URL. * matches any run
+ * of characters in both, case-insensitively.
+ */
+export function compileUrlPattern(pattern: string): (value: string) => boolean {
+  const parts = pattern.toLowerCase().split("*");
+  if (pattern.includes("/")) {
+    return (value) => matchesGlob(parts, value.toLowerCase());
+  }
+  return (value) => {
+    const labels = value.toLowerCase().split(".");
+    return labels.some((_, index) =>
+      matchesGlob(parts, labels.slice(index).join("."))
+    );
+  };
+}
+
+function urlRule(patterns: string[] = []): Rule {
+  const compiled = patterns.map((pattern) => ({
+    matches: compileUrlPattern(pattern),
+    host: !pattern.includes("/"),
+  }));
+  return (_type, url) =>
+    compiled.some(({ matches, host }) =>
+      matches(host ? url.hostname : url.href)
+    );
+}
+
+function typeRule(types: string[] = []): Rule {
+  return (type) => types.includes(type);
+}
+
+/**
+ * Combines policies, most specific first. The first policy with a matching
+ * rule decides; within a policy allowUrls, blockUrls, allowTypes and
+ * blockTypes are checked in that order. Unmatched requests load.
+ */
+export function createResourceFilter(
+  policies: ResourcePolicy[]
+): ResourceFilter {
+  const rules = policies.flatMap((policy): [Rule, boolean][] => [
+    [urlRule(policy.allowUrls), false],
+    [urlRule(policy.blockUrls), true],
+    [typeRule(policy.allowTypes), false],
+    [typeRule(policy.blockTypes), true],
+  ]);
+
+  return (type, url) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+    const match = rules.find(([rule]) => rule(type, parsed));
+    return match?.[1] ?? false;
+  };
+}
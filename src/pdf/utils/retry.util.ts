@@ -0,0 +1,43 @@
+import { Logger } from "@nestjs/common";
+
+/**
+ * Runs an operation up to `maxRetries` times, doubling the delay between
+ * attempts. The error of the last attempt is rethrown unchanged so callers can
+ * still inspect PdfError context. Errors rejected by `shouldRetry` are
+ * rethrown immediately.
+ */
+export async function retryOperation<T>(
+  operation: (attempt: number) => Promise<T>,
+  maxRetries: number = 3,
+  delay: number = 1000,
+  logger?: Logger,
+  shouldRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  let lastError: Error = new Error("Operation failed after all retries");
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      const result = await operation(attempt);
+      return result;
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      lastError = error instanceof Error ? error : new Error(errorMessage);
+
+      if (!shouldRetry(error)) {
+        throw error;
+      }
+
+      if (attempt < maxRetries) {
+        logger?.warn(
+          `Attempt ${attempt} failed, retrying in ${delay}ms: ${errorMessage}`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        // Increase delay for next attempt
+        delay *= 2;
+      }
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,17 @@
+import { Response } from "express";
+import { RequestContext } from "../../common/context/request-context";
+import { SANITIZE_REPORT_HEADER } from "../constants/pdf.constants";
+
+/** Adds the sanitization report of the request's conversion, if any. */
+export const setSanitizeReportHeader = (res: Response): void => {
+  const report = RequestContext.current()?.sanitizeReport;
+  if (!report) {
+    return;
+  }
+  // Header values must be ASCII; tag names come from untrusted HTML
+  const value = JSON.stringify(report).replace(
+    /[^\x20-\x7e]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`
+  );
+  res.set(SANITIZE_REPORT_HEADER, value);
+};
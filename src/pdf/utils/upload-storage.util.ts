@@ -0,0 +1,47 @@
+import { PayloadTooLargeException } from "@nestjs/common";
+import { Request } from "express";
+import { StorageEngine } from "multer";
+
+/**
+ * Keeps uploads in memory like multer's memoryStorage, but fails the request
+ * once all of its files together exceed maxTotalSize bytes. Multer itself
+ * only limits the size of each file.
+ */
+export function limitedMemoryStorage(maxTotalSize: number): StorageEngine {
+  const received = new WeakMap<Request, number>();
+
+  return {
+    _handleFile(req, file, callback) {
+      const chunks: Buffer[] = [];
+      let done = false;
+      const finish = (error: Error | null, buffer?: Buffer) => {
+        if (!done) {
+          done = true;
+          callback(error, buffer && { buffer, size: buffer.length });
+        }
+      };
+
+      file.stream
+        .on("data", (chunk: Buffer) => {
+          const total = (received.get(req) ?? 0) + chunk.length;
+          received.set(req, total);
+          if (total > maxTotalSize) {
+            finish(
+              new PayloadTooLargeException(
+                `Uploaded files exceed ${maxTotalSize / 1024 / 1024}MB in total`
+              )
+            );
+            return;
+          }
+          chunks.push(chunk);
+        })
+        .on("error", (error) => finish(error))
+        .on("end", () => finish(null, Buffer.concat(chunks)));
+    },
+
+    _removeFile(_req, file, callback) {
+      delete (file as Partial<Express.Multer.File>).buffer;
+      callback(null);
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { UrlSession } from "../interfaces/url-session.interface";
+
+/**
+ * Page script writing the localStorage seed of a URL session. It runs in
+ * every document of the page and only touches the seeded origin.
+ */
+export function seedLocalStorage(seed: string): void {
+  const { origin, items } = JSON.parse(seed) as {
+    origin: string;
+    items: Record<string, string>;
+  };
+  if (location.origin !== origin) {
+    return;
+  }
+  for (const [key, value] of Object.entries(items)) {
+    localStorage.setItem(key, value);
+  }
+}
+
+/** Headers of a session for its origin, including basic auth. */
+export function sessionHeaders(session: UrlSession): Record<string, string> {
+  const headers = { ...session.headers };
+  if (session.basicAuth) {
+    const { username, password } = session.basicAuth;
+    headers.Authorization = `Basic ${Buffer.from(
+      `${username}:${password}`
+    ).toString("base64")}`;
+  }
+  return headers;
+}
+
+/** The session fields of a URL request, or undefined when none are set. */
+export function urlSessionOf(request: UrlSession): UrlSession | undefined {
+  const { cookies, headers, basicAuth, localStorage } = request;
+  if (!cookies?.length && !headers && !basicAuth && !localStorage) {
+    return undefined;
+  }
+  return { cookies, headers, basicAuth, localStorage };
+}
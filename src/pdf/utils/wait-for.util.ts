@@ -0,0 +1,178 @@
+import { Page } from "puppeteer";
+import { DEFAULT_WAIT_FOR_TIMEOUT } from "../constants/pdf.constants";
+import { WaitForOptionsDto } from "../dto/wait-for-options.dto";
+import { PdfErrorCode } from "../errors/pdf-error-code";
+import { PdfError } from "../errors/pdf.error";
+
+export interface WaitForDeadline {
+  at: number;
+  timeout: number;
+  url?: string;
+}
+
+type Condition = [name: string, wait: (timeout: number) => Promise<unknown>];
+
+/**
+ * Page script that remembers whether an event of the given type has been
+ * dispatched. It wraps dispatchEvent instead of adding a listener because
+ * setContent() replaces the document with document.open(), which drops every
+ * listener, while the patched prototype survives on the window.
+ */
+export function recordEvent(type: string): void {
+  const target = window as unknown as {
+    __html2pdfEvents?: Record<string, boolean>;
+  };
+  if (target.__html2pdfEvents) {
+    target.__html2pdfEvents[type] ??= false;
+    return;
+  }
+
+  const events: Record<string, boolean> = { [type]: false };
+  target.__html2pdfEvents = events;
+  const dispatchEvent = EventTarget.prototype.dispatchEvent;
+  EventTarget.prototype.dispatchEvent = function (event: Event) {
+    if (event.type in events) {
+      events[event.type] = true;
+    }
+    return dispatchEvent.call(this, event);
+  };
+}
+
+export function startDeadline(
+  waitFor: WaitForOptionsDto,
+  url?: string
+): WaitForDeadline {
+  const timeout = waitFor.timeout ?? DEFAULT_WAIT_FOR_TIMEOUT;
+  return { at: Date.now() + timeout, timeout, url };
+}
+
+function timedOut(
+  condition: string,
+  deadline: WaitForDeadline,
+  cause?: unknown
+): PdfError {
+  return new PdfError(
+    `Render timeout of ${deadline.timeout} ms exceeded waiting for ${condition}`,
+    {
+      code: PdfErrorCode.WAIT_TIMEOUT,
+      stage: "wait_for",
+      url: deadline.url,
+      waitCondition: condition,
+      cause,
+    }
+  );
+}
+
+/**
+ * Waits until every condition of waitFor holds, then for its fixed delay.
+ * The first condition still pending at the deadline is named in the error.
+ */
+export async function waitForConditions(
+  page: Page,
+  waitFor: WaitForOptionsDto,
+  deadline: WaitForDeadline
+): Promise<void> {
+  const conditions: Condition[] = [];
+  if (waitFor.selector) {
+    const selector = waitFor.selector;
+    conditions.push([
+      `selector "${selector}"`,
+      (timeout) => page.waitForSelector(selector, { timeout }),
+    ]);
+  }
+  if (waitFor.hiddenSelector) {
+    const selector = waitFor.hiddenSelector;
+    conditions.push([
+      `hiddenSelector "${selector}"`,
+      (timeout) => page.waitForSelector(selector, { hidden: true, timeout }),
+    ]);
+  }
+  if (waitFor.expression) {
+    const expression = waitFor.expression;
+    conditions.push([
+      `expression "${expression}"`,
+      (timeout) => page.waitForFunction(expression, { timeout }),
+    ]);
+  }
+  if (waitFor.windowStatus !== undefined) {
+    const status = waitFor.windowStatus;
+    conditions.push([
+      `windowStatus "${status}"`,
+      (timeout) =>
+        page.waitForFunction(
+          (expected: string) => window.status === expected,
+          { timeout },
+          status
+        ),
+    ]);
+  }
+  if (waitFor.event) {
+    const type = waitFor.event;
+    conditions.push([
+      `event "${type}"`,
+      (timeout) =>
+        page.waitForFunction(
+          (expected: string) =>
+            (
+              window as unknown as {
+                __html2pdfEvents?: Record<string, boolean>;
+              }
+            ).__html2pdfEvents?.[expected] === true,
+          { timeout },
+          type
+        ),
+    ]);
+  }
+
+  await Promise.all(
+    conditions.map(async ([condition, wait]) => {
+      const remaining = deadline.at - Date.now();
+      if (remaining <= 0) {
+        throw timedOut(condition, deadline);
+      }
+      try {
+        await wait(remaining);
+      } catch (error: unknown) {
+        if (error instanceof Error && error.name === "TimeoutError") {
+          throw timedOut(condition, deadline, error);
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        throw new PdfError(`Waiting for ${condition} failed: ${errorMessage}`, {
+          stage: "wait_for",
+          url: deadline.url,
+          waitCondition: condition,
+          cause: error,
+        });
+      }
+    })
+  );
+
+  if (waitFor.delay) {
+    const condition = `delay of ${waitFor.delay} ms`;
+    if (Date.now() + waitFor.delay > deadline.at) {
+      throw timedOut(condition, deadline);
+    }
+    await new Promise((resolve) => setTimeout(resolve, waitFor.delay));
+  }
+}
+
+/** Settles like operation, or fails once the deadline has passed. */
+export async function withinDeadline<T>(
+  operation: Promise<T>,
+  deadline: WaitForDeadline,
+  condition: string
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(timedOut(condition, deadline)),
+      Math.max(deadline.at - Date.now(), 0)
+    );
+  });
+  try {
+    return await Promise.race([operation, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,14 @@
+export const TEMPLATE_KINDS = ["template", "partial"] as const;
+
+export type TemplateKind = (typeof TEMPLATE_KINDS)[number];
+
+export const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+export const TEMPLATE_FILE_EXTENSIONS = [".hbs", ".handlebars", ".html"];
+
+// Files in this subdirectory of the templates directory become partials
+export const TEMPLATE_PARTIALS_DIR = "partials";
+
+export const MAX_TEMPLATE_LENGTH = 1024 * 1024; // 1MB
+
+export const DEFAULT_TEMPLATE_LOCALE = "en-US";
@@ -0,0 +1,195 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Res,
+  UseGuards,
+} from "@nestjs/common";
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiTags,
+} from "@nestjs/swagger";
+import { Throttle, ThrottlerGuard } from "@nestjs/throttler";
+import { Response } from "express";
+import { API_KEY_SECURITY_NAME, AdminOnly, RequireScopes } from "../../auth";
+import { PdfError } from "../../pdf/errors/pdf.error";
+import { PdfService } from "../../pdf/services/pdf.service";
+import { setBlockedRequestsHeader } from "../../pdf/utils/blocked-requests.util";
+import { setSanitizeReportHeader } from "../../pdf/utils/sanitize-report.util";
+import { TemplateKind } from "../constants/template.constants";
+import { RegisterTemplateDto } from "../dto/register-template.dto";
+import { RenderTemplateDto } from "../dto/render-template.dto";
+import { TemplateSummary } from "../interfaces/template.interface";
+import { TemplateService } from "../services/template.service";
+
+@ApiTags("templates")
+@ApiSecurity(API_KEY_SECURITY_NAME)
+@Controller()
+@UseGuards(ThrottlerGuard)
+export class TemplatesController {
+  private readonly logger = new Logger(TemplatesController.name);
+
+  constructor(
+    private readonly templateService: TemplateService,
+    private readonly pdfService: PdfService
+  ) {}
+
+  @Get("templates")
+  @ApiOperation({
+    summary: "List registered templates and partials",
+    description:
+      "Includes templates loaded from the templates directory at startup and those registered through the API.",
+  })
+  @ApiResponse({ status: 200, description: "Registered templates" })
+  listTemplates(): TemplateSummary[] {
+    return this.templateService.list();
+  }
+
+  @Put("templates/:name")
+  @AdminOnly()
+  @ApiOperation({
+    summary: "Register or replace a template",
+    description:
+      "Stores a named Handlebars template that can then be rendered with POST /convert/template/:name. Needs the admin scope, as templates are shared by all API keys.",
+  })
+  @ApiResponse({ status: 200, description: "Template registered" })
+  @ApiResponse({ status: 400, description: "Invalid name" })
+  @ApiResponse({ status: 422, description: "Template syntax error" })
+  registerTemplate(
+    @Param("name") name: string,
+    @Body() dto: RegisterTemplateDto
+  ): TemplateSummary {
+    return this.register(name, dto.content, "template");
+  }
+
+  @Delete("templates/:name")
+  @AdminOnly()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Remove a template" })
+  @ApiResponse({ status: 204, description: "Template removed" })
+  @ApiResponse({ status: 404, description: "Unknown template" })
+  removeTemplate(@Param("name") name: string): void {
+    this.remove(name, "template");
+  }
+
+  @Put("templates/partials/:name")
+  @AdminOnly()
+  @ApiOperation({
+    summary: "Register or replace a partial",
+    description:
+      "Stores a named Handlebars partial that templates include with {{> name}}. Needs the admin scope.",
+  })
+  @ApiResponse({ status: 200, description: "Partial registered" })
+  @ApiResponse({ status: 400, description: "Invalid name" })
+  @ApiResponse({ status: 422, description: "Template syntax error" })
+  registerPartial(
+    @Param("name") name: string,
+    @Body() dto: RegisterTemplateDto
+  ): TemplateSummary {
+    return this.register(name, dto.content, "partial");
+  }
+
+  @Delete("templates/partials/:name")
+  @AdminOnly()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: "Remove a partial" })
+  @ApiResponse({ status: 204, description: "Partial removed" })
+  @ApiResponse({ status: 404, description: "Unknown partial" })
+  removePartial(@Param("name") name: string): void {
+    this.remove(name, "partial");
+  }
+
+  @Post("convert/template/:name")
+  @RequireScopes("html")
+  @Throttle({
+    short: { ttl: 1000, limit: 2 },
+    medium: { ttl: 60000, limit: 10 },
+  })
+  @ApiOperation({
+    summary: "Render a template with JSON data to PDF",
+    description:
+      "Merges `data` into the named template and converts the resulting HTML to PDF. Layout options are the same as for HTML text conversions.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "PDF file generated successfully",
+    content: {
+      "application/pdf": {
+        schema: {
+          type: "string",
+          format: "binary",
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: "The options are invalid" })
+  @ApiResponse({ status: 422, description: "Template rendering failed" })
+  @ApiResponse({ status: 404, description: "Unknown template" })
+  async convertTemplate(
+    @Param("name") name: string,
+    @Body() dto: RenderTemplateDto,
+    @Res() res: Response
+  ): Promise<void> {
+    try {
+      let html: string;
+      try {
+        html = this.templateService.render(name, dto.data);
+      } catch (error: unknown) {
+        if (error instanceof PdfError) {
+          throw error.toHttpException();
+        }
+        throw error;
+      }
+
+      const pdf = await this.pdfService.convertHtmlToPdf(
+        html,
+        dto.options,
+        dto.sanitize
+      );
+
+      setSanitizeReportHeader(res);
+      setBlockedRequestsHeader(res);
+      res.set({
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename=${name}.pdf`,
+      });
+      res.send(pdf);
+    } catch (error) {
+      this.logger.error(`Error converting template ${name}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private register(
+    name: string,
+    content: string,
+    kind: TemplateKind
+  ): TemplateSummary {
+    try {
+      return this.templateService.register(name, content, kind);
+    } catch (error: unknown) {
+      if (error instanceof PdfError) {
+        throw error.toHttpException();
+      }
+      throw error;
+    }
+  }
+
+  private remove(name: string, kind: TemplateKind): void {
+    if (!this.templateService.remove(name, kind)) {
+      throw new NotFoundException(
+        `${kind === "partial" ? "Partial" : "Template"} ${name} not found`
+      );
+    }
+  }
+}
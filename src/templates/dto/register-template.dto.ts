@@ -0,0 +1,16 @@
+import { ApiProperty } from "@nestjs/swagger";
+import { IsNotEmpty, IsString, MaxLength } from "class-validator";
+import { MAX_TEMPLATE_LENGTH } from "../constants/template.constants";
+
+export class RegisterTemplateDto {
+  @ApiProperty({
+    description:
+      "Handlebars template source. Supports {{#each}} loops, {{#if}} conditionals, {{> partial}} includes and the formatDate, formatCurrency and formatNumber helpers.",
+    example:
+      '<html><body><h1>Invoice {{number}}</h1>{{#each items}}<p>{{name}}: {{formatCurrency price "EUR"}}</p>{{/each}}</body></html>',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_TEMPLATE_LENGTH)
+  content: string;
+}
@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from "@nestjs/swagger";
+import { Type } from "class-transformer";
+import { IsObject, IsOptional, ValidateNested } from "class-validator";
+import { PdfOptionsDto } from "../../pdf/dto/pdf-options.dto";
+import { SanitizeOptionsDto } from "../../pdf/dto/sanitize-options.dto";
+
+export class RenderTemplateDto {
+  @ApiPropertyOptional({
+    description: "JSON data merged into the template",
+    example: {
+      number: "INV-42",
+      issuedAt: "2024-05-01",
+      items: [{ name: "Consulting", price: 1200 }],
+    },
+  })
+  @IsOptional()
+  @IsObject()
+  data?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    description: "PDF layout options",
+    type: PdfOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PdfOptionsDto)
+  options?: PdfOptionsDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Sanitization of the rendered HTML, useful when data is inserted unescaped, and whether JavaScript runs",
+    type: SanitizeOptionsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SanitizeOptionsDto)
+  sanitize?: SanitizeOptionsDto;
+}
@@ -0,0 +1,105 @@
+import * as Handlebars from "handlebars";
+import { HelperDelegate, HelperOptions } from "handlebars";
+import { DEFAULT_TEMPLATE_LOCALE } from "../constants/template.constants";
+
+const DATE_STYLES = ["short", "medium", "long", "full"] as const;
+
+type DateStyle = (typeof DATE_STYLES)[number];
+
+// Handlebars always passes its options object as the last argument
+const splitArgs = (args: unknown[]): [unknown[], HelperOptions] => {
+  const options = args[args.length - 1] as HelperOptions;
+  return [args.slice(0, -1), options];
+};
+
+const localeOf = (options: HelperOptions): string =>
+  typeof options.hash?.locale === "string"
+    ? options.hash.locale
+    : DEFAULT_TEMPLATE_LOCALE;
+
+const toNumber = (value: unknown, helper: string): number => {
+  const number = typeof value === "string" ? Number(value) : value;
+  if (typeof number !== "number" || Number.isNaN(number)) {
+    throw new Error(`${helper}: "${String(value)}" is not a number`);
+  }
+  return number;
+};
+
+/**
+ * {{formatDate issuedAt}}, {{formatDate issuedAt "long"}} or
+ * {{formatDate issuedAt "iso"}}. Accepts locale= and timeZone= hash options.
+ */
+const formatDate: HelperDelegate = (...args: unknown[]) => {
+  const [[value, style = "medium"], options] = splitArgs(args);
+  if (value === undefined || value === null || value === "") {
+    return "";
+  }
+
+  const date = new Date(value as string | number | Date);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`formatDate: "${String(value)}" is not a valid date`);
+  }
+  if (style === "iso") {
+    return date.toISOString();
+  }
+  if (!DATE_STYLES.includes(style as DateStyle)) {
+    throw new Error(
+      `formatDate: style must be one of ${DATE_STYLES.join(", ")} or iso`
+    );
+  }
+
+  return new Intl.DateTimeFormat(localeOf(options), {
+    dateStyle: style as DateStyle,
+    timeZone: options.hash?.timeZone,
+  }).format(date);
+};
+
+/** {{formatCurrency total "EUR" locale="de-DE"}}; the currency defaults to USD. */
+const formatCurrency: HelperDelegate = (...args: unknown[]) => {
+  const [[value, currency = "USD"], options] = splitArgs(args);
+  return new Intl.NumberFormat(localeOf(options), {
+    style: "currency",
+    currency: String(currency),
+  }).format(toNumber(value, "formatCurrency"));
+};
+
+/** {{formatNumber quantity decimals=2}} */
+const formatNumber: HelperDelegate = (...args: unknown[]) => {
+  const [[value], options] = splitArgs(args);
+  const decimals = options.hash?.decimals;
+  return new Intl.NumberFormat(localeOf(options), {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(toNumber(value, "formatNumber"));
+};
+
+// Comparison helpers for use as subexpressions: {{#if (gt total 100)}}
+const comparisons: Record<string, (a: unknown, b: unknown) => boolean> = {
+  eq: (a, b) => a === b,
+  ne: (a, b) => a !== b,
+  gt: (a, b) => Number(a) > Number(b),
+  gte: (a, b) => Number(a) >= Number(b),
+  lt: (a, b) => Number(a) < Number(b),
+  lte: (a, b) => Number(a) <= Number(b),
+};
+
+export function registerTemplateHelpers(handlebars: typeof Handlebars): void {
+  handlebars.registerHelper("formatDate", formatDate);
+  handlebars.registerHelper("formatCurrency", formatCurrency);
+  handlebars.registerHelper("formatNumber", formatNumber);
+
+  for (const [name, compare] of Object.entries(comparisons)) {
+    handlebars.registerHelper(name, (a: unknown, b: unknown) => compare(a, b));
+  }
+
+  handlebars.registerHelper("and", (...args: unknown[]) =>
+    splitArgs(args)[0].every(Boolean)
+  );
+  handlebars.registerHelper("or", (...args: unknown[]) =>
+    splitArgs(args)[0].some(Boolean)
+  );
+  handlebars.registerHelper("not", (value: unknown) => !value);
+  handlebars.registerHelper("default", (value: unknown, fallback: unknown) =>
+    value === undefined || value === null || value === "" ? fallback : value
+  );
+}
@@ -0,0 +1,8 @@
+export * from "./constants/template.constants";
+export * from "./controllers/templates.controller";
+export * from "./dto/register-template.dto";
+export * from "./dto/render-template.dto";
+export * from "./helpers/template.helpers";
+export * from "./interfaces/template.interface";
+export * from "./services/template.service";
+export * from "./templates.module";
@@ -0,0 +1,15 @@
+import { TemplateKind } from "../constants/template.constants";
+
+export type TemplateSource = "directory" | "api";
+
+export interface TemplateSummary {
+  name: string;
+  kind: TemplateKind;
+  source: TemplateSource;
+  updatedAt: string;
+}
+
+export interface StoredTemplate extends TemplateSummary {
+  content: string;
+  render?: (data: unknown) => string;
+}
@@ -0,0 +1,115 @@
+import { BadRequestException, NotFoundException } from "@nestjs/common";
+import { Test, TestingModule } from "@nestjs/testing";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ConfigService } from "../../../config";
+import { TemplateService } from "../template.service";
+
+describe("TemplateService", () => {
+  let service: TemplateService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TemplateService,
+        {
+          provide: ConfigService,
+          useValue: { templatesDir: join(tmpdir(), "missing-templates-dir") },
+        },
+      ],
+    }).compile();
+
+    service = module.get<TemplateService>(TemplateService);
+  });
+
+  it("should be defined", () => {
+    expect(service).toBeDefined();
+  });
+
+  it("should merge data with loops, conditionals and partials", () => {
+    service.register("line", "<li>{{name}}</li>", "partial");
+    service.register(
+      "invoice",
+      "<h1>{{number}}</h1>{{#if paid}}PAID{{/if}}<ul>{{#each items}}{{> line}}{{/each}}</ul>"
+    );
+
+    const html = service.render("invoice", {
+      number: "INV-1",
+      paid: true,
+      items: [{ name: "A" }, { name: "B" }],
+    });
+
+    expect(html).toBe("<h1>INV-1</h1>PAID<ul><li>A</li><li>B</li></ul>");
+  });
+
+  it("should escape data by default", () => {
+    service.register("greeting", "<p>{{name}}</p>");
+
+    expect(service.render("greeting", { name: "<script>" })).toBe(
+      "<p>&lt;script&gt;</p>"
+    );
+  });
+
+  it("should format dates, currency and numbers", () => {
+    service.register(
+      "formats",
+      '{{formatDate date "long" timeZone="UTC"}}|{{formatCurrency total "EUR" locale="de-DE"}}|{{formatNumber qty decimals=2}}|{{#if (gt total 100)}}big{{/if}}'
+    );
+
+    const result = service.render("formats", {
+      date: "2024-05-01T12:00:00Z",
+      total: 1234.5,
+      qty: 3,
+    });
+
+    expect(result).toBe("May 1, 2024|1.234,50 €|3.00|big");
+  });
+
+  it("should report syntax errors as template_render errors", () => {
+    expect(() => service.register("broken", "{{#each items}}")).toThrow(
+      expect.objectContaining({
+        context: expect.objectContaining({ stage: "template_render" }),
+      })
+    );
+  });
+
+  it("should report rendering errors as template_render errors", () => {
+    service.register("dated", "{{formatDate date}}");
+
+    expect(() => service.render("dated", { date: "not a date" })).toThrow(
+      expect.objectContaining({
+        context: expect.objectContaining({ stage: "template_render" }),
+      })
+    );
+  });
+
+  it("should reject invalid names and unknown templates", () => {
+    expect(() => service.register("../etc", "x")).toThrow(BadRequestException);
+    expect(() => service.render("unknown")).toThrow(NotFoundException);
+  });
+
+  it("should load templates and partials from a directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "templates-"));
+    try {
+      await mkdir(join(dir, "partials"));
+      await writeFile(join(dir, "partials", "footer.hbs"), "<footer/>");
+      await writeFile(join(dir, "report.html"), "<main>{{> footer}}</main>");
+      await writeFile(join(dir, "notes.txt"), "ignored");
+
+      await service.loadDirectory(dir);
+
+      expect(service.list()).toEqual([
+        expect.objectContaining({ name: "footer", kind: "partial" }),
+        expect.objectContaining({
+          name: "report",
+          kind: "template",
+          source: "directory",
+        }),
+      ]);
+      expect(service.render("report")).toBe("<main><footer/></main>");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
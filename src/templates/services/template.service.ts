@@ -0,0 +1,167 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from "@nestjs/common";
+import { existsSync } from "fs";
+import { readdir, readFile } from "fs/promises";
+import * as Handlebars from "handlebars";
+import { extname, join } from "path";
+import { ConfigService } from "../../config";
+import { PdfError } from "../../pdf/errors/pdf.error";
+import {
+  TEMPLATE_FILE_EXTENSIONS,
+  TEMPLATE_NAME_PATTERN,
+  TEMPLATE_PARTIALS_DIR,
+  TemplateKind,
+} from "../constants/template.constants";
+import { registerTemplateHelpers } from "../helpers/template.helpers";
+import {
+  StoredTemplate,
+  TemplateSource,
+  TemplateSummary,
+} from "../interfaces/template.interface";
+
+@Injectable()
+export class TemplateService implements OnModuleInit {
+  private readonly logger = new Logger(TemplateService.name);
+  // An isolated environment, so helpers and partials never leak globally
+  private readonly handlebars = Handlebars.create();
+  private readonly templates = new Map<string, StoredTemplate>();
+  private readonly partials = new Map<string, StoredTemplate>();
+
+  constructor(private readonly configService: ConfigService) {
+    registerTemplateHelpers(this.handlebars);
+  }
+
+  async onModuleInit() {
+    await this.loadDirectory(this.configService.templatesDir);
+  }
+
+  /**
+   * Registers every template file in the directory, and every file in its
+   * partials/ subdirectory as a partial, named after the file.
+   */
+  async loadDirectory(dir: string): Promise<void> {
+    if (!existsSync(dir)) {
+      this.logger.debug(`Templates directory ${dir} not found, skipping`);
+      return;
+    }
+
+    const partialsDir = join(dir, TEMPLATE_PARTIALS_DIR);
+    const sources: Array<[string, TemplateKind]> = [[dir, "template"]];
+    if (existsSync(partialsDir)) {
+      // Partials first, so templates referencing them compile cleanly
+      sources.unshift([partialsDir, "partial"]);
+    }
+
+    for (const [sourceDir, kind] of sources) {
+      const entries = await readdir(sourceDir, { withFileTypes: true });
+      for (const entry of entries) {
+        const extension = extname(entry.name);
+        if (!entry.isFile() || !TEMPLATE_FILE_EXTENSIONS.includes(extension)) {
+          continue;
+        }
+
+        const name = entry.name.slice(0, -extension.length);
+        try {
+          const content = await readFile(join(sourceDir, entry.name), "utf8");
+          this.register(name, content, kind, "directory");
+        } catch (error: unknown) {
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this.logger.warn(`Skipping ${kind} ${entry.name}: ${errorMessage}`);
+        }
+      }
+    }
+
+    this.logger.log(
+      `Loaded ${this.templates.size} templates and ${this.partials.size} partials from ${dir}`
+    );
+  }
+
+  list(): TemplateSummary[] {
+    return [...this.partials.values(), ...this.templates.values()].map(
+      (template) => this.summarize(template)
+    );
+  }
+
+  register(
+    name: string,
+    content: string,
+    kind: TemplateKind = "template",
+    source: TemplateSource = "api"
+  ): TemplateSummary {
+    if (!TEMPLATE_NAME_PATTERN.test(name)) {
+      throw new BadRequestException(
+        "Template names may only contain letters, digits, dashes and underscores"
+      );
+    }
+
+    try {
+      // Parse eagerly so syntax errors are reported on registration
+      this.handlebars.parse(content);
+    } catch (error: unknown) {
+      throw this.renderError(name, error);
+    }
+
+    const template: StoredTemplate = {
+      name,
+      kind,
+      source,
+      content,
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (kind === "partial") {
+      this.handlebars.registerPartial(name, content);
+      this.partials.set(name, template);
+    } else {
+      template.render = this.handlebars.compile(content);
+      this.templates.set(name, template);
+    }
+
+    this.logger.debug(`Registered ${kind} ${name} from ${source}`);
+    return this.summarize(template);
+  }
+
+  remove(name: string, kind: TemplateKind = "template"): boolean {
+    if (kind === "partial") {
+      this.handlebars.unregisterPartial(name);
+      return this.partials.delete(name);
+    }
+    return this.templates.delete(name);
+  }
+
+  render(name: string, data: Record<string, unknown> = {}): string {
+    const template = this.templates.get(name);
+    if (!template?.render) {
+      throw new NotFoundException(`Template ${name} not found`);
+    }
+
+    try {
+      return template.render(data);
+    } catch (error: unknown) {
+      throw this.renderError(name, error);
+    }
+  }
+
+  private summarize({
+    name,
+    kind,
+    source,
+    updatedAt,
+  }: StoredTemplate): TemplateSummary {
+    return { name, kind, source, updatedAt };
+  }
+
+  private renderError(name: string, error: unknown): PdfError {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new PdfError(`Failed to render template ${name}: ${errorMessage}`, {
+      stage: "template_render",
+      cause: error,
+    });
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { ConfigModule } from "../config";
+import { PdfModule } from "../pdf";
+import { TemplatesController } from "./controllers/templates.controller";
+import { TemplateService } from "./services/template.service";
+
+@Module({
+  imports: [ConfigModule, PdfModule],
+  controllers: [TemplatesController],
+  providers: [TemplateService],
+  exports: [TemplateService],
+})
+export class TemplatesModule {}